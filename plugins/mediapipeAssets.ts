@@ -0,0 +1,77 @@
+import { createHash } from "node:crypto";
+import { createReadStream, readdirSync, readFileSync } from "node:fs";
+import { createRequire } from "node:module";
+import path from "node:path";
+import type { Plugin } from "vite";
+
+// Serves a MediaPipe solution's script, wasm and model files (e.g.
+// @mediapipe/hands) from the app's own origin (emitted into the build, served
+// from node_modules in dev) and exposes their SHA-256 digests through a
+// virtual module, virtual:mediapipe-<solution>-assets, so the app can refuse
+// files that were tampered with.
+
+const SKIPPED_FILES = new Set(["package.json", "README.md", "index.d.ts"]);
+
+const CONTENT_TYPES: Record<string, string> = {
+  ".js": "text/javascript",
+  ".wasm": "application/wasm",
+};
+
+const sha256 = (file: string) => createHash("sha256").update(readFileSync(file)).digest("hex");
+
+export default function mediapipeAssets(solution: string): Plugin {
+  const virtualId = `virtual:mediapipe-${solution}-assets`;
+  const resolvedVirtualId = `\0${virtualId}`;
+  const outputDir = `mediapipe/${solution}/`;
+  const require = createRequire(import.meta.url);
+  const sourceDir = path.dirname(require.resolve(`@mediapipe/${solution}/package.json`));
+  const digests: Record<string, string> = {};
+  let base = "/";
+
+  for (const file of readdirSync(sourceDir)) {
+    if (!SKIPPED_FILES.has(file)) {
+      digests[file] = sha256(path.join(sourceDir, file));
+    }
+  }
+
+  return {
+    name: `mediapipe-${solution}-assets`,
+
+    configResolved(config) {
+      base = config.base;
+    },
+
+    resolveId(id) {
+      return id === virtualId ? resolvedVirtualId : undefined;
+    },
+
+    load(id) {
+      if (id !== resolvedVirtualId) return undefined;
+
+      return [
+        `export const baseUrl = ${JSON.stringify(`${base}${outputDir}`)};`,
+        `export const files = ${JSON.stringify(digests)};`,
+      ].join("\n");
+    },
+
+    configureServer(server) {
+      server.middlewares.use(`${base}${outputDir}`, (req, res, next) => {
+        const file = decodeURIComponent((req.url ?? "").split("?")[0].replace(/^\//, ""));
+        if (!digests[file]) return next();
+
+        res.setHeader("Content-Type", CONTENT_TYPES[path.extname(file)] ?? "application/octet-stream");
+        createReadStream(path.join(sourceDir, file)).pipe(res);
+      });
+    },
+
+    generateBundle() {
+      for (const file of Object.keys(digests)) {
+        this.emitFile({
+          type: "asset",
+          fileName: `${outputDir}${file}`,
+          source: readFileSync(path.join(sourceDir, file)),
+        });
+      }
+    },
+  };
+}
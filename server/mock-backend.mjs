@@ -0,0 +1,220 @@
+// Local stand-in for the Supabase backend, for development and tests.
+// Implements the small part of the GoTrue, PostgREST and Storage APIs that
+// src/backend/restAdapter.ts uses, keeping everything in memory.
+//
+//   npm run mock-backend            # listens on http://localhost:54321
+//   VITE_BACKEND_URL=http://localhost:54321 npm run dev
+import { createServer } from "node:http";
+import { randomUUID } from "node:crypto";
+
+const PORT = Number(process.env.PORT ?? 54321);
+const BADGE_EMAIL_DOMAIN = process.env.BADGE_EMAIL_DOMAIN ?? "badge.local";
+const SESSION_SECONDS = 12 * 60 * 60;
+
+const officers = [
+  { id: "1", name: "John Reynolds", badge_number: "12345", role: "Chief Inspector", avatar_url: null, can_view_originals: true, password: "password123" },
+  { id: "2", name: "Sarah Chen", badge_number: "67890", role: "Detective", avatar_url: null, can_view_originals: false, password: "password123" },
+];
+
+// Tables by name, rows by id
+const tables = {
+  officers: new Map(officers.map(({ password, ...row }) => [row.id, row])),
+  alerts: new Map(),
+};
+// Stored objects by "bucket/path"
+const objects = new Map();
+// Access tokens to user ids
+const sessions = new Map();
+
+const send = (res, status, body, headers = {}) => {
+  const payload = body === undefined ? "" : JSON.stringify(body);
+  res.writeHead(status, {
+    "Access-Control-Allow-Origin": "*",
+    "Access-Control-Allow-Headers": "authorization, apikey, content-type, prefer, accept, x-upsert",
+    "Access-Control-Allow-Methods": "GET, POST, PATCH, DELETE, OPTIONS",
+    ...(payload ? { "Content-Type": "application/json" } : {}),
+    ...headers,
+  });
+  res.end(payload);
+};
+
+const readBody = (req) =>
+  new Promise((resolve, reject) => {
+    const chunks = [];
+    req.on("data", (chunk) => chunks.push(chunk));
+    req.on("end", () => resolve(Buffer.concat(chunks)));
+    req.on("error", reject);
+  });
+
+const readJson = async (req) => {
+  const body = await readBody(req);
+  return body.length > 0 ? JSON.parse(body.toString("utf8")) : null;
+};
+
+const currentUser = (req) => {
+  const token = (req.headers.authorization ?? "").replace(/^Bearer /, "");
+  return sessions.get(token) ?? null;
+};
+
+// PostgREST style "column=eq.value" filters; other operators are not needed
+const applyFilters = (rows, params) => {
+  let result = rows;
+  for (const [column, condition] of params) {
+    if (["select", "order", "on_conflict", "limit"].includes(column)) continue;
+    if (!condition.startsWith("eq.")) continue;
+    const value = condition.slice(3);
+    result = result.filter((row) => String(row[column]) === value);
+  }
+  return result;
+};
+
+const selectColumns = (rows, select) => {
+  if (!select || select === "*") return rows;
+  const columns = select.split(",");
+  return rows.map((row) => Object.fromEntries(columns.map((column) => [column, row[column] ?? null])));
+};
+
+const orderRows = (rows, order) => {
+  if (!order) return rows;
+  const [column, direction] = order.split(".");
+  const sign = direction === "desc" ? -1 : 1;
+  return [...rows].sort((a, b) => (a[column] < b[column] ? -sign : a[column] > b[column] ? sign : 0));
+};
+
+const handleAuth = async (req, res, url) => {
+  if (url.pathname === "/auth/v1/token" && req.method === "POST") {
+    const { email, password } = (await readJson(req)) ?? {};
+    const badge = String(email ?? "").replace(`@${BADGE_EMAIL_DOMAIN}`, "");
+    const officer = officers.find((o) => o.badge_number === badge && o.password === password);
+    if (!officer) {
+      return send(res, 400, { error: "invalid_grant", error_description: "Invalid login credentials" });
+    }
+
+    const token = randomUUID();
+    sessions.set(token, officer.id);
+    return send(res, 200, {
+      access_token: token,
+      token_type: "bearer",
+      expires_in: SESSION_SECONDS,
+      user: { id: officer.id, email },
+    });
+  }
+
+  const userId = currentUser(req);
+  if (!userId) return send(res, 401, { msg: "Invalid or missing access token" });
+
+  if (url.pathname === "/auth/v1/user" && req.method === "GET") {
+    return send(res, 200, { id: userId });
+  }
+
+  if (url.pathname === "/auth/v1/logout" && req.method === "POST") {
+    sessions.delete((req.headers.authorization ?? "").replace(/^Bearer /, ""));
+    return send(res, 204);
+  }
+
+  return send(res, 404, { msg: "Not found" });
+};
+
+const handleRest = async (req, res, url) => {
+  if (!currentUser(req)) return send(res, 401, { message: "JWT required" });
+
+  const table = tables[url.pathname.replace("/rest/v1/", "")];
+  if (!table) return send(res, 404, { message: "Relation does not exist" });
+
+  const params = [...url.searchParams.entries()];
+
+  if (req.method === "GET") {
+    const rows = orderRows(applyFilters([...table.values()], params), url.searchParams.get("order"));
+    const selected = selectColumns(rows, url.searchParams.get("select"));
+
+    if ((req.headers.accept ?? "").includes("application/vnd.pgrst.object+json")) {
+      return selected.length === 1
+        ? send(res, 200, selected[0])
+        : send(res, 406, { message: "JSON object requested, multiple (or no) rows returned" });
+    }
+    return send(res, 200, selected);
+  }
+
+  if (req.method === "POST") {
+    const body = await readJson(req);
+    const rows = Array.isArray(body) ? body : [body];
+    const merge = (req.headers.prefer ?? "").includes("resolution=merge-duplicates");
+
+    for (const row of rows) {
+      if (table.has(row.id) && !merge) {
+        return send(res, 409, { message: `Duplicate key ${row.id}` });
+      }
+      table.set(row.id, { ...table.get(row.id), ...row });
+    }
+    return send(res, 201);
+  }
+
+  if (req.method === "PATCH") {
+    const changes = await readJson(req);
+    for (const row of applyFilters([...table.values()], params)) {
+      table.set(row.id, { ...row, ...changes });
+    }
+    return send(res, 204);
+  }
+
+  if (req.method === "DELETE") {
+    for (const row of applyFilters([...table.values()], params)) {
+      table.delete(row.id);
+    }
+    return send(res, 204);
+  }
+
+  return send(res, 405, { message: "Method not allowed" });
+};
+
+const handleStorage = async (req, res, url) => {
+  if (!currentUser(req)) return send(res, 401, { message: "JWT required" });
+
+  const key = decodeURIComponent(url.pathname.replace("/storage/v1/object/", ""));
+
+  if (req.method === "POST") {
+    if (objects.has(key) && req.headers["x-upsert"] !== "true") {
+      return send(res, 409, { message: "The resource already exists" });
+    }
+    objects.set(key, { data: await readBody(req), type: req.headers["content-type"] ?? "application/octet-stream" });
+    return send(res, 200, { Key: key });
+  }
+
+  if (req.method === "GET") {
+    const object = objects.get(key);
+    if (!object) return send(res, 404, { message: "Object not found" });
+    res.writeHead(200, { "Access-Control-Allow-Origin": "*", "Content-Type": object.type });
+    return res.end(object.data);
+  }
+
+  if (req.method === "DELETE") {
+    // The key is the bucket; the body lists the paths inside it
+    const { prefixes = [] } = (await readJson(req)) ?? {};
+    for (const path of prefixes) {
+      objects.delete(`${key}/${path}`);
+    }
+    return send(res, 200, prefixes.map((name) => ({ name })));
+  }
+
+  return send(res, 405, { message: "Method not allowed" });
+};
+
+const server = createServer(async (req, res) => {
+  const url = new URL(req.url ?? "/", `http://${req.headers.host}`);
+
+  if (req.method === "OPTIONS") return send(res, 204);
+
+  try {
+    if (url.pathname.startsWith("/auth/v1/")) return await handleAuth(req, res, url);
+    if (url.pathname.startsWith("/rest/v1/")) return await handleRest(req, res, url);
+    if (url.pathname.startsWith("/storage/v1/object/")) return await handleStorage(req, res, url);
+    return send(res, 404, { message: "Not found" });
+  } catch (error) {
+    console.error(error);
+    return send(res, 500, { message: error instanceof Error ? error.message : String(error) });
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`Mock backend listening on http://localhost:${PORT}`);
+});
@@ -0,0 +1,136 @@
+// Local network camera for developing without real cameras. Uses ffmpeg to
+// play a test pattern (or a looped video file, e.g. a recording of gestures)
+// and serves it as MJPEG and HLS with CORS, optionally also publishing it to
+// an RTSP server such as MediaMTX, which serves it over WHEP.
+//
+//   npm run test-streams                       # http://localhost:8090
+//   npm run test-streams -- path/to/video.mp4  # loop a video instead
+//   RTSP_PUBLISH=rtsp://localhost:8554/test npm run test-streams
+//
+// GET /mjpeg               multipart MJPEG stream
+// GET /hls/index.m3u8      HLS playlist
+// POST /drop               close the open MJPEG connections, to try reconnects
+import { createServer } from "node:http";
+import { spawn } from "node:child_process";
+import { mkdtempSync, readFile, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { basename, extname, join } from "node:path";
+
+const PORT = Number(process.env.PORT ?? 8090);
+const INPUT = process.argv[2];
+const RTSP_PUBLISH = process.env.RTSP_PUBLISH;
+const BOUNDARY = "frame";
+
+const hlsDir = mkdtempSync(join(tmpdir(), "test-streams-"));
+const mjpegClients = new Set();
+
+const h264 = ["-c:v", "libx264", "-preset", "veryfast", "-tune", "zerolatency", "-pix_fmt", "yuv420p", "-g", "25"];
+
+const ffmpegArgs = [
+  "-hide_banner", "-loglevel", "error",
+  ...(INPUT
+    ? ["-stream_loop", "-1", "-re", "-i", INPUT]
+    : ["-re", "-f", "lavfi", "-i", "testsrc2=size=1280x720:rate=25"]),
+  "-an",
+  "-map", "0:v", "-c:v", "mjpeg", "-pix_fmt", "yuvj420p", "-q:v", "5",
+  "-f", "mpjpeg", "-boundary_tag", BOUNDARY, "pipe:1",
+  "-map", "0:v", ...h264,
+  "-f", "hls", "-hls_time", "1", "-hls_list_size", "6", "-hls_flags", "delete_segments+omit_endlist",
+  join(hlsDir, "index.m3u8"),
+  ...(RTSP_PUBLISH ? ["-map", "0:v", ...h264, "-f", "rtsp", RTSP_PUBLISH] : []),
+];
+
+const ffmpeg = spawn("ffmpeg", ffmpegArgs, { stdio: ["ignore", "pipe", "inherit"] });
+
+ffmpeg.on("error", (error) => {
+  console.error(error.code === "ENOENT" ? "ffmpeg is required; install it and try again." : error);
+  shutdown(1);
+});
+ffmpeg.on("exit", (code) => {
+  console.error(`ffmpeg exited with code ${code}`);
+  shutdown(code ?? 1);
+});
+
+// Every client gets the same frames; a client joining mid-frame skips to the next one
+ffmpeg.stdout.on("data", (chunk) => {
+  mjpegClients.forEach((res) => res.write(chunk));
+});
+
+const CORS = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+};
+
+const CONTENT_TYPES = {
+  ".m3u8": "application/vnd.apple.mpegurl",
+  ".ts": "video/mp2t",
+};
+
+const server = createServer((req, res) => {
+  const { pathname } = new URL(req.url, `http://${req.headers.host}`);
+
+  if (req.method === "OPTIONS") {
+    res.writeHead(204, CORS);
+    res.end();
+    return;
+  }
+
+  if (req.method === "GET" && pathname === "/mjpeg") {
+    res.writeHead(200, {
+      ...CORS,
+      "Content-Type": `multipart/x-mixed-replace; boundary=${BOUNDARY}`,
+      "Cache-Control": "no-store",
+    });
+    mjpegClients.add(res);
+    req.on("close", () => mjpegClients.delete(res));
+    return;
+  }
+
+  if (req.method === "GET" && pathname.startsWith("/hls/")) {
+    const file = basename(pathname);
+    readFile(join(hlsDir, file), (error, data) => {
+      if (error) {
+        res.writeHead(404, CORS);
+        res.end();
+        return;
+      }
+      res.writeHead(200, {
+        ...CORS,
+        "Content-Type": CONTENT_TYPES[extname(file)] ?? "application/octet-stream",
+        "Cache-Control": "no-store",
+      });
+      res.end(data);
+    });
+    return;
+  }
+
+  if (req.method === "POST" && pathname === "/drop") {
+    const dropped = mjpegClients.size;
+    mjpegClients.forEach((client) => client.destroy());
+    mjpegClients.clear();
+    res.writeHead(200, { ...CORS, "Content-Type": "application/json" });
+    res.end(JSON.stringify({ dropped }));
+    return;
+  }
+
+  res.writeHead(404, CORS);
+  res.end();
+});
+
+function shutdown(code = 0) {
+  server.close();
+  mjpegClients.forEach((client) => client.destroy());
+  if (ffmpeg.exitCode === null) ffmpeg.kill();
+  rmSync(hlsDir, { recursive: true, force: true });
+  process.exit(code);
+}
+
+process.on("SIGINT", () => shutdown());
+process.on("SIGTERM", () => shutdown());
+
+server.listen(PORT, () => {
+  console.log(`Test streams on http://localhost:${PORT}`);
+  console.log(`  MJPEG  http://localhost:${PORT}/mjpeg`);
+  console.log(`  HLS    http://localhost:${PORT}/hls/index.m3u8`);
+  if (RTSP_PUBLISH) console.log(`  RTSP   ${RTSP_PUBLISH} (published)`);
+});
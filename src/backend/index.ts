@@ -0,0 +1,24 @@
+// This file picks the backend the app talks to. Set VITE_BACKEND_URL to a
+// Supabase project or the local mock server (npm run mock-backend); without
+// it everything stays in memory.
+import { createMemoryBackend } from "./memoryAdapter";
+import { createRestBackend } from "./restAdapter";
+import type { BackendAdapter } from "./types";
+
+export type { AlertStore, AuthAdapter, AuthSession, BackendAdapter, Officer } from "./types";
+export { BackendError } from "./types";
+
+const createBackend = (): BackendAdapter => {
+  const url = import.meta.env.VITE_BACKEND_URL;
+  if (!url) {
+    return createMemoryBackend();
+  }
+
+  return createRestBackend({
+    url,
+    anonKey: import.meta.env.VITE_BACKEND_ANON_KEY,
+    badgeEmailDomain: import.meta.env.VITE_BADGE_EMAIL_DOMAIN,
+  });
+};
+
+export const backend = createBackend();
@@ -0,0 +1,114 @@
+// This file contains the in-memory backend used for development and demos
+// when no backend URL is configured. Nothing leaves the browser tab.
+import type { GestureAlert } from "@/utils/gestureUtils";
+import { AuthSession, BackendAdapter, BackendError, Officer } from "./types";
+
+type OfficerAccount = Officer & { password: string };
+
+// Demo accounts
+export const DEMO_OFFICERS: OfficerAccount[] = [
+  {
+    id: "1",
+    name: "John Reynolds",
+    badgeNumber: "12345",
+    password: "password123",
+    role: "Chief Inspector",
+    avatar: "https://source.unsplash.com/random/300x300/?police,officer,1",
+    canViewOriginals: true,
+  },
+  {
+    id: "2",
+    name: "Sarah Chen",
+    badgeNumber: "67890",
+    password: "password123",
+    role: "Detective",
+    avatar: "https://source.unsplash.com/random/300x300/?police,officer,2",
+    canViewOriginals: false,
+  },
+];
+
+type MemoryBackendOptions = {
+  officers?: OfficerAccount[];
+  // Simulated network latency for sign in
+  latencyMs?: number;
+};
+
+const SESSION_LENGTH_MS = 12 * 60 * 60 * 1000;
+
+export const createMemoryBackend = ({
+  officers = DEMO_OFFICERS,
+  latencyMs = 1000,
+}: MemoryBackendOptions = {}): BackendAdapter => {
+  const alerts = new Map<string, GestureAlert>();
+  let session: AuthSession | null = null;
+
+  const requireSession = () => {
+    if (!session || session.expiresAt < Date.now()) {
+      throw new BackendError("Not signed in", 401);
+    }
+  };
+
+  return {
+    name: "In-memory (development)",
+
+    auth: {
+      async signIn(badgeNumber, password) {
+        await new Promise(resolve => setTimeout(resolve, latencyMs));
+
+        const account = officers.find(
+          o => o.badgeNumber === badgeNumber && o.password === password
+        );
+        if (!account) {
+          throw new BackendError("Invalid badge number or password", 401);
+        }
+
+        const { password: _, ...officer } = account;
+        session = {
+          officer,
+          accessToken: `memory-${officer.id}-${Date.now()}`,
+          expiresAt: Date.now() + SESSION_LENGTH_MS,
+        };
+        return session;
+      },
+
+      async signOut() {
+        session = null;
+      },
+
+      async restoreSession(stored) {
+        if (stored.expiresAt < Date.now()) return null;
+
+        const account = officers.find(o => o.id === stored.officer.id);
+        if (!account) return null;
+
+        const { password: _, ...officer } = account;
+        session = { ...stored, officer };
+        return session;
+      },
+
+      currentOfficer() {
+        return session && session.expiresAt >= Date.now() ? session.officer : null;
+      },
+    },
+
+    alerts: {
+      async pushAlert(alert) {
+        requireSession();
+        const { syncStatus, syncError, ...stored } = alert;
+        alerts.set(alert.id, stored);
+      },
+
+      async deleteAlert(alertId) {
+        requireSession();
+        alerts.delete(alertId);
+      },
+
+      async listAlerts() {
+        requireSession();
+        return Array.from(alerts.values())
+          .map(alert => ({ ...alert, imageData: null, clip: undefined, originalImage: undefined, originalClip: undefined }))
+          .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
+      },
+    },
+  };
+};
@@ -0,0 +1,306 @@
+// This file contains the HTTP backend adapter. It speaks the Supabase wire
+// protocol: GoTrue for sign in, PostgREST for rows and the Storage API for
+// evidence files, so it works against a hosted Supabase project as well as
+// the local mock server in server/mock-backend.mjs.
+import type { CameraHealthIssue } from "@/utils/cameraHealth";
+import type { RedactionSummary } from "@/utils/privacy";
+import { ArtefactDigest, CaptureMetadata, getArtefacts, sha256 } from "@/utils/custody";
+import type { AlertStatus, AlertTransition, GestureAlert } from "@/utils/gestureUtils";
+import { AuthSession, BackendAdapter, BackendError, Officer } from "./types";
+
+export type RestBackendOptions = {
+  url: string;
+  // Public API key sent with every request
+  anonKey?: string;
+  // Badge numbers are signed in as <badge>@<domain> email accounts
+  badgeEmailDomain?: string;
+  // Storage bucket for alert images and clips
+  evidenceBucket?: string;
+};
+
+type OfficerRow = {
+  id: string;
+  name: string;
+  badge_number: string;
+  role: string;
+  avatar_url: string | null;
+  can_view_originals: boolean | null;
+};
+
+type AlertRow = {
+  id: string;
+  timestamp: string;
+  gesture_type: string;
+  confidence: number;
+  location: string;
+  camera_id: string | null;
+  camera_name: string | null;
+  zone: string | null;
+  media_name: string | null;
+  media_time: number | null;
+  health_issue: CameraHealthIssue | null;
+  redaction: RedactionSummary | null;
+  capture_metadata: (Omit<CaptureMetadata, "capturedAt"> & { capturedAt: string }) | null;
+  artefacts: (Omit<ArtefactDigest, "hashedAt"> & { hashedAt: string })[] | null;
+  status: AlertStatus;
+  transitions: TransitionRow[];
+  image_path: string | null;
+  clip_paths: string[] | null;
+  clip_started_at: string | null;
+  clip_event_offset_ms: number | null;
+  // SHA-256 of every uploaded evidence file, by storage path, so unchanged
+  // files are not uploaded again
+  evidence_digests: Record<string, string> | null;
+};
+
+// Transitions are kept in a JSON column with the dates as ISO strings
+type TransitionRow = Omit<AlertTransition, "at"> & { at: string };
+
+type TokenResponse = {
+  access_token: string;
+  expires_in: number;
+  user: { id: string };
+};
+
+const toOfficer = (row: OfficerRow): Officer => ({
+  id: row.id,
+  name: row.name,
+  badgeNumber: row.badge_number,
+  role: row.role,
+  avatar: row.avatar_url ?? undefined,
+  canViewOriginals: row.can_view_originals ?? false,
+});
+
+export const createRestBackend = ({
+  url,
+  anonKey,
+  badgeEmailDomain = "badge.local",
+  evidenceBucket = "alert-evidence",
+}: RestBackendOptions): BackendAdapter => {
+  const baseUrl = url.replace(/\/+$/, "");
+  let session: AuthSession | null = null;
+
+  const request = async (path: string, init: RequestInit = {}, token = session?.accessToken): Promise<Response> => {
+    const headers = new Headers(init.headers);
+    if (anonKey) headers.set("apikey", anonKey);
+    const bearer = token ?? anonKey;
+    if (bearer) headers.set("Authorization", `Bearer ${bearer}`);
+
+    let response: Response;
+    try {
+      response = await fetch(`${baseUrl}${path}`, { ...init, headers });
+    } catch (error) {
+      throw new BackendError(`Backend unreachable: ${error instanceof Error ? error.message : error}`);
+    }
+
+    if (!response.ok) {
+      const body = await response.json().catch(() => null);
+      const message = body?.message ?? body?.error_description ?? body?.msg ?? body?.error;
+      throw new BackendError(message ?? `Request failed with status ${response.status}`, response.status);
+    }
+
+    return response;
+  };
+
+  const json = (body: unknown): RequestInit => ({
+    body: JSON.stringify(body),
+    headers: { "Content-Type": "application/json" },
+  });
+
+  const uploadEvidence = async (path: string, data: Blob) => {
+    await request(`/storage/v1/object/${evidenceBucket}/${path}`, {
+      method: "POST",
+      body: data,
+      headers: { "Content-Type": data.type || "application/octet-stream", "x-upsert": "true" },
+    });
+    return path;
+  };
+
+  const fetchOfficer = async (userId: string, token: string): Promise<Officer> => {
+    const response = await request(
+      `/rest/v1/officers?id=eq.${encodeURIComponent(userId)}&select=id,name,badge_number,role,avatar_url,can_view_originals`,
+      { headers: { Accept: "application/vnd.pgrst.object+json" } },
+      token
+    );
+    return toOfficer(await response.json());
+  };
+
+  return {
+    name: `Server (${new URL(baseUrl).host})`,
+
+    auth: {
+      async signIn(badgeNumber, password) {
+        let token: TokenResponse;
+        try {
+          const response = await request(
+            "/auth/v1/token?grant_type=password",
+            { method: "POST", ...json({ email: `${badgeNumber}@${badgeEmailDomain}`, password }) },
+            anonKey
+          );
+          token = await response.json();
+        } catch (error) {
+          if (error instanceof BackendError && (error.status === 400 || error.status === 401)) {
+            throw new BackendError("Invalid badge number or password", error.status);
+          }
+          throw error;
+        }
+
+        const officer = await fetchOfficer(token.user.id, token.access_token);
+        session = {
+          officer,
+          accessToken: token.access_token,
+          expiresAt: Date.now() + token.expires_in * 1000,
+        };
+        return session;
+      },
+
+      async signOut() {
+        const current = session;
+        session = null;
+        if (!current) return;
+
+        try {
+          await request("/auth/v1/logout", { method: "POST" }, current.accessToken);
+        } catch (error) {
+          // The local session is gone either way
+          console.warn("Error signing out of backend:", error);
+        }
+      },
+
+      async restoreSession(stored) {
+        if (stored.expiresAt < Date.now()) return null;
+
+        try {
+          const response = await request("/auth/v1/user", {}, stored.accessToken);
+          const user: { id: string } = await response.json();
+          session = { ...stored, officer: await fetchOfficer(user.id, stored.accessToken) };
+        } catch (error) {
+          // Only a rejected token ends the session; while offline keep it so
+          // queued alerts can sync once the backend is reachable again, but
+          // without the permissions it claims until the backend confirms them
+          if (error instanceof BackendError && error.status === 401) return null;
+          session = { ...stored, officer: { ...stored.officer, canViewOriginals: false } };
+        }
+
+        return session;
+      },
+
+      currentOfficer() {
+        return session && session.expiresAt >= Date.now() ? session.officer : null;
+      },
+    },
+
+    alerts: {
+      // Only the redacted image and clip are uploaded, and only when they are
+      // new or changed; sealed originals stay on the workstation that
+      // captured them. Alerts already stored are patched.
+      async pushAlert(alert: GestureAlert) {
+        if (!session) throw new BackendError("Not signed in", 401);
+
+        const filter = `id=eq.${encodeURIComponent(alert.id)}`;
+        const response = await request(`/rest/v1/alerts?${filter}&select=id,evidence_digests`);
+        const [stored]: Pick<AlertRow, "id" | "evidence_digests">[] = await response.json();
+        const uploaded = stored?.evidence_digests ?? {};
+
+        const evidenceDigests: Record<string, string> = {};
+        for (const { name, data } of getArtefacts(alert).filter(artefact => !artefact.name.endsWith(".enc"))) {
+          const path = `${alert.id}/${name}`;
+          const blob = data instanceof Blob ? data : new Blob([data], { type: "image/jpeg" });
+          const digest = await sha256(await blob.arrayBuffer());
+          if (uploaded[path] !== digest) {
+            await uploadEvidence(path, blob);
+          }
+          evidenceDigests[path] = digest;
+        }
+
+        const paths = Object.keys(evidenceDigests);
+        const clip = alert.clip;
+        const row: AlertRow = {
+          id: alert.id,
+          timestamp: alert.timestamp.toISOString(),
+          gesture_type: alert.gestureType,
+          confidence: alert.confidence,
+          location: alert.location,
+          camera_id: alert.cameraId ?? null,
+          camera_name: alert.cameraName ?? null,
+          zone: alert.zone ?? null,
+          media_name: alert.mediaName ?? null,
+          media_time: alert.mediaTime ?? null,
+          health_issue: alert.healthIssue ?? null,
+          redaction: alert.redaction ?? null,
+          capture_metadata: alert.capture ? { ...alert.capture, capturedAt: alert.capture.capturedAt.toISOString() } : null,
+          artefacts: alert.artefacts?.map(artefact => ({ ...artefact, hashedAt: artefact.hashedAt.toISOString() })) ?? null,
+          status: alert.status,
+          transitions: alert.transitions.map(transition => ({ ...transition, at: transition.at.toISOString() })),
+          image_path: paths.find(path => path.endsWith("/image.jpg")) ?? null,
+          clip_paths: clip ? paths.filter(path => path.includes("/clip-")) : null,
+          clip_started_at: clip ? clip.startedAt.toISOString() : null,
+          clip_event_offset_ms: clip ? clip.eventOffsetMs : null,
+          evidence_digests: evidenceDigests,
+        };
+
+        if (stored) {
+          const { id, ...changes } = row;
+          await request(`/rest/v1/alerts?${filter}`, {
+            method: "PATCH",
+            ...json(changes),
+            headers: { "Content-Type": "application/json", Prefer: "return=minimal" },
+          });
+          return;
+        }
+
+        await request("/rest/v1/alerts?on_conflict=id", {
+          method: "POST",
+          ...json(row),
+          headers: { "Content-Type": "application/json", Prefer: "resolution=merge-duplicates,return=minimal" },
+        });
+      },
+
+      async deleteAlert(alertId) {
+        if (!session) throw new BackendError("Not signed in", 401);
+
+        const filter = `id=eq.${encodeURIComponent(alertId)}`;
+        const response = await request(`/rest/v1/alerts?${filter}&select=image_path,clip_paths`);
+        const rows: Pick<AlertRow, "image_path" | "clip_paths">[] = await response.json();
+        const paths = rows
+          .flatMap(row => [row.image_path, ...(row.clip_paths ?? [])])
+          .filter((path): path is string => !!path);
+
+        await request(`/rest/v1/alerts?${filter}`, { method: "DELETE" });
+        if (paths.length > 0) {
+          await request(`/storage/v1/object/${evidenceBucket}`, { method: "DELETE", ...json({ prefixes: paths }) });
+        }
+      },
+
+      async listAlerts() {
+        if (!session) throw new BackendError("Not signed in", 401);
+
+        const response = await request("/rest/v1/alerts?select=*&order=timestamp.desc");
+        const rows: AlertRow[] = await response.json();
+
+        return rows.map(row => ({
+          id: row.id,
+          timestamp: new Date(row.timestamp),
+          gestureType: row.gesture_type,
+          confidence: row.confidence,
+          imageData: null,
+          location: row.location,
+          cameraId: row.camera_id ?? undefined,
+          cameraName: row.camera_name ?? undefined,
+          zone: row.zone ?? undefined,
+          mediaName: row.media_name ?? undefined,
+          mediaTime: row.media_time ?? undefined,
+          healthIssue: row.health_issue ?? undefined,
+          redaction: row.redaction ?? undefined,
+          capture: row.capture_metadata
+            ? { ...row.capture_metadata, capturedAt: new Date(row.capture_metadata.capturedAt) }
+            : undefined,
+          artefacts: row.artefacts?.map(artefact => ({ ...artefact, hashedAt: new Date(artefact.hashedAt) })),
+          status: row.status,
+          transitions: (row.transitions ?? []).map(transition => ({ ...transition, at: new Date(transition.at) })),
+          syncStatus: "synced" as const,
+        }));
+      },
+    },
+  };
+};
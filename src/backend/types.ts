@@ -0,0 +1,53 @@
+// This file contains the interfaces every backend adapter implements. The app
+// only talks to a backend through these, so the hosted Supabase-compatible
+// API, the local mock server and the in-memory adapter are interchangeable.
+import type { GestureAlert } from "@/utils/gestureUtils";
+import type { RemoteAlertBackend } from "@/utils/alertRepository";
+
+export type Officer = {
+  id: string;
+  name: string;
+  badgeNumber: string;
+  role: string;
+  avatar?: string;
+  // Granted by the backend: may see unredacted originals, see
+  // evidenceVault.ts
+  canViewOriginals?: boolean;
+};
+
+export type AuthSession = {
+  officer: Officer;
+  accessToken: string;
+  // Epoch milliseconds; the session has to be renewed by signing in again
+  expiresAt: number;
+};
+
+export interface AuthAdapter {
+  signIn(badgeNumber: string, password: string): Promise<AuthSession>;
+  signOut(): Promise<void>;
+  // Resume a session persisted by an earlier page load, with the officer as
+  // the backend knows them rather than as stored. Returns null when the
+  // session is no longer usable.
+  restoreSession(session: AuthSession): Promise<AuthSession | null>;
+  // The signed in officer as the backend vouches for them. Officers can edit
+  // what is in the browser's storage, so permissions are checked here.
+  currentOfficer(): Officer | null;
+}
+
+// Where alerts are stored centrally, see alertRepository.ts
+export type AlertStore = RemoteAlertBackend;
+
+export interface BackendAdapter {
+  // Shown in the UI so operators know where alerts are going
+  name: string;
+  auth: AuthAdapter;
+  alerts: AlertStore;
+}
+
+// A request the backend answered with an error
+export class BackendError extends Error {
+  constructor(message: string, readonly status?: number) {
+    super(message);
+    this.name = "BackendError";
+  }
+}
@@ -0,0 +1,60 @@
+import React, { useEffect, useRef, useState } from "react";
+import { AlertClip } from "@/utils/gestureUtils";
+
+type AlertClipPlayerProps = {
+  clip: AlertClip;
+  className?: string;
+};
+
+const formatSeconds = (ms: number) => {
+  const seconds = Math.round(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, "0")}`;
+};
+
+// Plays the recorded segments of an alert clip back to back
+const AlertClipPlayer: React.FC<AlertClipPlayerProps> = ({ clip, className = "" }) => {
+  const videoRef = useRef<HTMLVideoElement | null>(null);
+  const [urls, setUrls] = useState<string[]>([]);
+  const [segmentIndex, setSegmentIndex] = useState(0);
+
+  useEffect(() => {
+    const segmentUrls = clip.segments.map(segment => URL.createObjectURL(segment));
+    setUrls(segmentUrls);
+    setSegmentIndex(0);
+
+    return () => {
+      segmentUrls.forEach(url => URL.revokeObjectURL(url));
+    };
+  }, [clip]);
+
+  // Keep playing when moving on to the next segment
+  useEffect(() => {
+    if (segmentIndex > 0) {
+      videoRef.current?.play().catch(() => undefined);
+    }
+  }, [segmentIndex]);
+
+  if (urls.length === 0) return null;
+
+  return (
+    <div className={className}>
+      <video
+        ref={videoRef}
+        src={urls[segmentIndex]}
+        controls
+        playsInline
+        muted
+        className="w-full rounded-sm bg-black"
+        onEnded={() => setSegmentIndex(index => (index + 1 < urls.length ? index + 1 : index))}
+      />
+      <div className="flex justify-between text-xs text-muted-foreground mt-1">
+        <span>Part {segmentIndex + 1} of {urls.length}</span>
+        <span>
+          Alert at {formatSeconds(clip.eventOffsetMs)} of {formatSeconds(clip.durationMs)}
+        </span>
+      </div>
+    </div>
+  );
+};
+
+export default AlertClipPlayer;
@@ -0,0 +1,233 @@
+import React, { useEffect, useState } from "react";
+import { Eye, EyeOff, Loader2, Package } from "lucide-react";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle
+} from "@/components/ui/sheet";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Separator } from "@/components/ui/separator";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { useAuth } from "@/contexts/AuthContext";
+import { useToast } from "@/hooks/use-toast";
+import {
+  ALERT_STATUSES,
+  AlertClip,
+  GestureAlert,
+  describeRedaction,
+  formatDateTime,
+  getGestureColor,
+  getGestureDisplayName
+} from "@/utils/gestureUtils";
+import { formatMediaTime } from "@/utils/mediaPlayback";
+import { CAMERA_HEALTH_ISSUES } from "@/utils/cameraHealth";
+import { canViewOriginals, openClip, openEvidence } from "@/utils/evidenceVault";
+import { custodyLog } from "@/utils/custody";
+import AlertClipPlayer from "@/components/AlertClipPlayer";
+import EvidenceCustody from "@/components/EvidenceCustody";
+import EvidenceBundleDialog from "@/components/EvidenceBundleDialog";
+
+type AlertDetailSheetProps = {
+  alert: GestureAlert | null;
+  onOpenChange: (open: boolean) => void;
+};
+
+const DetailRow: React.FC<{ label: string; children: React.ReactNode }> = ({ label, children }) => (
+  <div className="flex justify-between gap-4 text-sm">
+    <span className="text-muted-foreground">{label}</span>
+    <span className="text-right break-all">{children}</span>
+  </div>
+);
+
+type OriginalEvidence = {
+  imageUrl: string | null;
+  clip: AlertClip | null;
+};
+
+// Side panel with everything recorded for one alert
+const AlertDetailSheet: React.FC<AlertDetailSheetProps> = ({ alert, onOpenChange }) => {
+  const { officer } = useAuth();
+  const { toast } = useToast();
+  // The decrypted originals, only while they are shown
+  const [original, setOriginal] = useState<OriginalEvidence | null>(null);
+  const [isOpening, setIsOpening] = useState(false);
+  const [isBundleOpen, setIsBundleOpen] = useState(false);
+  const hasOriginal = !!(alert?.originalImage || alert?.originalClip);
+  // The vault checks again when the originals are opened
+  const mayViewOriginal = hasOriginal && !!officer && canViewOriginals();
+
+  // Forget the originals when another alert is shown or the sheet closes,
+  // and log each time an alert's evidence is opened
+  useEffect(() => {
+    setOriginal(null);
+    if (alert) {
+      custodyLog.record(alert.id, 'viewed', officer);
+    }
+  }, [alert?.id]);
+
+  useEffect(() => {
+    return () => {
+      if (original?.imageUrl) URL.revokeObjectURL(original.imageUrl);
+    };
+  }, [original]);
+
+  const toggleOriginal = async () => {
+    if (original) {
+      setOriginal(null);
+      return;
+    }
+    if (!alert) return;
+
+    setIsOpening(true);
+    try {
+      const [image, clip] = await Promise.all([
+        alert.originalImage ? openEvidence(alert.originalImage) : null,
+        alert.originalClip ? openClip(alert.originalClip) : null
+      ]);
+      setOriginal({ imageUrl: image ? URL.createObjectURL(image) : null, clip });
+      custodyLog.record(alert.id, 'original_viewed', officer);
+    } catch (error) {
+      toast({
+        title: "Original Unavailable",
+        description: error instanceof Error ? error.message : "The original could not be opened.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsOpening(false);
+    }
+  };
+
+  const clip = original ? original.clip : alert?.clip;
+  const imageData = original ? original.imageUrl : alert?.imageData;
+
+  return (
+    <Sheet open={!!alert} onOpenChange={onOpenChange}>
+      <SheetContent className="w-full sm:max-w-lg p-0">
+        {alert && (
+          <ScrollArea className="h-full">
+            <div className="p-6 space-y-4">
+              <SheetHeader>
+                <SheetTitle className={getGestureColor(alert.gestureType)}>
+                  {getGestureDisplayName(alert.gestureType)}
+                </SheetTitle>
+                <SheetDescription>{formatDateTime(alert.timestamp)}</SheetDescription>
+              </SheetHeader>
+
+              {clip ? (
+                <AlertClipPlayer clip={clip} />
+              ) : imageData ? (
+                <img
+                  src={imageData}
+                  alt="Alert capture"
+                  className="w-full rounded-md border"
+                />
+              ) : (
+                <div className="flex items-center justify-center h-32 rounded-md border text-sm text-muted-foreground">
+                  No image captured
+                </div>
+              )}
+
+              {mayViewOriginal && (
+                <div className="flex items-center justify-between gap-2">
+                  <p className="text-xs text-muted-foreground">
+                    {original ? "Showing the unredacted original." : "Faces and privacy masks are hidden."}
+                  </p>
+                  <Button variant="outline" size="sm" onClick={toggleOriginal} disabled={isOpening}>
+                    {isOpening ? (
+                      <Loader2 className="mr-1 h-4 w-4 animate-spin" />
+                    ) : original ? (
+                      <EyeOff className="mr-1 h-4 w-4" />
+                    ) : (
+                      <Eye className="mr-1 h-4 w-4" />
+                    )}
+                    {original ? "Show redacted" : "Show original"}
+                  </Button>
+                </div>
+              )}
+
+              <div className="space-y-2">
+                <DetailRow label="Status">
+                  <Badge variant="outline" className={ALERT_STATUSES[alert.status].badgeClass}>
+                    {ALERT_STATUSES[alert.status].label}
+                  </Badge>
+                </DetailRow>
+                <DetailRow label="Confidence">{(alert.confidence * 100).toFixed(0)}%</DetailRow>
+                <DetailRow label="Location">{alert.location || "Unknown"}</DetailRow>
+                {alert.zone && <DetailRow label="Zone">{alert.zone}</DetailRow>}
+                {alert.healthIssue && (
+                  <DetailRow label="Camera issue">
+                    {CAMERA_HEALTH_ISSUES[alert.healthIssue].description}
+                  </DetailRow>
+                )}
+                {alert.mediaName && (
+                  <DetailRow label="Recording">
+                    {alert.mediaName} at {formatMediaTime(alert.mediaTime ?? 0)}
+                  </DetailRow>
+                )}
+                {alert.redaction && (
+                  <DetailRow label="Redaction">
+                    {describeRedaction(alert.redaction)}
+                    {hasOriginal && !mayViewOriginal && ", original restricted"}
+                  </DetailRow>
+                )}
+                <DetailRow label="Alert ID">{alert.id}</DetailRow>
+                {alert.clip && (
+                  <DetailRow label="Clip">
+                    {Math.round(alert.clip.durationMs / 1000)}s from {formatDateTime(alert.clip.startedAt)}
+                  </DetailRow>
+                )}
+                <DetailRow label="Sync">
+                  {alert.syncStatus === 'error' ? `Failed: ${alert.syncError}` : alert.syncStatus ?? "Local only"}
+                </DetailRow>
+              </div>
+
+              <Separator />
+
+              <EvidenceCustody alert={alert} />
+
+              <Button variant="outline" size="sm" className="w-full" onClick={() => setIsBundleOpen(true)}>
+                <Package className="mr-1 h-4 w-4" />
+                Export evidence bundle
+              </Button>
+
+              <Separator />
+
+              <div>
+                <h3 className="text-sm font-medium mb-2">Status history</h3>
+                {alert.transitions.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No changes since the alert was raised.</p>
+                ) : (
+                  <ol className="space-y-3">
+                    {alert.transitions.map((transition, index) => (
+                      <li key={index} className="border-l-2 pl-3">
+                        <p className="text-sm">
+                          {ALERT_STATUSES[transition.from].label} → {ALERT_STATUSES[transition.to].label}
+                        </p>
+                        <p className="text-xs text-muted-foreground">
+                          {transition.by.name} ({transition.by.badgeNumber}), {formatDateTime(transition.at)}
+                        </p>
+                        {transition.note && (
+                          <p className="text-sm mt-1 whitespace-pre-wrap">{transition.note}</p>
+                        )}
+                      </li>
+                    ))}
+                  </ol>
+                )}
+              </div>
+            </div>
+          </ScrollArea>
+        )}
+        <EvidenceBundleDialog
+          open={isBundleOpen}
+          onOpenChange={setIsBundleOpen}
+          alerts={alert ? [alert] : []}
+        />
+      </SheetContent>
+    </Sheet>
+  );
+};
+
+export default AlertDetailSheet;
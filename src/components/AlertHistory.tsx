@@ -6,7 +6,13 @@ import {
   ChevronDown, 
   ChevronUp, 
   Clock, 
-  MoreVertical 
+  Cloud,
+  CloudOff,
+  CloudUpload,
+  Film,
+  Loader2,
+  MoreVertical,
+  UserCheck
 } from "lucide-react";
 import { 
   Collapsible,
@@ -20,24 +26,64 @@ import {
   DropdownMenuItem,
   DropdownMenuTrigger
 } from "@/components/ui/dropdown-menu";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { GestureAlert, getGestureColor, getGestureDisplayName } from "@/utils/gestureUtils";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  ALERT_STATUSES,
+  ALERT_STATUS_ORDER,
+  AlertStatus,
+  GestureAlert,
+  getGestureColor,
+  getGestureDisplayName,
+  isOpenAlert
+} from "@/utils/gestureUtils";
+import AlertClipPlayer from "@/components/AlertClipPlayer";
 
 type AlertHistoryProps = {
   alerts: GestureAlert[];
-  onProcessAlert?: (alertId: string) => void;
+  // Resolves once the change is stored; rejects if it was refused
+  onTransitionAlert?: (alertId: string, status: AlertStatus, note?: string) => Promise<void>;
   onDeleteAlert?: (alertId: string) => void;
   maxHeight?: number;
 };
 
+// Which alerts the list shows: open ones, all of them or a single state
+type StatusFilter = 'open' | 'all' | AlertStatus;
+
+type PendingTransition = {
+  alert: GestureAlert;
+  status: AlertStatus;
+};
+
 const AlertHistory: React.FC<AlertHistoryProps> = ({
   alerts,
-  onProcessAlert,
+  onTransitionAlert,
   onDeleteAlert,
   maxHeight = 350
 }) => {
   const [isOpen, setIsOpen] = useState(true);
+  const [playingClipId, setPlayingClipId] = useState<string | null>(null);
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('all');
+  const [pendingTransition, setPendingTransition] = useState<PendingTransition | null>(null);
+  const [note, setNote] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
   
   const formatTime = (date: Date) => {
     return new Intl.DateTimeFormat('en-US', {
@@ -64,17 +110,64 @@ const AlertHistory: React.FC<AlertHistoryProps> = ({
     }
   };
 
-  const getUnprocessedCount = () => {
-    return alerts.filter(alert => !alert.processed).length;
+  const renderSyncStatus = (alert: GestureAlert) => {
+    switch (alert.syncStatus) {
+      case 'synced':
+        return <Cloud className="h-3 w-3 ml-2 text-green-500" aria-label="Synced" />;
+      case 'pending':
+        return <CloudUpload className="h-3 w-3 ml-2 text-muted-foreground" aria-label="Waiting to sync" />;
+      case 'error':
+        return (
+          <span title={`Sync failed, will retry: ${alert.syncError ?? 'unknown error'}`}>
+            <CloudOff className="h-3 w-3 ml-2 text-amber-500" aria-label="Sync failed" />
+          </span>
+        );
+      default:
+        return null;
+    }
+  };
+
+  const getNewCount = () => {
+    return alerts.filter(alert => alert.status === 'new').length;
   };
 
-  const handleProcess = (alertId: string, e: React.MouseEvent) => {
+  const filteredAlerts = alerts.filter(alert => {
+    if (statusFilter === 'all') return true;
+    if (statusFilter === 'open') return isOpenAlert(alert);
+    return alert.status === statusFilter;
+  });
+
+  const handleTransition = (alert: GestureAlert, status: AlertStatus, e: React.MouseEvent) => {
     e.stopPropagation();
-    if (onProcessAlert) {
-      onProcessAlert(alertId);
+    if (!onTransitionAlert) return;
+
+    // Closing an alert asks for a note on the outcome
+    if (ALERT_STATUSES[status].closed) {
+      setNote("");
+      setPendingTransition({ alert, status });
+      return;
+    }
+
+    onTransitionAlert(alert.id, status).catch(() => undefined);
+  };
+
+  const handleConfirmTransition = async () => {
+    if (!pendingTransition || !onTransitionAlert) return;
+
+    setIsSaving(true);
+    try {
+      await onTransitionAlert(pendingTransition.alert.id, pendingTransition.status, note);
+      setPendingTransition(null);
+    } catch {
+      // The parent reports the error; keep the dialog open to retry
+    } finally {
+      setIsSaving(false);
     }
   };
 
+  const pendingStatus = pendingTransition ? ALERT_STATUSES[pendingTransition.status] : null;
+  const noteMissing = !!pendingStatus?.requiresNote && note.trim() === "";
+
   const handleDelete = (alertId: string, e: React.MouseEvent) => {
     e.stopPropagation();
     if (onDeleteAlert) {
@@ -88,12 +181,26 @@ const AlertHistory: React.FC<AlertHistoryProps> = ({
         <CardTitle className="text-sm font-medium flex items-center">
           <Bell className="w-4 h-4 mr-1.5" />
           Alert History
-          {getUnprocessedCount() > 0 && (
+          {getNewCount() > 0 && (
             <Badge variant="destructive" className="ml-2 py-0 h-5">
-              {getUnprocessedCount()} new
+              {getNewCount()} new
             </Badge>
           )}
         </CardTitle>
+        <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as StatusFilter)}>
+          <SelectTrigger className="h-7 w-[130px] text-xs ml-auto mr-1" aria-label="Filter by status">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all" className="text-xs">All alerts</SelectItem>
+            <SelectItem value="open" className="text-xs">Open</SelectItem>
+            {ALERT_STATUS_ORDER.map(status => (
+              <SelectItem key={status} value={status} className="text-xs">
+                {ALERT_STATUSES[status].label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
         <Collapsible
           open={isOpen}
           onOpenChange={setIsOpen}
@@ -116,74 +223,115 @@ const AlertHistory: React.FC<AlertHistoryProps> = ({
                   <Bell className="h-8 w-8 mb-2 opacity-30" />
                   <p>No alerts recorded yet</p>
                 </div>
+              ) : filteredAlerts.length === 0 ? (
+                <div className="flex flex-col items-center justify-center py-6 text-muted-foreground">
+                  <Bell className="h-8 w-8 mb-2 opacity-30" />
+                  <p>No alerts match this filter</p>
+                </div>
               ) : (
                 <ScrollArea className={`pr-3 -mr-3`} style={{ maxHeight }}>
                   <div className="space-y-1 py-2">
-                    {alerts.map((alert) => (
-                      <div
-                        key={alert.id}
-                        className={`
-                          rounded-md border p-2
-                          ${!alert.processed ? 'bg-destructive/5 border-destructive/30' : 'bg-card border-border'}
-                          transition-all hover:bg-accent/50
-                        `}
-                      >
-                        <div className="flex justify-between items-start">
-                          <div className="flex flex-col">
-                            <div className="flex items-center">
-                              <span className={`font-medium ${getGestureColor(alert.gestureType)}`}>
-                                {getGestureDisplayName(alert.gestureType)}
-                              </span>
-                              {!alert.processed && (
-                                <Badge variant="outline" className="ml-2 py-0 h-5 bg-red-500/10 text-red-500 border-red-500/20">
-                                  New
+                    {filteredAlerts.map((alert) => {
+                      const lastTransition = alert.transitions[alert.transitions.length - 1];
+                      return (
+                        <div
+                          key={alert.id}
+                          className={`
+                            rounded-md border p-2
+                            ${alert.status === 'new' ? 'bg-destructive/5 border-destructive/30' : 'bg-card border-border'}
+                            transition-all hover:bg-accent/50
+                          `}
+                        >
+                          <div className="flex justify-between items-start">
+                            <div className="flex flex-col">
+                              <div className="flex items-center">
+                                <span className={`font-medium ${getGestureColor(alert.gestureType)}`}>
+                                  {getGestureDisplayName(alert.gestureType)}
+                                </span>
+                                <Badge variant="outline" className={`ml-2 py-0 h-5 ${ALERT_STATUSES[alert.status].badgeClass}`}>
+                                  {ALERT_STATUSES[alert.status].label}
                                 </Badge>
+                                {renderSyncStatus(alert)}
+                              </div>
+                              <div className="flex items-center text-xs text-muted-foreground mt-1">
+                                <Clock className="h-3 w-3 mr-1" />
+                                <span>{formatDate(alert.timestamp)} at {formatTime(alert.timestamp)}</span>
+                              </div>
+                              {alert.location && (
+                                <span className="text-xs text-muted-foreground mt-0.5">
+                                  Location: {alert.location}{alert.zone && `, ${alert.zone}`}
+                                </span>
+                              )}
+                              {lastTransition && (
+                                <span className="flex items-center text-xs text-muted-foreground mt-0.5">
+                                  <UserCheck className="h-3 w-3 mr-1" />
+                                  {ALERT_STATUSES[lastTransition.to].label} by {lastTransition.by.name} at {formatTime(lastTransition.at)}
+                                </span>
+                              )}
+                              {lastTransition?.note && (
+                                <span className="text-xs italic text-muted-foreground mt-0.5">
+                                  "{lastTransition.note}"
+                                </span>
                               )}
                             </div>
-                            <div className="flex items-center text-xs text-muted-foreground mt-1">
-                              <Clock className="h-3 w-3 mr-1" />
-                              <span>{formatDate(alert.timestamp)} at {formatTime(alert.timestamp)}</span>
-                            </div>
-                            {alert.location && (
-                              <span className="text-xs text-muted-foreground mt-0.5">
-                                Location: {alert.location}
-                              </span>
-                            )}
+                            
+                            <DropdownMenu>
+                              <DropdownMenuTrigger asChild>
+                                <Button variant="ghost" size="icon" className="h-6 w-6">
+                                  <MoreVertical className="h-3.5 w-3.5" />
+                                </Button>
+                              </DropdownMenuTrigger>
+                              <DropdownMenuContent align="end">
+                                {onTransitionAlert && ALERT_STATUSES[alert.status].next.map(status => (
+                                  <DropdownMenuItem
+                                    key={status}
+                                    onClick={(e) => handleTransition(alert, status, e as React.MouseEvent)}
+                                  >
+                                    Mark as {ALERT_STATUSES[status].label.toLowerCase()}
+                                  </DropdownMenuItem>
+                                ))}
+                                <DropdownMenuItem 
+                                  className="text-destructive focus:text-destructive"
+                                  onClick={(e) => handleDelete(alert.id, e as React.MouseEvent)}
+                                >
+                                  Delete alert
+                                </DropdownMenuItem>
+                              </DropdownMenuContent>
+                            </DropdownMenu>
                           </div>
                           
-                          <DropdownMenu>
-                            <DropdownMenuTrigger asChild>
-                              <Button variant="ghost" size="icon" className="h-6 w-6">
-                                <MoreVertical className="h-3.5 w-3.5" />
-                              </Button>
-                            </DropdownMenuTrigger>
-                            <DropdownMenuContent align="end">
-                              {!alert.processed && (
-                                <DropdownMenuItem onClick={(e) => handleProcess(alert.id, e as React.MouseEvent)}>
-                                  Mark as processed
-                                </DropdownMenuItem>
-                              )}
-                              <DropdownMenuItem 
-                                className="text-destructive focus:text-destructive"
-                                onClick={(e) => handleDelete(alert.id, e as React.MouseEvent)}
-                              >
-                                Delete alert
-                              </DropdownMenuItem>
-                            </DropdownMenuContent>
-                          </DropdownMenu>
+                          {alert.clipStatus === 'recording' && (
+                            <div className="flex items-center text-xs text-muted-foreground mt-2">
+                              <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+                              Recording clip...
+                            </div>
+                          )}
+                          {alert.clip && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              className="text-xs h-6 mt-2"
+                              onClick={() => setPlayingClipId(playingClipId === alert.id ? null : alert.id)}
+                            >
+                              <Film className="h-3 w-3 mr-1" />
+                              {playingClipId === alert.id ? "Hide clip" : "Play clip"}
+                            </Button>
+                          )}
+
+                          {alert.clip && playingClipId === alert.id ? (
+                            <AlertClipPlayer clip={alert.clip} className="mt-2" />
+                          ) : alert.imageData && (
+                            <div className="mt-2">
+                              <img 
+                                src={alert.imageData} 
+                                alt="Alert capture" 
+                                className="w-full h-20 object-cover rounded-sm"
+                              />
+                            </div>
+                          )}
                         </div>
-                        
-                        {alert.imageData && (
-                          <div className="mt-2">
-                            <img 
-                              src={alert.imageData} 
-                              alt="Alert capture" 
-                              className="w-full h-20 object-cover rounded-sm"
-                            />
-                          </div>
-                        )}
-                      </div>
-                    ))}
+                      );
+                    })}
                   </div>
                 </ScrollArea>
               )}
@@ -191,6 +339,43 @@ const AlertHistory: React.FC<AlertHistoryProps> = ({
           </CollapsibleContent>
         </Collapsible>
       </CardHeader>
+
+      <Dialog open={!!pendingTransition} onOpenChange={(open) => !open && setPendingTransition(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Mark alert as {pendingStatus?.label.toLowerCase()}</DialogTitle>
+            <DialogDescription>
+              {pendingTransition && (
+                <>
+                  {getGestureDisplayName(pendingTransition.alert.gestureType)} at {formatTime(pendingTransition.alert.timestamp)}
+                  {pendingTransition.alert.location && `, ${pendingTransition.alert.location}`}
+                </>
+              )}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="transition-note">
+              {pendingStatus?.requiresNote ? "Resolution note" : "Note (optional)"}
+            </Label>
+            <Textarea
+              id="transition-note"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder="What happened and how it was handled"
+              rows={4}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setPendingTransition(null)} disabled={isSaving}>
+              Cancel
+            </Button>
+            <Button onClick={handleConfirmTransition} disabled={noteMissing || isSaving}>
+              {isSaving && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+              Confirm
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </Card>
   );
 };
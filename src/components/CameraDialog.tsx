@@ -0,0 +1,222 @@
+import React, { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { CameraConfig } from "@/utils/cameras";
+import { NETWORK_SOURCE_KINDS, NetworkSourceKind } from "@/utils/cameraSources";
+
+type SourceKind = "device" | NetworkSourceKind;
+
+type CameraDialogProps = {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Camera to edit; a new camera is added when missing
+  camera?: CameraConfig | null;
+  devices: MediaDeviceInfo[];
+  // Devices that already have a feed
+  usedDeviceIds: string[];
+  onSave: (values: Pick<CameraConfig, "deviceId" | "source" | "name" | "location">) => void;
+};
+
+const deviceName = (device: MediaDeviceInfo, index: number) => device.label || `Camera ${index + 1}`;
+
+const isStreamUrl = (value: string) => {
+  try {
+    return ["http:", "https:"].includes(new URL(value).protocol);
+  } catch {
+    return false;
+  }
+};
+
+// Add a camera feed from a device or a network stream, or rename and
+// relocate an existing one
+const CameraDialog: React.FC<CameraDialogProps> = ({
+  open,
+  onOpenChange,
+  camera,
+  devices,
+  usedDeviceIds,
+  onSave
+}) => {
+  const availableDevices = devices.filter(
+    device => device.deviceId === camera?.deviceId || !usedDeviceIds.includes(device.deviceId)
+  );
+  const [kind, setKind] = useState<SourceKind>("device");
+  const [deviceId, setDeviceId] = useState<string | undefined>(undefined);
+  const [url, setUrl] = useState("");
+  const [token, setToken] = useState("");
+  const [name, setName] = useState("");
+  const [location, setLocation] = useState("");
+
+  // Start from the camera being edited, or the first free device
+  useEffect(() => {
+    if (!open) return;
+    const firstFree = availableDevices[0];
+    setKind(camera?.source?.kind ?? "device");
+    setDeviceId(camera ? camera.deviceId : firstFree?.deviceId);
+    setUrl(camera?.source?.url ?? "");
+    setToken(camera?.source?.token ?? "");
+    setName(camera ? camera.name : firstFree ? deviceName(firstFree, devices.indexOf(firstFree)) : "");
+    setLocation(camera?.location ?? "");
+  }, [open, camera]);
+
+  const handleDeviceChange = (value: string) => {
+    const device = devices.find(d => d.deviceId === value);
+    // Follow the device's name unless one was typed in
+    const previous = devices.find(d => d.deviceId === deviceId);
+    if (device && (!name || (previous && name === deviceName(previous, devices.indexOf(previous))))) {
+      setName(deviceName(device, devices.indexOf(device)));
+    }
+    setDeviceId(value);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSave({
+      deviceId: kind === "device" ? deviceId : undefined,
+      source: kind === "device" ? undefined : { kind, url: url.trim(), token: token.trim() || undefined },
+      name: name.trim(),
+      location: location.trim()
+    });
+    onOpenChange(false);
+  };
+
+  const isEditing = !!camera;
+  const isNetwork = kind !== "device";
+  const noDevice = !isEditing && !isNetwork && availableDevices.length === 0;
+  const invalidUrl = isNetwork && !isStreamUrl(url.trim());
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>{isEditing ? "Edit Camera" : "Add Camera"}</DialogTitle>
+            <DialogDescription>
+              {isEditing
+                ? "The name and location are recorded on this camera's alerts."
+                : "Each camera gets its own feed and gesture detection."}
+            </DialogDescription>
+          </DialogHeader>
+
+          {!isEditing && (
+            <div className="space-y-2">
+              <Label>Source</Label>
+              <Select value={kind} onValueChange={(value) => setKind(value as SourceKind)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="device">Camera on this computer</SelectItem>
+                  {(Object.keys(NETWORK_SOURCE_KINDS) as NetworkSourceKind[]).map(value => (
+                    <SelectItem key={value} value={value}>
+                      {NETWORK_SOURCE_KINDS[value].label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          {!isEditing && !isNetwork && (
+            <div className="space-y-2">
+              <Label>Device</Label>
+              {noDevice ? (
+                <p className="text-sm text-muted-foreground">
+                  Every connected camera already has a feed.
+                </p>
+              ) : (
+                <Select value={deviceId} onValueChange={handleDeviceChange}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Choose a camera" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {availableDevices.map(device => (
+                      <SelectItem key={device.deviceId} value={device.deviceId}>
+                        {deviceName(device, devices.indexOf(device))}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+            </div>
+          )}
+
+          {kind !== "device" && (
+            <div className="space-y-2">
+              <Label htmlFor="camera-url">Stream URL</Label>
+              <Input
+                id="camera-url"
+                value={url}
+                onChange={(e) => setUrl(e.target.value)}
+                placeholder={`e.g. ${NETWORK_SOURCE_KINDS[kind].example}`}
+              />
+              <p className="text-xs text-muted-foreground">
+                The camera or media server must allow cross-origin requests from this site.
+              </p>
+            </div>
+          )}
+
+          {kind === "whep" && (
+            <div className="space-y-2">
+              <Label htmlFor="camera-token">Access Token</Label>
+              <Input
+                id="camera-token"
+                type="password"
+                value={token}
+                onChange={(e) => setToken(e.target.value)}
+                placeholder="Optional bearer token"
+              />
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="camera-name">Name</Label>
+            <Input
+              id="camera-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g. Lobby camera"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="camera-location">Location</Label>
+            <Input
+              id="camera-location"
+              value={location}
+              onChange={(e) => setLocation(e.target.value)}
+              placeholder="e.g. Front desk, ground floor"
+            />
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={noDevice || invalidUrl}>
+              {isEditing ? "Save" : "Add Camera"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CameraDialog;
@@ -0,0 +1,117 @@
+import React from "react";
+import { Pencil, X } from "lucide-react";
+import {
+  ResizableHandle,
+  ResizablePanel,
+  ResizablePanelGroup
+} from "@/components/ui/resizable";
+import { Button } from "@/components/ui/button";
+import WebcamFeed from "@/components/WebcamFeed";
+import { GestureDetector } from "@/utils/gestureUtils";
+import { CameraConfig, getCameraName } from "@/utils/cameras";
+import { CameraHealthIssue } from "@/utils/cameraHealth";
+import { CameraZone } from "@/utils/zones";
+
+type CameraGridProps = {
+  cameras: CameraConfig[];
+  detectors: Record<string, GestureDetector>;
+  // Feeds per row; rows are stacked below each other
+  columns?: number;
+  // Height of one row in pixels
+  rowHeight?: number;
+  onVideoRef: (cameraId: string, ref: HTMLVideoElement | null) => void;
+  onDeviceInfo: (cameraId: string, deviceId: string | undefined, label: string) => void;
+  onHealthChange: (cameraId: string, issue: CameraHealthIssue | null) => void;
+  onZonesChange: (cameraId: string, zones: CameraZone[]) => void;
+  onEditCamera: (cameraId: string) => void;
+  onRemoveCamera: (cameraId: string) => void;
+};
+
+// The camera feeds in rows whose heights and columns can be dragged to size
+const CameraGrid: React.FC<CameraGridProps> = ({
+  cameras,
+  detectors,
+  columns = 2,
+  rowHeight = 420,
+  onVideoRef,
+  onDeviceInfo,
+  onHealthChange,
+  onZonesChange,
+  onEditCamera,
+  onRemoveCamera
+}) => {
+  const rows: CameraConfig[][] = [];
+  for (let i = 0; i < cameras.length; i += columns) {
+    rows.push(cameras.slice(i, i + columns));
+  }
+
+  const renderFeed = (camera: CameraConfig) => {
+    const index = cameras.indexOf(camera);
+    return (
+      <WebcamFeed
+        feedName={getCameraName(camera, index)}
+        deviceId={camera.deviceId}
+        source={camera.source}
+        detector={detectors[camera.id] ?? null}
+        onVideoRef={(ref) => onVideoRef(camera.id, ref)}
+        onDeviceInfo={(deviceId, label) => onDeviceInfo(camera.id, deviceId, label)}
+        onHealthChange={(issue) => onHealthChange(camera.id, issue)}
+        zones={camera.zones}
+        onZonesChange={(zones) => onZonesChange(camera.id, zones)}
+        actions={
+          <>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-7 w-7"
+              onClick={() => onEditCamera(camera.id)}
+              title="Edit camera"
+            >
+              <Pencil className="h-3.5 w-3.5" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-7 w-7"
+              onClick={() => onRemoveCamera(camera.id)}
+              title="Remove camera"
+            >
+              <X className="h-3.5 w-3.5" />
+            </Button>
+          </>
+        }
+      />
+    );
+  };
+
+  // Panel layouts are remembered per grid shape
+  const layoutId = `camera-grid-${columns}-${cameras.length}`;
+
+  return (
+    <ResizablePanelGroup
+      direction="vertical"
+      autoSaveId={layoutId}
+      style={{ height: rows.length * rowHeight }}
+    >
+      {rows.map((row, rowIndex) => (
+        <React.Fragment key={row.map(camera => camera.id).join()}>
+          {rowIndex > 0 && <ResizableHandle withHandle className="my-1" />}
+          <ResizablePanel id={`row-${rowIndex}`} order={rowIndex} minSize={15}>
+            <ResizablePanelGroup direction="horizontal" autoSaveId={`${layoutId}-row-${rowIndex}`}>
+              {row.map((camera, columnIndex) => (
+                <React.Fragment key={camera.id}>
+                  {columnIndex > 0 && <ResizableHandle withHandle className="mx-1" />}
+                  <ResizablePanel id={camera.id} order={columnIndex} minSize={20}>
+                    {renderFeed(camera)}
+                  </ResizablePanel>
+                </React.Fragment>
+              ))}
+            </ResizablePanelGroup>
+          </ResizablePanel>
+        </React.Fragment>
+      ))}
+    </ResizablePanelGroup>
+  );
+};
+
+export default CameraGrid;
@@ -0,0 +1,120 @@
+import React, { useEffect, useState } from "react";
+import { Loader2, Package } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { useAuth } from "@/contexts/AuthContext";
+import { useToast } from "@/hooks/use-toast";
+import { GestureAlert } from "@/utils/gestureUtils";
+import {
+  createEvidenceBundle,
+  downloadEvidenceBundle,
+  getSigningKeyFingerprint
+} from "@/utils/evidenceBundle";
+
+type EvidenceBundleDialogProps = {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  alerts: GestureAlert[];
+};
+
+// Export alerts with their images, clips and custody log as a ZIP for
+// investigators, optionally signed with this workstation's key
+const EvidenceBundleDialog: React.FC<EvidenceBundleDialogProps> = ({ open, onOpenChange, alerts }) => {
+  const { officer } = useAuth();
+  const { toast } = useToast();
+  const [sign, setSign] = useState(true);
+  const [fingerprint, setFingerprint] = useState<string | null>(null);
+  const [isExporting, setIsExporting] = useState(false);
+
+  useEffect(() => {
+    if (!open || !sign || fingerprint) return;
+    getSigningKeyFingerprint()
+      .then(setFingerprint)
+      .catch((error) => console.error("Error reading the signing key:", error));
+  }, [open, sign, fingerprint]);
+
+  const images = alerts.filter(alert => alert.imageData).length;
+  const clips = alerts.filter(alert => alert.clip).length;
+  const withOriginals = alerts.filter(alert => alert.originalImage || alert.originalClip).length;
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      const bundle = await createEvidenceBundle(alerts, { sign, actor: officer });
+      downloadEvidenceBundle(bundle, alerts.length);
+
+      toast({
+        title: "Evidence Bundle Exported",
+        description: `${alerts.length} alert${alerts.length !== 1 ? 's' : ''} packaged${sign ? " and signed" : ""}.`,
+      });
+      onOpenChange(false);
+    } catch (error) {
+      toast({
+        title: "Export Failed",
+        description: error instanceof Error ? error.message : "The evidence bundle could not be created.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(value) => !isExporting && onOpenChange(value)}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Export Evidence Bundle</DialogTitle>
+          <DialogDescription>
+            A ZIP of {alerts.length} alert{alerts.length !== 1 ? "s" : ""} with {images} image{images !== 1 ? "s" : ""}{" "}
+            and {clips} clip{clips !== 1 ? "s" : ""}, a manifest of their metadata and hashes, the custody log and a
+            summary page to open in a browser.
+          </DialogDescription>
+        </DialogHeader>
+
+        {withOriginals > 0 && (
+          <p className="text-sm text-muted-foreground">
+            Images and clips are exported redacted. Unredacted originals stay encrypted on this workstation.
+          </p>
+        )}
+
+        <div className="flex items-start justify-between gap-4">
+          <div className="space-y-1">
+            <Label htmlFor="bundle-sign">Sign bundle</Label>
+            <p className="text-xs text-muted-foreground">
+              Signs the manifest with this workstation's key, so any change to the bundle can be detected.
+            </p>
+            {sign && fingerprint && (
+              <p className="text-xs font-mono text-muted-foreground break-all">Key {fingerprint}</p>
+            )}
+          </div>
+          <Switch id="bundle-sign" checked={sign} onCheckedChange={setSign} disabled={isExporting} />
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isExporting}>
+            Cancel
+          </Button>
+          <Button onClick={handleExport} disabled={isExporting || alerts.length === 0}>
+            {isExporting ? (
+              <Loader2 className="mr-1 h-4 w-4 animate-spin" />
+            ) : (
+              <Package className="mr-1 h-4 w-4" />
+            )}
+            Export
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default EvidenceBundleDialog;
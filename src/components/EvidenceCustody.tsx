@@ -0,0 +1,189 @@
+import React, { useEffect, useState } from "react";
+import { Loader2, ShieldAlert, ShieldCheck } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { useAuth } from "@/contexts/AuthContext";
+import { useToast } from "@/hooks/use-toast";
+import { GestureAlert, formatDateTime } from "@/utils/gestureUtils";
+import {
+  ARTEFACT_STATUSES,
+  ArtefactCheck,
+  CUSTODY_ACTIONS,
+  ChainCheck,
+  CustodyEntry,
+  custodyLog,
+  verifyArtefacts
+} from "@/utils/custody";
+
+type EvidenceCustodyProps = {
+  alert: GestureAlert;
+};
+
+const shortHash = (hash: string) => `${hash.slice(0, 12)}…`;
+
+const formatSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+};
+
+// How an alert's evidence was captured, its file digests and custody log,
+// with a check that recomputes every digest and the log's hash chain
+const EvidenceCustody: React.FC<EvidenceCustodyProps> = ({ alert }) => {
+  const { officer } = useAuth();
+  const { toast } = useToast();
+  const [entries, setEntries] = useState<CustodyEntry[]>([]);
+  const [checks, setChecks] = useState<ArtefactCheck[] | null>(null);
+  const [chain, setChain] = useState<ChainCheck | null>(null);
+  const [isVerifying, setIsVerifying] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    const load = () => {
+      custodyLog.list(alert.id)
+        .then((list) => {
+          if (!cancelled) setEntries(list);
+        })
+        .catch((error) => console.error("Error reading the custody log:", error));
+    };
+
+    setChecks(null);
+    setChain(null);
+    load();
+    const unsubscribe = custodyLog.subscribe((entry) => {
+      if (entry.alertId === alert.id) load();
+    });
+
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [alert.id]);
+
+  const handleVerify = async () => {
+    setIsVerifying(true);
+    try {
+      const [artefactChecks, chainCheck] = await Promise.all([verifyArtefacts(alert), custodyLog.verifyChain()]);
+      setChecks(artefactChecks);
+      setChain(chainCheck);
+
+      const failed = artefactChecks.filter(check => check.status === 'mismatch' || check.status === 'missing');
+      const summary = [
+        failed.length === 0
+          ? `All ${artefactChecks.length} files match`
+          : `${failed.length} of ${artefactChecks.length} files altered or missing`,
+        chainCheck.valid ? "log intact" : `log broken at entry ${chainCheck.brokenAt}`
+      ].join(", ");
+      custodyLog.record(alert.id, 'verified', officer, summary);
+
+      if (failed.length > 0 || !chainCheck.valid) {
+        toast({
+          title: "Evidence Verification Failed",
+          description: `${summary}.`,
+          variant: "destructive",
+        });
+      }
+    } catch (error) {
+      toast({
+        title: "Verification Failed",
+        description: error instanceof Error ? error.message : "The evidence could not be checked.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsVerifying(false);
+    }
+  };
+
+  const artefactNames = Array.from(new Set([
+    ...(alert.artefacts ?? []).map(digest => digest.name),
+    ...(checks ?? []).map(check => check.name)
+  ]));
+  const { capture } = alert;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <h3 className="text-sm font-medium">Chain of custody</h3>
+        <Button variant="outline" size="sm" onClick={handleVerify} disabled={isVerifying}>
+          {isVerifying ? (
+            <Loader2 className="mr-1 h-4 w-4 animate-spin" />
+          ) : (
+            <ShieldCheck className="mr-1 h-4 w-4" />
+          )}
+          Verify
+        </Button>
+      </div>
+
+      {capture ? (
+        <div className="space-y-1 text-xs text-muted-foreground">
+          <p>
+            Captured {formatDateTime(capture.capturedAt)}
+            {capture.officer && ` while ${capture.officer.name} (${capture.officer.badgeNumber}) was signed in`}
+          </p>
+          {capture.device && <p className="break-all">Device: {capture.device}</p>}
+          <p>Detector: {capture.detectorVersion}</p>
+          <p className="break-all">Session: {capture.sessionId}</p>
+        </div>
+      ) : (
+        <p className="text-xs text-muted-foreground">No capture record; the alert was raised before evidence was hashed.</p>
+      )}
+
+      {artefactNames.length > 0 && (
+        <ul className="space-y-1.5">
+          {artefactNames.map(name => {
+            const digest = alert.artefacts?.find(artefact => artefact.name === name);
+            const check = checks?.find(candidate => candidate.name === name);
+            return (
+              <li key={name} className="flex items-center justify-between gap-2 text-xs">
+                <div className="min-w-0">
+                  <p className="font-medium truncate">{name}</p>
+                  <p className="font-mono text-muted-foreground" title={digest?.sha256 ?? check?.actual ?? undefined}>
+                    {digest ? `${shortHash(digest.sha256)} · ${formatSize(digest.size)}` : "Not hashed at capture"}
+                  </p>
+                </div>
+                {check && (
+                  <Badge variant="outline" className={ARTEFACT_STATUSES[check.status].badgeClass}>
+                    {ARTEFACT_STATUSES[check.status].label}
+                  </Badge>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {chain && (
+        <p className={`flex items-center gap-1 text-xs ${chain.valid ? "text-green-600" : "text-red-500"}`}>
+          {chain.valid ? <ShieldCheck className="h-3.5 w-3.5" /> : <ShieldAlert className="h-3.5 w-3.5" />}
+          {chain.valid
+            ? `Custody log intact (${chain.entries} entries on this workstation).`
+            : `Custody log altered at entry ${chain.brokenAt}.`}
+        </p>
+      )}
+
+      {entries.length === 0 ? (
+        <p className="text-xs text-muted-foreground">Nothing has been logged for this alert on this workstation.</p>
+      ) : (
+        <ol className="space-y-2">
+          {entries.map(entry => (
+            <li key={entry.sequence} className="border-l-2 pl-3 text-xs">
+              <p className="text-sm">
+                {CUSTODY_ACTIONS[entry.action].label}
+                {entry.details && <span className="text-muted-foreground"> · {entry.details}</span>}
+              </p>
+              <p className="text-muted-foreground">
+                {entry.actor ? `${entry.actor.name} (${entry.actor.badgeNumber})` : "No officer signed in"},{" "}
+                {formatDateTime(entry.at)}
+              </p>
+              <p className="font-mono text-muted-foreground" title={entry.hash}>
+                #{entry.sequence} {shortHash(entry.hash)}
+              </p>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+};
+
+export default EvidenceCustody;
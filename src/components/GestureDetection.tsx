@@ -1,7 +1,7 @@
 
 import React, { useState, useEffect, useRef } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { AlertTriangle, ChevronUp, ChevronDown, Info, Download, Camera, RefreshCw, Loader2 } from "lucide-react";
+import { AlertTriangle, ChevronUp, ChevronDown, Info, Download, Camera, RefreshCw, Loader2, GraduationCap } from "lucide-react";
 import { Progress } from "@/components/ui/progress";
 import { Button } from "@/components/ui/button";
 import { 
@@ -16,39 +16,81 @@ import {
   CollapsibleTrigger,
 } from "@/components/ui/collapsible";
 import { useToast } from "@/hooks/use-toast";
+import TeachGesture from "@/components/TeachGesture";
+import { useClipRecorder } from "@/hooks/use-clip-recorder";
+import { useSettings } from "@/contexts/SettingsContext";
 import { 
-  detectGesture, 
-  captureImage, 
+  captureFrame,
   downloadImage,
-  resetDetectionCooldown,
-  simulateModelTraining,
-  setDetectionSensitivity,
+  DetectionSensitivity,
+  GestureDetector,
   GestureType, 
   GestureAlert,
+  HandAssetError,
+  HandGestureResult,
+  MotionProgress,
   getGestureColor,
-  getGestureDisplayName
+  getGestureDisplayName,
+  isEmergencyGesture
 } from "@/utils/gestureUtils";
+import { getMediaTimestamp } from "@/utils/mediaPlayback";
+import { CameraHealthIssue } from "@/utils/cameraHealth";
+import { BoundingBox } from "@/utils/handTracking";
+import { ZonePoint } from "@/utils/zones";
+import {
+  CapturedEvidence,
+  getSignallingHands,
+  isRedacting,
+  prepareFaceDetector,
+  redactCapture
+} from "@/utils/privacy";
+import { sealClip } from "@/utils/evidenceVault";
+import { custodyLog, digestArtefacts, getSessionId, toCustodyActor } from "@/utils/custody";
+import { useAuth } from "@/contexts/AuthContext";
 
 type GestureDetectionProps = {
   videoRef: HTMLVideoElement | null;
+  detector: GestureDetector | null;
+  // The camera being watched, recorded on its alerts
+  cameraId?: string;
+  cameraName?: string;
+  location?: string;
+  // The device or stream the camera plays, recorded with its evidence
+  device?: string;
+  // What is wrong with the camera's picture; raises a tamper alert
+  healthIssue?: CameraHealthIssue | null;
+  // Blacked out of the camera's images and clips, see privacy.ts
+  privacyMasks?: ZonePoint[][];
   onGestureDetected?: (alert: GestureAlert) => void;
+  // Called when an alert's video clip has finished recording
+  onAlertUpdated?: (alertId: string, changes: Partial<GestureAlert>) => void;
 };
 
 const GestureDetection: React.FC<GestureDetectionProps> = ({ 
   videoRef,
-  onGestureDetected
+  detector,
+  cameraId,
+  cameraName = "Camera",
+  location = cameraName,
+  device,
+  healthIssue = null,
+  privacyMasks = [],
+  onGestureDetected,
+  onAlertUpdated
 }) => {
   const [detectionActive, setDetectionActive] = useState(true);
   const [currentGesture, setCurrentGesture] = useState<GestureType>("none");
   const [confidence, setConfidence] = useState(0);
+  const [sequenceProgress, setSequenceProgress] = useState<MotionProgress | null>(null);
+  const [handResults, setHandResults] = useState<HandGestureResult[]>([]);
   const [isOpen, setIsOpen] = useState(true);
   const [lastCapturedImage, setLastCapturedImage] = useState<string | null>(null);
   const [cooldownActive, setCooldownActive] = useState(false);
   const [cooldownProgress, setCooldownProgress] = useState(0);
   const [isModelLoading, setIsModelLoading] = useState(false);
   const [trainingProgress, setTrainingProgress] = useState(0);
-  const [sensitivity, setSensitivity] = useState<'low' | 'medium' | 'high'>('high');
   const [consecutiveFrames, setConsecutiveFrames] = useState(0);
+  const [teachMode, setTeachMode] = useState(false);
   const detectionIntervalRef = useRef<number | null>(null);
   const cooldownTimerRef = useRef<number | null>(null);
   const { toast } = useToast();
@@ -56,10 +98,46 @@ const GestureDetection: React.FC<GestureDetectionProps> = ({
   const lastAlertTimeRef = useRef<number>(0);
   const captureIntervalRef = useRef<number | null>(null);
   const [handDetectionError, setHandDetectionError] = useState<string | null>(null);
+  const { settings, updateSettings } = useSettings();
+  const { officer } = useAuth();
+  const sensitivity = settings.detection.sensitivity;
+  const redaction = { blurFaces: settings.privacy.blurFaces, masks: privacyMasks };
+  // Hands making an emergency gesture in the latest frame
+  const subjectsRef = useRef<BoundingBox[]>([]);
+  const clipRecorder = useClipRecorder(videoRef, {
+    enabled: settings.evidence.recordClips,
+    preEventMs: settings.evidence.preEventSeconds * 1000,
+    postEventMs: settings.evidence.postEventSeconds * 1000,
+    redaction,
+    getSubjects: () => subjectsRef.current
+  });
+  // The unredacted footage, sealed in the evidence vault with each clip
+  const originalClipRecorder = useClipRecorder(videoRef, {
+    enabled: settings.evidence.recordClips && settings.privacy.keepOriginals && isRedacting(redaction),
+    preEventMs: settings.evidence.preEventSeconds * 1000,
+    postEventMs: settings.evidence.postEventSeconds * 1000
+  });
+  // The detection interval outlives renders, so it reads these through refs
+  const clipRecorderRef = useRef(clipRecorder);
+  clipRecorderRef.current = clipRecorder;
+  const originalClipRecorderRef = useRef(originalClipRecorder);
+  originalClipRecorderRef.current = originalClipRecorder;
+  const redactionRef = useRef(redaction);
+  redactionRef.current = redaction;
+  const onAlertUpdatedRef = useRef(onAlertUpdated);
+  onAlertUpdatedRef.current = onAlertUpdated;
+  const settingsRef = useRef(settings);
+  settingsRef.current = settings;
+  const cameraRef = useRef({ cameraId, cameraName, location });
+  cameraRef.current = { cameraId, cameraName, location };
+  const custodyRef = useRef({ device, officer });
+  custodyRef.current = { device, officer };
+  // Alert the last captured image belongs to, for the custody log
+  const lastCapturedAlertIdRef = useRef<string | null>(null);
 
   // Initialize detection on component mount
   useEffect(() => {
-    if (videoRef) {
+    if (videoRef && detector) {
       trainModel();
     }
     
@@ -75,18 +153,48 @@ const GestureDetection: React.FC<GestureDetectionProps> = ({
         clearInterval(captureIntervalRef.current);
       }
     };
-  }, [videoRef]);
+  }, [videoRef, detector]);
+
+  // Apply the configured sensitivity to every new detector
+  useEffect(() => {
+    detector?.setSensitivity(sensitivity);
+  }, [detector, sensitivity]);
+
+  // Load the face detector before the first capture needs it
+  useEffect(() => {
+    if (settings.privacy.blurFaces !== "off") {
+      prepareFaceDetector().catch((error) => {
+        console.error("Error loading the face detector:", error);
+      });
+    }
+  }, [settings.privacy.blurFaces]);
+
+  // A feed whose picture has gone bad is an incident in itself
+  useEffect(() => {
+    if (healthIssue) {
+      raiseTamperAlert(healthIssue);
+    }
+  }, [healthIssue]);
+
+  // Pick up a changed detection interval straight away
+  useEffect(() => {
+    if (detectionIntervalRef.current) {
+      startDetection();
+    }
+  }, [settings.detection.intervalMs]);
 
   // Train the model and set up detection
   const trainModel = async () => {
+    if (!detector) return;
+    
     setIsModelLoading(true);
     setTrainingProgress(0);
     setConsecutiveFrames(0);
     setHandDetectionError(null);
     
     try {
-      // Simulate model training with progress updates
-      const success = await simulateModelTraining((progress) => {
+      // Load the model and train custom gestures with progress updates
+      const success = await detector.train((progress) => {
         setTrainingProgress(progress);
       });
       
@@ -108,7 +216,9 @@ const GestureDetection: React.FC<GestureDetectionProps> = ({
       setHandDetectionError(error instanceof Error ? error.message : "Unknown error");
       toast({
         title: "Model Setup Failed",
-        description: "Using basic detection instead. Performance may be limited.",
+        description: error instanceof HandAssetError
+          ? error.message
+          : "Using basic detection instead. Performance may be limited.",
         variant: "destructive",
       });
     } finally {
@@ -124,70 +234,93 @@ const GestureDetection: React.FC<GestureDetectionProps> = ({
       clearInterval(detectionIntervalRef.current);
     }
     
-    // Very fast detection interval - 25ms (40fps)
-    detectionIntervalRef.current = window.setInterval(handleDetection, 25);
+    detectionIntervalRef.current = window.setInterval(handleDetection, settingsRef.current.detection.intervalMs);
     setDetectionActive(true);
   };
 
   // Handle each detection frame
   const handleDetection = async () => {
-    if (!videoRef || !detectionActive) return;
+    if (!videoRef || !detector || !detectionActive) return;
     
     try {
       // Get current gesture detection
-      const result = await detectGesture(videoRef);
+      const result = await detector.detect(videoRef);
       setCurrentGesture(result.gesture);
       setConfidence(result.confidence);
+      setSequenceProgress(result.sequence ?? null);
+      setHandResults(result.hands ?? []);
+      subjectsRef.current = getSignallingHands(result);
       
-      // Victory gesture detected
-      if (result.gesture === "victory" && result.confidence > 0.5) {
-        // Only trigger if it's a new gesture or sufficient time has passed
-        const currentTime = Date.now();
+      const { alerting, evidence } = settingsRef.current;
+      
+      // Emergency gesture detected
+      if (isEmergencyGesture(result.gesture) && result.confidence > alerting.confidenceThreshold) {
+        // Only trigger if it's a new gesture or sufficient time has passed.
+        // Recordings are timed by the recording, so seeking back re-alerts.
+        const media = getMediaTimestamp(videoRef);
+        const detectedAt = Date.now();
+        const currentTime = media ? media.timestamp.getTime() : detectedAt;
         const newGesture = result.gesture !== lastGestureRef.current;
-        const timeElapsed = currentTime - lastAlertTimeRef.current > 1000;
+        const timeElapsed = Math.abs(currentTime - lastAlertTimeRef.current) > alerting.realertWindowMs;
         
         if (newGesture || timeElapsed) {
+          // Grab the frame now; redacting it takes a moment
+          const frame = captureFrame(videoRef);
+          
+          // Start cooldown to prevent spam
+          detector.startCooldown();
+          setCooldownActive(true);
+          startCooldownTimer();
+          
+          // Update last detection references
+          lastGestureRef.current = result.gesture;
+          lastAlertTimeRef.current = currentTime;
+          
           // Capture image for the alert
-          const imageData = captureImage(videoRef);
+          const captured = await redactEvidence(frame, evidence.imageQuality, subjectsRef.current);
+          const imageData = captured?.imageData ?? null;
           setLastCapturedImage(imageData);
           
           // Create a new alert
-          const alert: GestureAlert = {
+          const alert = await recordCapture({
             id: `alert-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`,
-            timestamp: new Date(),
+            timestamp: media?.timestamp ?? new Date(),
             gestureType: result.gesture,
             confidence: result.confidence,
             imageData,
-            location: "Primary Camera",
-            processed: false
-          };
+            redaction: captured?.redaction,
+            originalImage: captured?.original,
+            ...cameraRef.current,
+            zone: result.zone ?? undefined,
+            mediaName: media?.mediaName,
+            mediaTime: media?.mediaTime,
+            status: 'new',
+            transitions: [],
+            clipStatus: clipRecorderRef.current ? 'recording' : undefined
+          });
+          lastCapturedAlertIdRef.current = alert.id;
           
           // Notify parent component
           if (onGestureDetected) {
             onGestureDetected(alert);
           }
+
+          // Attach the footage around the alert once it has been recorded
+          attachClips(alert, detectedAt);
           
           // Auto-save the image
           if (imageData) {
-            const success = downloadImage(imageData, result.gesture);
+            const success = alerting.autoDownloadImages && downloadEvidence(alert.id, imageData, result.gesture);
             
             toast({
               title: "🚨 EMERGENCY GESTURE DETECTED",
-              description: `Victory sign detected with ${Math.round(result.confidence * 100)}% confidence. ${success ? 'Evidence saved automatically.' : ''}`,
+              description: `${getGestureDisplayName(result.gesture)} detected with ${Math.round(result.confidence * 100)}% confidence. ${success ? 'Evidence saved automatically.' : ''}`,
               variant: "destructive",
             });
           }
-          
-          // Start cooldown to prevent spam
-          setCooldownActive(true);
-          startCooldownTimer();
-          
-          // Update last detection references
-          lastGestureRef.current = result.gesture;
-          lastAlertTimeRef.current = currentTime;
         }
-      } else if (result.gesture !== "victory") {
-        // Update last gesture reference when not victory
+      } else if (!isEmergencyGesture(result.gesture)) {
+        // Update last gesture reference when not an emergency gesture
         lastGestureRef.current = result.gesture;
       }
     } catch (error) {
@@ -199,10 +332,119 @@ const GestureDetection: React.FC<GestureDetectionProps> = ({
     }
   };
 
+  // Hide faces and privacy masks in a captured frame before it can leave
+  // the app, sealing the original when it is kept
+  const redactEvidence = (
+    frame: HTMLCanvasElement | null,
+    quality: number,
+    subjects: BoundingBox[] = []
+  ): Promise<CapturedEvidence | null> => {
+    if (!frame) return Promise.resolve(null);
+
+    return redactCapture(frame, {
+      ...redactionRef.current,
+      quality,
+      keepOriginal: settingsRef.current.privacy.keepOriginals,
+      subjects
+    }).catch((error) => {
+      console.error("Error redacting captured image:", error);
+      return null;
+    });
+  };
+
+  // Record who captured an alert's evidence, where and with which detector,
+  // hash its files and log the capture
+  const recordCapture = async (alert: GestureAlert, details?: string): Promise<GestureAlert> => {
+    const { device, officer } = custodyRef.current;
+    const capture = alert.capture ?? {
+      capturedAt: new Date(),
+      cameraId: alert.cameraId,
+      cameraName: alert.cameraName,
+      device,
+      officer: toCustodyActor(officer),
+      sessionId: getSessionId(),
+      detectorVersion: detector?.getVersion() ?? "Unknown",
+      userAgent: navigator.userAgent
+    };
+
+    const artefacts = await digestArtefacts(alert).catch((error) => {
+      console.error("Error hashing alert evidence:", error);
+      return undefined;
+    });
+
+    // The log's hash chain keeps the digests safe from edits to the alert
+    custodyLog.record(alert.id, 'captured', officer, details, artefacts);
+    return { ...alert, capture, artefacts: artefacts ?? alert.artefacts };
+  };
+
+  // Download an alert's image and log it
+  const downloadEvidence = (alertId: string | null, imageData: string, gestureName: string): boolean => {
+    const success = downloadImage(imageData, gestureName);
+    if (success && alertId) {
+      custodyLog.record(alertId, 'downloaded', custodyRef.current.officer, "image.jpg");
+    }
+    return success;
+  };
+
+  // Record the footage around an alert and attach it, with the sealed
+  // original and the digests of both, once it is ready
+  const attachClips = (alert: GestureAlert, eventTime?: number) => {
+    const clip = clipRecorderRef.current?.captureClip(eventTime);
+    if (!clip) return;
+    const originalClip = originalClipRecorderRef.current?.captureClip(eventTime).then(sealClip);
+
+    Promise.allSettled([clip, originalClip]).then(async ([clipResult, originalResult]) => {
+      if (originalResult.status === 'rejected') {
+        console.error("Error sealing the original clip:", originalResult.reason);
+      }
+      const sealed = originalResult.status === 'fulfilled' ? originalResult.value : undefined;
+
+      if (clipResult.status === 'fulfilled') {
+        const { artefacts } = await recordCapture(
+          { ...alert, clip: clipResult.value, originalClip: sealed },
+          `Video clip, ${clipResult.value.segments.length} parts`
+        );
+        onAlertUpdatedRef.current?.(alert.id, { clip: clipResult.value, clipStatus: 'ready', originalClip: sealed, artefacts });
+      } else {
+        console.error("Error capturing alert clip:", clipResult.reason);
+        onAlertUpdatedRef.current?.(alert.id, { clipStatus: 'failed', originalClip: sealed });
+      }
+    });
+  };
+
+  // Raise a camera tamper alert with whatever the camera still shows
+  const raiseTamperAlert = async (issue: CameraHealthIssue) => {
+    const frame = videoRef ? captureFrame(videoRef) : null;
+    const detectedAt = Date.now();
+    const captured = await redactEvidence(frame, settings.evidence.imageQuality);
+    const alert = await recordCapture({
+      id: `tamper-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`,
+      timestamp: new Date(detectedAt),
+      gestureType: "camera_tamper",
+      confidence: 1.0,
+      imageData: captured?.imageData ?? null,
+      redaction: captured?.redaction,
+      originalImage: captured?.original,
+      cameraId,
+      cameraName,
+      location,
+      healthIssue: issue,
+      status: 'new',
+      transitions: [],
+      clipStatus: clipRecorderRef.current ? 'recording' : undefined
+    });
+
+    if (onGestureDetected) {
+      onGestureDetected(alert);
+    }
+
+    attachClips(alert, detectedAt);
+  };
+
   // Handle the detection cooldown period
   const startCooldownTimer = () => {
-    const cooldownDuration = 500; // Reduced cooldown: 500ms
-    const updateInterval = 25; // Faster updates
+    const cooldownDuration = settingsRef.current.alerting.cooldownMs;
+    const updateInterval = 25;
     let elapsed = 0;
     
     // Clear existing timer
@@ -213,7 +455,7 @@ const GestureDetection: React.FC<GestureDetectionProps> = ({
     // Start new timer
     cooldownTimerRef.current = window.setInterval(() => {
       elapsed += updateInterval;
-      const progress = (elapsed / cooldownDuration) * 100;
+      const progress = Math.min(100, (elapsed / cooldownDuration) * 100);
       setCooldownProgress(progress);
       
       if (elapsed >= cooldownDuration) {
@@ -223,7 +465,7 @@ const GestureDetection: React.FC<GestureDetectionProps> = ({
         setConsecutiveFrames(0);
         clearInterval(cooldownTimerRef.current!);
         cooldownTimerRef.current = null;
-        resetDetectionCooldown(); // Reset detection state
+        detector?.resetCooldown(); // Reset detection state
       }
     }, updateInterval);
   };
@@ -240,7 +482,7 @@ const GestureDetection: React.FC<GestureDetectionProps> = ({
       cooldownTimerRef.current = null;
     }
     
-    resetDetectionCooldown();
+    detector?.resetCooldown();
     lastGestureRef.current = "none";
     lastAlertTimeRef.current = 0;
     
@@ -278,7 +520,7 @@ const GestureDetection: React.FC<GestureDetectionProps> = ({
   };
 
   // Handle manual image capture
-  const handleManualCapture = () => {
+  const handleManualCapture = async () => {
     if (!videoRef) {
       toast({
         title: "Capture Failed",
@@ -288,20 +530,30 @@ const GestureDetection: React.FC<GestureDetectionProps> = ({
       return;
     }
     
-    const imageData = captureImage(videoRef);
+    const media = getMediaTimestamp(videoRef);
+    const captured = await redactEvidence(captureFrame(videoRef), settings.evidence.imageQuality);
+    const imageData = captured?.imageData ?? null;
     setLastCapturedImage(imageData);
     
-    if (imageData) {
+    if (captured && imageData) {
       // Create manual alert
-      const alert: GestureAlert = {
+      const alert = await recordCapture({
         id: `manual-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`,
-        timestamp: new Date(),
+        timestamp: media?.timestamp ?? new Date(),
         gestureType: "manual",
         confidence: 1.0,
         imageData,
-        location: "Primary Camera",
-        processed: false
-      };
+        redaction: captured.redaction,
+        originalImage: captured.original,
+        cameraId,
+        cameraName,
+        location,
+        mediaName: media?.mediaName,
+        mediaTime: media?.mediaTime,
+        status: 'new',
+        transitions: []
+      });
+      lastCapturedAlertIdRef.current = alert.id;
       
       // Notify parent component
       if (onGestureDetected) {
@@ -309,7 +561,7 @@ const GestureDetection: React.FC<GestureDetectionProps> = ({
       }
       
       // Download the image
-      const success = downloadImage(imageData, "manual");
+      const success = downloadEvidence(alert.id, imageData, "manual");
       
       toast({
         title: "Manual Capture",
@@ -338,7 +590,7 @@ const GestureDetection: React.FC<GestureDetectionProps> = ({
       return;
     }
     
-    const success = downloadImage(lastCapturedImage, currentGesture);
+    const success = downloadEvidence(lastCapturedAlertIdRef.current, lastCapturedImage, currentGesture);
     
     toast({
       title: success ? "Image Downloaded" : "Download Failed",
@@ -350,9 +602,8 @@ const GestureDetection: React.FC<GestureDetectionProps> = ({
   };
 
   // Change detection sensitivity
-  const changeSensitivity = (level: 'low' | 'medium' | 'high') => {
-    setSensitivity(level);
-    setDetectionSensitivity(level);
+  const changeSensitivity = (level: DetectionSensitivity) => {
+    updateSettings({ detection: { sensitivity: level } });
     setConsecutiveFrames(0);
     resetCooldown(); // Reset when changing sensitivity
     
@@ -392,6 +643,10 @@ const GestureDetection: React.FC<GestureDetectionProps> = ({
                 <p className="text-xs">
                   Hold up index and middle finger in a V shape to trigger emergency alert.
                   <br />
+                  The Signal for Help (palm, thumb tucked, fingers folded) is also recognized.
+                  <br />
+                  Both palms raised or crossed wrists raise an alert too, for every person in view.
+                  <br />
                   Evidence is automatically captured and saved.
                 </p>
               </TooltipContent>
@@ -485,10 +740,34 @@ const GestureDetection: React.FC<GestureDetectionProps> = ({
                         />
                         <div className="flex justify-between text-xs text-muted-foreground mt-1">
                           <span>Confidence: {(confidence * 100).toFixed(1)}%</span>
-                          {currentGesture === "victory" && (
+                          {isEmergencyGesture(currentGesture) && (
                             <span className="text-red-500 font-medium animate-pulse">ACTIVE!</span>
                           )}
                         </div>
+                        {sequenceProgress && (
+                          <div className="flex justify-between text-xs mt-1">
+                            <span className={getGestureColor(sequenceProgress.gestureId)}>
+                              {getGestureDisplayName(sequenceProgress.gestureId)}
+                            </span>
+                            <span className="text-muted-foreground">
+                              Step {sequenceProgress.step} of {sequenceProgress.totalSteps}: {sequenceProgress.stateLabel}
+                            </span>
+                          </div>
+                        )}
+                        {handResults.length > 1 && (
+                          <div className="mt-1 space-y-0.5">
+                            {handResults.map((hand) => (
+                              <div key={hand.id} className="flex justify-between text-xs">
+                                <span className="text-muted-foreground">
+                                  {hand.handedness ?? "Unknown"} hand #{hand.id + 1}
+                                </span>
+                                <span className={getGestureColor(hand.gesture)}>
+                                  {getGestureDisplayName(hand.gesture)}
+                                </span>
+                              </div>
+                            ))}
+                          </div>
+                        )}
                       </>
                     )}
                   </div>
@@ -509,7 +788,7 @@ const GestureDetection: React.FC<GestureDetectionProps> = ({
                     </div>
                     <Progress value={cooldownProgress} className="h-2 bg-blue-200" />
                     <p className="text-xs text-muted-foreground mt-1">
-                      Next alert available in {((1 - (cooldownProgress / 100)) * 0.5).toFixed(1)}s
+                      Next alert available in {((1 - (cooldownProgress / 100)) * settings.alerting.cooldownMs / 1000).toFixed(1)}s
                     </p>
                   </div>
                 )}
@@ -537,6 +816,17 @@ const GestureDetection: React.FC<GestureDetectionProps> = ({
                     Retrain
                   </Button>
                   
+                  <Button
+                    variant={teachMode ? "default" : "outline"}
+                    size="sm"
+                    className="text-xs h-7 flex items-center"
+                    onClick={() => setTeachMode(!teachMode)}
+                    disabled={isModelLoading}
+                  >
+                    <GraduationCap className="h-3 w-3 mr-1" /> 
+                    Teach
+                  </Button>
+                  
                   <Button
                     variant="outline"
                     size="sm"
@@ -549,6 +839,14 @@ const GestureDetection: React.FC<GestureDetectionProps> = ({
                   </Button>
                 </div>
                 
+                {teachMode && (
+                  <TeachGesture 
+                    detector={detector}
+                    onGesturesChanged={trainModel}
+                    disabled={!videoRef || isModelLoading || !detectionActive}
+                  />
+                )}
+                
                 <div className="flex flex-col gap-1 text-xs mt-2">
                   <div className="text-center mb-2">
                     <img 
@@ -608,6 +906,29 @@ const GestureDetection: React.FC<GestureDetectionProps> = ({
                       ></span>
                     </div>
                   </div>
+                  
+                  <div 
+                    className={`
+                      border rounded-md p-2
+                      ${currentGesture === "signal_for_help" ? 
+                        'border-rose-600 bg-rose-100 dark:bg-rose-950/30' : 
+                        'border-border bg-background hover:bg-secondary/40'
+                      }
+                      transition-all
+                    `}
+                  >
+                    <div className="flex justify-between items-center">
+                      <span>Signal for Help</span>
+                      <span 
+                        className={`h-2 w-2 rounded-full ${
+                          currentGesture === "signal_for_help" ? 'bg-rose-600 animate-pulse' : 'bg-gray-300'
+                        }`}
+                      ></span>
+                    </div>
+                    <p className="text-muted-foreground mt-1">
+                      Open palm, tuck thumb, then fold fingers over it
+                    </p>
+                  </div>
                 </div>
               </div>
             </CardContent>
@@ -20,13 +20,14 @@ import {
   DropdownMenuTrigger 
 } from "@/components/ui/dropdown-menu";
 import { Separator } from "@/components/ui/separator";
-import { Link } from "react-router-dom";
+import { Link, useLocation } from "react-router-dom";
 import { useIsMobile } from "@/hooks/use-mobile";
 
 const Navbar = () => {
   const { officer, logout } = useAuth();
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
   const isMobile = useIsMobile();
+  const { pathname } = useLocation();
 
   const toggleMobileMenu = () => {
     setMobileMenuOpen(!mobileMenuOpen);
@@ -68,21 +69,21 @@ const Navbar = () => {
                 <nav className="container grid gap-2 p-4">
                   <Link 
                     to="/dashboard" 
-                    className="flex items-center px-4 py-2 text-primary rounded-md hover:bg-accent"
+                    className={`flex items-center px-4 py-2 rounded-md hover:bg-accent ${pathname === "/dashboard" ? "text-primary" : "text-foreground"}`}
                     onClick={() => setMobileMenuOpen(false)}
                   >
                     Dashboard
                   </Link>
                   <Link 
                     to="/alerts" 
-                    className="flex items-center px-4 py-2 text-foreground rounded-md hover:bg-accent"
+                    className={`flex items-center px-4 py-2 rounded-md hover:bg-accent ${pathname === "/alerts" ? "text-primary" : "text-foreground"}`}
                     onClick={() => setMobileMenuOpen(false)}
                   >
                     Alerts
                   </Link>
                   <Link 
                     to="/settings" 
-                    className="flex items-center px-4 py-2 text-foreground rounded-md hover:bg-accent"
+                    className={`flex items-center px-4 py-2 rounded-md hover:bg-accent ${pathname === "/settings" ? "text-primary" : "text-foreground"}`}
                     onClick={() => setMobileMenuOpen(false)}
                   >
                     Settings
@@ -120,19 +121,19 @@ const Navbar = () => {
             <nav className="flex items-center space-x-4 lg:space-x-6 mx-6">
               <Link 
                 to="/dashboard" 
-                className="text-sm font-medium transition-colors hover:text-primary"
+                className={`text-sm font-medium transition-colors ${pathname === "/dashboard" ? "hover:text-primary" : "text-muted-foreground hover:text-foreground"}`}
               >
                 Dashboard
               </Link>
               <Link 
                 to="/alerts" 
-                className="text-sm font-medium text-muted-foreground transition-colors hover:text-foreground"
+                className={`text-sm font-medium transition-colors ${pathname === "/alerts" ? "hover:text-primary" : "text-muted-foreground hover:text-foreground"}`}
               >
                 Alerts
               </Link>
               <Link 
                 to="/settings" 
-                className="text-sm font-medium text-muted-foreground transition-colors hover:text-foreground"
+                className={`text-sm font-medium transition-colors ${pathname === "/settings" ? "hover:text-primary" : "text-muted-foreground hover:text-foreground"}`}
               >
                 Settings
               </Link>
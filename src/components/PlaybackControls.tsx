@@ -0,0 +1,149 @@
+import React, { useEffect, useState } from "react";
+import { format } from "date-fns";
+import { Clock, Pause, Play, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select";
+import {
+  PLAYBACK_RATES,
+  formatMediaTime,
+  getPlayback,
+  setRecordingStart
+} from "@/utils/mediaPlayback";
+
+type PlaybackControlsProps = {
+  // Video playing a recording, see mediaPlayback.ts
+  video: HTMLVideoElement;
+  // Return to the live camera
+  onClose: () => void;
+};
+
+// Play, pause, seek and speed controls for a recording, and when it was recorded
+const PlaybackControls: React.FC<PlaybackControlsProps> = ({ video, onClose }) => {
+  const [paused, setPaused] = useState(video.paused);
+  const [currentTime, setCurrentTime] = useState(video.currentTime);
+  const [duration, setDuration] = useState(video.duration);
+  const [playbackRate, setPlaybackRate] = useState(video.playbackRate);
+  const [recordedAt, setRecordedAt] = useState(getPlayback(video)?.recordedAt ?? null);
+
+  // Follow the video, however it was changed
+  useEffect(() => {
+    const update = () => {
+      setPaused(video.paused);
+      setCurrentTime(video.currentTime);
+      setDuration(video.duration);
+      setPlaybackRate(video.playbackRate);
+      setRecordedAt(getPlayback(video)?.recordedAt ?? null);
+    };
+    const events = ["play", "pause", "timeupdate", "seeked", "durationchange", "ratechange", "loadedmetadata"];
+    events.forEach(event => video.addEventListener(event, update));
+    update();
+
+    return () => events.forEach(event => video.removeEventListener(event, update));
+  }, [video]);
+
+  const togglePlay = () => {
+    if (video.paused) {
+      video.play().catch(error => console.error("Error playing recording:", error));
+    } else {
+      video.pause();
+    }
+  };
+
+  const handleRecordedAtChange = (value: string) => {
+    const date = new Date(value);
+    if (isNaN(date.getTime())) return;
+    setRecordingStart(video, date);
+    setRecordedAt(date);
+  };
+
+  const seekable = Number.isFinite(duration) && duration > 0;
+
+  return (
+    <div className="absolute inset-x-0 bottom-0 flex items-center gap-2 px-2 py-1.5 bg-background/85 backdrop-blur-sm">
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-7 w-7 shrink-0"
+        onClick={togglePlay}
+        title={paused ? "Play" : "Pause"}
+      >
+        {paused ? <Play className="h-3.5 w-3.5" /> : <Pause className="h-3.5 w-3.5" />}
+      </Button>
+
+      <Slider
+        className="flex-grow"
+        min={0}
+        max={seekable ? duration : 1}
+        step={0.04}
+        value={[seekable ? Math.min(currentTime, duration) : 0]}
+        onValueChange={([value]) => {
+          video.currentTime = value;
+        }}
+        disabled={!seekable}
+      />
+
+      <span className="text-xs tabular-nums text-muted-foreground shrink-0">
+        {formatMediaTime(currentTime)} / {seekable ? formatMediaTime(duration) : "--:--"}
+      </span>
+
+      <Select
+        value={String(playbackRate)}
+        onValueChange={(value) => {
+          video.playbackRate = Number(value);
+        }}
+      >
+        <SelectTrigger className="h-7 w-[70px] text-xs shrink-0">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {PLAYBACK_RATES.map(rate => (
+            <SelectItem key={rate} value={String(rate)}>{rate}x</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <Popover>
+        <PopoverTrigger asChild>
+          <Button variant="ghost" size="icon" className="h-7 w-7 shrink-0" title="Recording start time">
+            <Clock className="h-3.5 w-3.5" />
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-72 space-y-2" align="end">
+          <Label htmlFor="recorded-at">Recording started at</Label>
+          <Input
+            id="recorded-at"
+            type="datetime-local"
+            step={1}
+            value={recordedAt ? format(recordedAt, "yyyy-MM-dd'T'HH:mm:ss") : ""}
+            onChange={(e) => handleRecordedAtChange(e.target.value)}
+          />
+          <p className="text-xs text-muted-foreground">
+            Alerts on this recording are dated from this time. It defaults to the file's modification time less its length.
+          </p>
+        </PopoverContent>
+      </Popover>
+
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-7 w-7 shrink-0"
+        onClick={onClose}
+        title="Close recording and return to the live camera"
+      >
+        <X className="h-3.5 w-3.5" />
+      </Button>
+    </div>
+  );
+};
+
+export default PlaybackControls;
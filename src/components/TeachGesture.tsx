@@ -0,0 +1,179 @@
+import React, { useState } from "react";
+import { GraduationCap, Loader2, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Progress } from "@/components/ui/progress";
+import { useToast } from "@/hooks/use-toast";
+import {
+  CustomGesture,
+  deleteCustomGesture,
+  GestureDetector,
+  loadCustomGestures,
+  saveCustomGesture
+} from "@/utils/gestureUtils";
+
+type TeachGestureProps = {
+  detector: GestureDetector | null;
+  // Called after samples were saved or a gesture was removed
+  onGesturesChanged: () => void | Promise<void>;
+  disabled?: boolean;
+};
+
+// How long to capture landmarks for each recording
+const RECORDING_DURATION_MS = 3000;
+// Fewer frames than this means the hand was barely visible
+const MIN_SAMPLES = 10;
+
+const TeachGesture: React.FC<TeachGestureProps> = ({
+  detector,
+  onGesturesChanged,
+  disabled = false
+}) => {
+  const [gestureName, setGestureName] = useState("");
+  const [emergency, setEmergency] = useState(false);
+  const [isRecording, setIsRecording] = useState(false);
+  const [recordingProgress, setRecordingProgress] = useState(0);
+  const [customGestures, setCustomGestures] = useState<CustomGesture[]>(() => loadCustomGestures());
+  const { toast } = useToast();
+
+  const handleRecord = async () => {
+    if (!detector) return;
+
+    if (!gestureName.trim()) {
+      toast({
+        title: "Name Required",
+        description: "Enter a name for the gesture before recording.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsRecording(true);
+    setRecordingProgress(0);
+
+    try {
+      const samples = await detector.recordSamples(RECORDING_DURATION_MS, setRecordingProgress);
+
+      if (samples.length < MIN_SAMPLES) {
+        toast({
+          title: "No Hand Detected",
+          description: "Hold the gesture in front of the camera while recording.",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      const gesture = saveCustomGesture(gestureName, samples, emergency);
+      setCustomGestures(loadCustomGestures());
+      await onGesturesChanged();
+
+      toast({
+        title: "Gesture Recorded",
+        description: `${samples.length} samples saved for "${gesture.name}" (${gesture.samples.length} total).`,
+      });
+    } catch (error) {
+      console.error("Error recording gesture:", error);
+      toast({
+        title: "Recording Failed",
+        description: error instanceof DOMException && error.name === 'QuotaExceededError'
+          ? "Browser storage is full. Remove a custom gesture and try again."
+          : error instanceof Error ? error.message : "The gesture could not be saved.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsRecording(false);
+      setRecordingProgress(0);
+    }
+  };
+
+  const handleDelete = (gesture: CustomGesture) => {
+    deleteCustomGesture(gesture.id);
+    setCustomGestures(loadCustomGestures());
+    onGesturesChanged();
+
+    toast({
+      title: "Gesture Removed",
+      description: `"${gesture.name}" will no longer be detected.`,
+    });
+  };
+
+  return (
+    <div className="border rounded-md p-2 space-y-2">
+      <div className="flex items-center text-xs font-medium">
+        <GraduationCap className="h-3.5 w-3.5 mr-1" />
+        Teach Gesture
+      </div>
+
+      <div className="space-y-1">
+        <Label htmlFor="gestureName" className="text-xs">Gesture name</Label>
+        <Input
+          id="gestureName"
+          value={gestureName}
+          onChange={(e) => setGestureName(e.target.value)}
+          placeholder="e.g. Crossed fingers"
+          className="h-7 text-xs"
+          disabled={isRecording}
+        />
+      </div>
+
+      <div className="flex items-center space-x-2">
+        <Checkbox
+          id="gestureEmergency"
+          checked={emergency}
+          onCheckedChange={(checked) => setEmergency(checked === true)}
+          disabled={isRecording}
+        />
+        <Label htmlFor="gestureEmergency" className="text-xs">Raise an emergency alert</Label>
+      </div>
+
+      {isRecording ? (
+        <div>
+          <Progress value={recordingProgress} className="h-2 bg-blue-200" />
+          <p className="text-xs text-muted-foreground mt-1 flex items-center">
+            <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+            Hold the gesture steady...
+          </p>
+        </div>
+      ) : (
+        <Button
+          variant="outline"
+          size="sm"
+          className="text-xs h-7 w-full"
+          onClick={handleRecord}
+          disabled={disabled || !detector}
+        >
+          Record {RECORDING_DURATION_MS / 1000}s of samples
+        </Button>
+      )}
+
+      {customGestures.length > 0 && (
+        <div className="space-y-1">
+          {customGestures.map((gesture) => (
+            <div key={gesture.id} className="flex items-center justify-between text-xs">
+              <span className={gesture.emergency ? "text-red-600 font-medium" : ""}>
+                {gesture.name}
+              </span>
+              <div className="flex items-center gap-1 text-muted-foreground">
+                <span>{gesture.samples.length} samples</span>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-5 w-5"
+                  onClick={() => handleDelete(gesture)}
+                  disabled={isRecording}
+                  title="Delete gesture"
+                >
+                  <Trash2 className="h-3 w-3" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TeachGesture;
@@ -2,27 +2,65 @@
 import React, { useRef, useEffect, useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { Fullscreen, Maximize2, Minimize2, Video, VideoOff, Download, Shield, RefreshCw } from "lucide-react";
+import { Fullscreen, Maximize2, Minimize2, Video, VideoOff, Shield, RefreshCw, ScanEye, FileVideo, Shapes } from "lucide-react";
 import { Badge } from "@/components/ui/badge";
 import { useToast } from "@/hooks/use-toast";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { drawHandOverlay, GestureDetector } from "@/utils/gestureUtils";
+import { CAMERA_RESOLUTIONS } from "@/utils/settings";
+import { useSettings } from "@/contexts/SettingsContext";
+import { useCameraSource } from "@/hooks/use-camera-source";
+import { NetworkSourceConfig } from "@/utils/cameraSources";
+import { isVideoFile, playVideoFile } from "@/utils/mediaPlayback";
+import { CAMERA_HEALTH_ISSUES, CameraHealthIssue } from "@/utils/cameraHealth";
+import { useCameraHealth } from "@/hooks/use-camera-health";
+import PlaybackControls from "@/components/PlaybackControls";
+import ZoneEditor from "@/components/ZoneEditor";
+import { CameraZone } from "@/utils/zones";
 
 type WebcamFeedProps = {
   feedName: string;
+  // Requested resolution; defaults to the camera settings
   width?: number;
   height?: number;
   deviceId?: string;
+  // Network stream to play instead of a local device
+  source?: NetworkSourceConfig;
   onVideoRef?: (ref: HTMLVideoElement | null) => void;
+  // Detector whose results are drawn over the video
+  detector?: GestureDetector | null;
+  // Reports which device was opened, so a camera can be named after it
+  onDeviceInfo?: (deviceId: string | undefined, label: string) => void;
+  // Extra buttons for the header
+  actions?: React.ReactNode;
+  // Reports when the live picture goes bad or recovers, see cameraHealth.ts
+  onHealthChange?: (issue: CameraHealthIssue | null) => void;
+  // Detection zones drawn over the feed, editable when onZonesChange is given
+  zones?: CameraZone[];
+  onZonesChange?: (zones: CameraZone[]) => void;
 };
 
 const WebcamFeed: React.FC<WebcamFeedProps> = ({
   feedName,
-  width = 640,
-  height = 480,
+  width,
+  height,
   deviceId,
+  source,
   onVideoRef,
+  detector,
+  onDeviceInfo,
+  actions,
+  onHealthChange,
+  zones = [],
+  onZonesChange,
 }) => {
   const videoRef = useRef<HTMLVideoElement | null>(null);
+  const overlayRef = useRef<HTMLCanvasElement | null>(null);
+  const { settings } = useSettings();
+  const [showOverlay, setShowOverlay] = useState(settings.camera.showOverlay);
+  const idealWidth = width ?? CAMERA_RESOLUTIONS[settings.camera.resolution].width;
+  const idealHeight = height ?? CAMERA_RESOLUTIONS[settings.camera.resolution].height;
+  const idealFrameRate = settings.camera.frameRate;
   const [isStreaming, setIsStreaming] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -33,6 +71,25 @@ const WebcamFeed: React.FC<WebcamFeedProps> = ({
   const { toast } = useToast();
   const [streamReady, setStreamReady] = useState(false);
   const streamRef = useRef<MediaStream | null>(null);
+  const isNetwork = !!source;
+  const network = useCameraSource(videoRef, source);
+  // Recording played instead of the camera, e.g. to re-run detection on it
+  const [videoFile, setVideoFile] = useState<File | null>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  const [editingZones, setEditingZones] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+  // Recordings can be paused and end, so only live feeds are checked
+  const health = useCameraHealth(isStreaming && !videoFile ? videoRef.current : null, {
+    enabled: settings.health.enabled,
+    graceMs: settings.health.graceSeconds * 1000,
+    blackLevel: settings.health.blackLevel,
+    blurThreshold: settings.health.blurThreshold,
+  });
+  // A network camera that is cut or unplugged stops playing and keeps
+  // reconnecting, so the check above never sees it; one still reconnecting
+  // after the grace period counts as disconnected
+  const [networkLost, setNetworkLost] = useState(false);
+  const healthIssue: CameraHealthIssue | null = health.issue ?? (networkLost ? "ended" : null);
 
   // Function to check camera permissions
   const checkCameraPermission = async () => {
@@ -81,7 +138,12 @@ const WebcamFeed: React.FC<WebcamFeedProps> = ({
       }
 
       const constraints: MediaStreamConstraints = {
-        video: deviceId ? { deviceId: { exact: deviceId } } : true,
+        video: {
+          ...(deviceId ? { deviceId: { exact: deviceId } } : {}),
+          width: { ideal: idealWidth },
+          height: { ideal: idealHeight },
+          frameRate: { ideal: idealFrameRate },
+        },
         audio: false,
       };
       
@@ -92,6 +154,11 @@ const WebcamFeed: React.FC<WebcamFeedProps> = ({
       // Store stream reference to prevent garbage collection
       streamRef.current = stream;
       setStreamReady(true);
+
+      const track = stream.getVideoTracks()[0];
+      if (track) {
+        onDeviceInfo?.(track.getSettings().deviceId, track.label);
+      }
       
       // We'll handle setting the stream to video element in the useEffect
       
@@ -128,7 +195,7 @@ const WebcamFeed: React.FC<WebcamFeedProps> = ({
     }
   };
 
-  const stopStream = () => {
+  const stopStream = (notify = true) => {
     if (streamRef.current) {
       console.log("Stopping all tracks in stream");
       const tracks = streamRef.current.getTracks();
@@ -150,10 +217,64 @@ const WebcamFeed: React.FC<WebcamFeedProps> = ({
       onVideoRef(null);
     }
     
-    toast({
-      title: "Camera Stopped",
-      description: "The camera stream has been disconnected.",
-    });
+    if (notify) {
+      toast({
+        title: "Camera Stopped",
+        description: "The camera stream has been disconnected.",
+      });
+    }
+  };
+
+  // Play a recording in place of the camera
+  const openVideoFile = (file: File) => {
+    if (!isVideoFile(file)) {
+      toast({
+        title: "Unsupported File",
+        description: `${file.name} is not a video file.`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (isNetwork) {
+      network.stop();
+    } else if (streamRef.current) {
+      stopStream(false);
+    }
+    setError(null);
+    setIsLoading(false);
+    setVideoFile(file);
+  };
+
+  const closeVideoFile = () => {
+    setVideoFile(null);
+    // Reconnect the camera once the recording has been let go
+    setTimeout(() => {
+      if (isNetwork) {
+        network.start();
+      } else {
+        startStream();
+      }
+    }, 0);
+  };
+
+  const handleDragOver = (e: React.DragEvent) => {
+    if (!e.dataTransfer.types.includes("Files")) return;
+    e.preventDefault();
+    setIsDragging(true);
+  };
+
+  const handleDragLeave = (e: React.DragEvent) => {
+    if (!e.currentTarget.contains(e.relatedTarget as Node | null)) {
+      setIsDragging(false);
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    const file = e.dataTransfer.files[0];
+    if (file) openVideoFile(file);
   };
 
   const toggleFullscreen = () => {
@@ -173,65 +294,6 @@ const WebcamFeed: React.FC<WebcamFeedProps> = ({
     }
   };
 
-  const captureAndDownloadImage = () => {
-    if (!videoRef.current || !isStreaming) {
-      toast({
-        title: "Capture Failed",
-        description: "Cannot capture image: camera is not streaming.",
-        variant: "destructive",
-      });
-      return;
-    }
-    
-    const canvas = document.createElement("canvas");
-    canvas.width = videoRef.current.videoWidth;
-    canvas.height = videoRef.current.videoHeight;
-    
-    const ctx = canvas.getContext("2d");
-    if (!ctx) {
-      toast({
-        title: "Capture Failed",
-        description: "Failed to create canvas context.",
-        variant: "destructive",
-      });
-      return;
-    }
-    
-    // Draw the current video frame to the canvas
-    ctx.drawImage(videoRef.current, 0, 0, canvas.width, canvas.height);
-    
-    // Add timestamp to the image
-    const timestamp = new Date().toLocaleString();
-    ctx.font = "16px Arial";
-    ctx.fillStyle = "white";
-    ctx.fillRect(10, canvas.height - 30, ctx.measureText(timestamp).width + 10, 20);
-    ctx.fillStyle = "black";
-    ctx.fillText(timestamp, 15, canvas.height - 15);
-    
-    // Convert to data URL and download
-    try {
-      const dataUrl = canvas.toDataURL("image/jpeg", 0.9);
-      const link = document.createElement("a");
-      link.href = dataUrl;
-      link.download = `safety-capture-${Date.now()}.jpg`;
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
-      
-      toast({
-        title: "Image Captured",
-        description: "The image has been saved to your downloads folder.",
-      });
-    } catch (error) {
-      console.error("Error saving image:", error);
-      toast({
-        title: "Download Failed",
-        description: "Failed to download the captured image.",
-        variant: "destructive",
-      });
-    }
-  };
-
   const handleRetry = () => {
     console.log("Retrying camera connection");
     setRetryCount(prev => prev + 1);
@@ -278,11 +340,99 @@ const WebcamFeed: React.FC<WebcamFeedProps> = ({
     }
   }, [streamReady, videoRef.current]);
 
+  // Network cameras connect and reconnect by themselves; follow their status
+  useEffect(() => {
+    if (!isNetwork) return;
+    const live = network.status === "live";
+    setIsStreaming(live);
+    if (live) {
+      onVideoRef?.(videoRef.current);
+    } else if (network.status === "stopped") {
+      onVideoRef?.(null);
+    }
+  }, [isNetwork, network.status]);
+
+  useEffect(() => {
+    if (!isNetwork || videoFile || !settings.health.enabled || network.status !== "reconnecting") {
+      setNetworkLost(false);
+      return;
+    }
+
+    const timer = setTimeout(() => setNetworkLost(true), settings.health.graceSeconds * 1000);
+    return () => clearTimeout(timer);
+  }, [isNetwork, videoFile, network.status, settings.health.enabled, settings.health.graceSeconds]);
+
+  useEffect(() => {
+    onHealthChange?.(healthIssue);
+  }, [healthIssue]);
+
+  // Play the chosen recording until it is closed
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!videoFile || !video) return;
+
+    // Handlers left by the camera stream would treat the file as the camera
+    video.onloadedmetadata = null;
+    video.onerror = null;
+    const stop = playVideoFile(video, videoFile);
+
+    const handleLoaded = () => {
+      video.play()
+        .then(() => {
+          setIsStreaming(true);
+          onVideoRef?.(video);
+          toast({
+            title: "Playing Recording",
+            description: `Detection is running on ${videoFile.name}.`,
+          });
+        })
+        .catch(e => {
+          console.error("Error playing recording:", e);
+          setError("Could not play the recording. The file may be in a format this browser can't play.");
+        });
+    };
+    const handleError = () => {
+      setError(`Could not play ${videoFile.name}. The file may be in a format this browser can't play.`);
+    };
+    video.addEventListener("loadedmetadata", handleLoaded, { once: true });
+    video.addEventListener("error", handleError, { once: true });
+
+    return () => {
+      video.removeEventListener("loadedmetadata", handleLoaded);
+      video.removeEventListener("error", handleError);
+      stop();
+      setIsStreaming(false);
+      setError(null);
+      onVideoRef?.(null);
+    };
+  }, [videoFile]);
+
+  // Draw every processed frame's hands over the video
+  useEffect(() => {
+    const canvas = overlayRef.current;
+    const ctx = canvas?.getContext("2d");
+    if (!detector || !showOverlay || !isStreaming || !canvas || !ctx) return;
+
+    const unsubscribe = detector.subscribe((result) => {
+      const video = videoRef.current;
+      if (video && (canvas.width !== video.videoWidth || canvas.height !== video.videoHeight)) {
+        canvas.width = video.videoWidth;
+        canvas.height = video.videoHeight;
+      }
+      drawHandOverlay(ctx, result);
+    });
+
+    return () => {
+      unsubscribe();
+      drawHandOverlay(ctx, null);
+    };
+  }, [detector, showOverlay, isStreaming]);
+
   // Initial setup effect
   useEffect(() => {
     // Allow DOM to fully initialize before starting camera
     console.log("WebcamFeed component mounted");
-    const timer = setTimeout(() => {
+    const timer = isNetwork ? undefined : setTimeout(() => {
       console.log("Initial camera check after delay");
       checkCameraPermission().then((permissionStatus) => {
         console.log("Initial permission status:", permissionStatus);
@@ -304,33 +454,82 @@ const WebcamFeed: React.FC<WebcamFeedProps> = ({
     // Cleanup
     return () => {
       clearTimeout(timer);
-      stopStream();
+      if (isNetwork) {
+        onVideoRef?.(null);
+      } else {
+        stopStream();
+      }
       document.removeEventListener("fullscreenchange", handleFullscreenChange);
     };
-  }, [deviceId]); // Only re-run this effect if deviceId changes
+  }, [deviceId, isNetwork, idealWidth, idealHeight, idealFrameRate]); // Only re-run this effect if the requested camera changes
 
   return (
-    <Card ref={cardRef} className="overflow-hidden h-full flex flex-col">
+    <Card
+      ref={cardRef}
+      className="overflow-hidden h-full flex flex-col"
+      onDragOver={handleDragOver}
+      onDragLeave={handleDragLeave}
+      onDrop={handleDrop}
+    >
       <CardHeader className="p-3 flex flex-row items-center justify-between space-y-0">
         <CardTitle className="text-sm font-medium flex items-center">
           <Video className="w-4 h-4 mr-1.5" />
           {feedName}
-          {isStreaming && (
+          {isStreaming && !videoFile && !health.issue && (
             <Badge variant="outline" className="ml-2 py-0 h-5 bg-green-500/10 text-green-500 border-green-500/20">
               Live
             </Badge>
           )}
+          {isStreaming && !videoFile && health.issue && (
+            <Badge
+              variant="outline"
+              className="ml-2 py-0 h-5 bg-orange-500/10 text-orange-600 border-orange-500/30"
+              title={CAMERA_HEALTH_ISSUES[health.issue].description}
+            >
+              {CAMERA_HEALTH_ISSUES[health.issue].label}
+            </Badge>
+          )}
+          {videoFile && (
+            <Badge
+              variant="outline"
+              className="ml-2 py-0 h-5 bg-blue-500/10 text-blue-500 border-blue-500/20 max-w-[160px] truncate"
+              title={videoFile.name}
+            >
+              Recording: {videoFile.name}
+            </Badge>
+          )}
+          {isNetwork && !videoFile && network.status === "reconnecting" && (
+            <Badge
+              variant="outline"
+              className="ml-2 py-0 h-5 bg-amber-500/10 text-amber-500 border-amber-500/20"
+              title={networkLost ? CAMERA_HEALTH_ISSUES.ended.description : undefined}
+            >
+              Reconnecting
+            </Badge>
+          )}
         </CardTitle>
         <div className="flex gap-1">
-          {isStreaming && (
-            <Button 
-              variant="ghost" 
-              size="icon" 
-              className="h-7 w-7" 
-              onClick={captureAndDownloadImage}
-              title="Capture and download image"
+          {actions}
+          {isStreaming && detector && (
+            <Button
+              variant="ghost"
+              size="icon"
+              className={`h-7 w-7 ${showOverlay ? "text-primary" : ""}`}
+              onClick={() => setShowOverlay(prev => !prev)}
+              title={showOverlay ? "Hide hand overlay" : "Show hand overlay"}
+            >
+              <ScanEye className="h-3.5 w-3.5" />
+            </Button>
+          )}
+          {isStreaming && onZonesChange && (
+            <Button
+              variant="ghost"
+              size="icon"
+              className={`h-7 w-7 ${editingZones ? "text-primary" : ""}`}
+              onClick={() => setEditingZones(prev => !prev)}
+              title={editingZones ? "Finish editing zones" : "Edit detection zones"}
             >
-              <Download className="h-3.5 w-3.5" />
+              <Shapes className="h-3.5 w-3.5" />
             </Button>
           )}
           <Button 
@@ -346,20 +545,44 @@ const WebcamFeed: React.FC<WebcamFeedProps> = ({
               <Maximize2 className="h-3.5 w-3.5" />
             )}
           </Button>
-          <Button 
-            variant="ghost" 
-            size="icon"
-            className={`h-7 w-7 ${!isStreaming ? "text-primary" : "text-destructive"}`} 
-            onClick={isStreaming ? stopStream : startStream}
-            disabled={isLoading}
-            title={isStreaming ? "Stop camera" : "Start camera"}
-          >
-            {isStreaming ? (
-              <VideoOff className="h-3.5 w-3.5" />
-            ) : (
-              <Video className="h-3.5 w-3.5" />
-            )}
-          </Button>
+          {!videoFile && (
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-7 w-7"
+              onClick={() => fileInputRef.current?.click()}
+              title="Play a video file instead of the camera"
+            >
+              <FileVideo className="h-3.5 w-3.5" />
+            </Button>
+          )}
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="video/*"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) openVideoFile(file);
+              e.target.value = "";
+            }}
+          />
+          {!videoFile && (
+            <Button 
+              variant="ghost" 
+              size="icon"
+              className={`h-7 w-7 ${!isStreaming ? "text-primary" : "text-destructive"}`} 
+              onClick={isNetwork ? (isStreaming ? network.stop : network.start) : isStreaming ? () => stopStream() : startStream}
+              disabled={isLoading}
+              title={isStreaming ? "Stop camera" : "Start camera"}
+            >
+              {isStreaming ? (
+                <VideoOff className="h-3.5 w-3.5" />
+              ) : (
+                <Video className="h-3.5 w-3.5" />
+              )}
+            </Button>
+          )}
         </div>
       </CardHeader>
       <CardContent className="p-0 flex-grow flex items-center justify-center bg-black/5 dark:bg-white/5 relative">
@@ -367,29 +590,31 @@ const WebcamFeed: React.FC<WebcamFeedProps> = ({
           <div className="text-center p-4 flex flex-col items-center">
             <Alert variant="destructive" className="mb-3 max-w-md">
               <Shield className="h-4 w-4 mr-2" />
-              <AlertTitle>Camera Access Error</AlertTitle>
+              <AlertTitle>{videoFile ? "Playback Error" : "Camera Access Error"}</AlertTitle>
               <AlertDescription className="text-sm">
                 {error}
               </AlertDescription>
             </Alert>
             
-            <div className="mb-3 text-sm max-w-md">
-              <p className="font-medium mb-2">To enable camera access:</p>
-              <ol className="list-decimal list-inside text-left space-y-1">
-                <li>Click the camera icon in your browser's address bar</li>
-                <li>Select "Allow" for camera access</li>
-                <li>Click the "Try Again" button below</li>
-              </ol>
-            </div>
+            {!videoFile && (
+              <div className="mb-3 text-sm max-w-md">
+                <p className="font-medium mb-2">To enable camera access:</p>
+                <ol className="list-decimal list-inside text-left space-y-1">
+                  <li>Click the camera icon in your browser's address bar</li>
+                  <li>Select "Allow" for camera access</li>
+                  <li>Click the "Try Again" button below</li>
+                </ol>
+              </div>
+            )}
             
             <Button 
               variant="default" 
               size="sm" 
-              onClick={handleRetry}
+              onClick={videoFile ? closeVideoFile : handleRetry}
               className="mt-2 flex items-center gap-1"
             >
               <RefreshCw className="h-3.5 w-3.5" />
-              Try Again
+              {videoFile ? "Back to Camera" : "Try Again"}
             </Button>
           </div>
         ) : isLoading ? (
@@ -406,12 +631,67 @@ const WebcamFeed: React.FC<WebcamFeedProps> = ({
               muted
               className="w-full h-full object-cover"
               onCanPlay={() => {
+                if (isNetwork) return;
                 console.log("Video can play event fired");
                 setIsLoading(false);
                 setIsStreaming(true);
               }}
             />
+            <canvas
+              ref={overlayRef}
+              className={`absolute inset-0 w-full h-full object-cover pointer-events-none ${showOverlay ? "" : "hidden"}`}
+            />
             <div className="webcam-overlay"></div>
+            {isStreaming && videoRef.current && videoRef.current.videoWidth > 0 &&
+              (editingZones || (showOverlay && zones.length > 0)) && (
+              <ZoneEditor
+                frameWidth={videoRef.current.videoWidth}
+                frameHeight={videoRef.current.videoHeight}
+                zones={zones}
+                editing={editingZones}
+                onChange={(next) => onZonesChange?.(next)}
+                onDone={() => setEditingZones(false)}
+              />
+            )}
+            {videoFile && isStreaming && videoRef.current && !editingZones && (
+              <PlaybackControls video={videoRef.current} onClose={closeVideoFile} />
+            )}
+            {isNetwork && !videoFile && !isStreaming && (
+              <div className="absolute inset-0 flex flex-col items-center justify-center p-4 text-center bg-background/80">
+                {network.status === "stopped" ? (
+                  <p className="text-sm text-muted-foreground">Stream stopped</p>
+                ) : (
+                  <>
+                    <div className="animate-pulse h-4 w-4 bg-primary rounded-full mb-2"></div>
+                    <p className="text-sm text-muted-foreground">
+                      {network.status === "reconnecting"
+                        ? `Reconnecting to camera (attempt ${network.attempts})...`
+                        : "Connecting to camera..."}
+                    </p>
+                    {network.error && (
+                      <p className="text-xs text-destructive mt-1 max-w-xs">{network.error}</p>
+                    )}
+                    {network.status === "reconnecting" && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={network.start}
+                        className="mt-3 flex items-center gap-1"
+                      >
+                        <RefreshCw className="h-3.5 w-3.5" />
+                        Retry Now
+                      </Button>
+                    )}
+                  </>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+        {isDragging && (
+          <div className="absolute inset-0 z-10 flex flex-col items-center justify-center border-2 border-dashed border-primary bg-background/90 pointer-events-none">
+            <FileVideo className="h-8 w-8 mb-2 text-primary" />
+            <p className="text-sm font-medium">Drop a video to run detection on it</p>
           </div>
         )}
       </CardContent>
@@ -0,0 +1,203 @@
+import React, { useState } from "react";
+import { Check, Undo2, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select";
+import {
+  CameraZone,
+  ZONE_KINDS,
+  ZoneKind,
+  ZonePoint,
+  createZone,
+  getZoneName
+} from "@/utils/zones";
+
+type ZoneEditorProps = {
+  // Size of the video frame, so the zones line up with the picture however
+  // the feed crops it
+  frameWidth: number;
+  frameHeight: number;
+  zones: CameraZone[];
+  // Draw new zones and remove existing ones; otherwise only show them
+  editing: boolean;
+  onChange: (zones: CameraZone[]) => void;
+  onDone: () => void;
+};
+
+const clamp = (value: number) => Math.min(1, Math.max(0, value));
+
+// The camera's zones over its feed, where operators draw new ones point by point
+const ZoneEditor: React.FC<ZoneEditorProps> = ({
+  frameWidth,
+  frameHeight,
+  zones,
+  editing,
+  onChange,
+  onDone
+}) => {
+  const [kind, setKind] = useState<ZoneKind>("active");
+  const [name, setName] = useState("");
+  const [draft, setDraft] = useState<ZonePoint[]>([]);
+
+  const toSvgPoints = (points: ZonePoint[]) =>
+    points.map(point => `${point.x * frameWidth},${point.y * frameHeight}`).join(" ");
+
+  // Map a click to the frame, undoing the feed's scaling and cropping
+  const handleClick = (e: React.MouseEvent<SVGSVGElement>) => {
+    const matrix = e.currentTarget.getScreenCTM();
+    if (!editing || !matrix) return;
+
+    const point = new DOMPoint(e.clientX, e.clientY).matrixTransform(matrix.inverse());
+    setDraft(current => [...current, { x: clamp(point.x / frameWidth), y: clamp(point.y / frameHeight) }]);
+  };
+
+  const finishZone = () => {
+    if (draft.length < 3) return;
+    onChange([...zones, createZone(kind, draft, name.trim())]);
+    setDraft([]);
+    setName("");
+  };
+
+  const handleDone = () => {
+    setDraft([]);
+    onDone();
+  };
+
+  const fontSize = frameHeight * 0.04;
+
+  return (
+    <>
+      <svg
+        viewBox={`0 0 ${frameWidth} ${frameHeight}`}
+        preserveAspectRatio="xMidYMid slice"
+        className={`absolute inset-0 w-full h-full ${editing ? "cursor-crosshair" : "pointer-events-none"}`}
+        onClick={handleClick}
+      >
+        {zones.map(zone => (
+          <g key={zone.id}>
+            <polygon
+              points={toSvgPoints(zone.points)}
+              fill={ZONE_KINDS[zone.kind].fill}
+              stroke={ZONE_KINDS[zone.kind].stroke}
+              strokeWidth={2}
+              vectorEffect="non-scaling-stroke"
+            />
+            <text
+              x={zone.points[0].x * frameWidth + fontSize * 0.3}
+              y={zone.points[0].y * frameHeight + fontSize * 1.1}
+              fill={ZONE_KINDS[zone.kind].stroke}
+              fontSize={fontSize}
+              fontWeight={600}
+            >
+              {getZoneName(zone, zones)}
+            </text>
+          </g>
+        ))}
+        {draft.length > 0 && (
+          <>
+            <polyline
+              points={toSvgPoints(draft.length >= 3 ? [...draft, draft[0]] : draft)}
+              fill={draft.length >= 3 ? ZONE_KINDS[kind].fill : "none"}
+              stroke={ZONE_KINDS[kind].stroke}
+              strokeWidth={2}
+              strokeDasharray="6 4"
+              vectorEffect="non-scaling-stroke"
+            />
+            {draft.map((point, index) => (
+              <circle
+                key={index}
+                cx={point.x * frameWidth}
+                cy={point.y * frameHeight}
+                r={fontSize * 0.25}
+                fill="white"
+                stroke={ZONE_KINDS[kind].stroke}
+                strokeWidth={2}
+                vectorEffect="non-scaling-stroke"
+              />
+            ))}
+          </>
+        )}
+      </svg>
+
+      {editing && (
+        <>
+          <div className="absolute top-2 inset-x-2 flex flex-wrap items-center gap-1.5 rounded-md bg-background/90 p-1.5 backdrop-blur-sm">
+            <Select value={kind} onValueChange={(value) => setKind(value as ZoneKind)}>
+              <SelectTrigger className="h-7 w-[140px] text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(ZONE_KINDS) as ZoneKind[]).map(value => (
+                  <SelectItem key={value} value={value}>{ZONE_KINDS[value].label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Name (optional)"
+              className="h-7 w-[130px] text-xs"
+            />
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-7 w-7"
+              onClick={() => setDraft(current => current.slice(0, -1))}
+              disabled={draft.length === 0}
+              title="Remove the last point"
+            >
+              <Undo2 className="h-3.5 w-3.5" />
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              className="h-7 text-xs"
+              onClick={finishZone}
+              disabled={draft.length < 3}
+            >
+              <Check className="mr-1 h-3.5 w-3.5" />
+              Add {kind === "active" ? "zone" : "mask"}
+            </Button>
+            <Button size="sm" className="h-7 text-xs ml-auto" onClick={handleDone}>
+              Done
+            </Button>
+          </div>
+
+          <div className="absolute bottom-2 inset-x-2 flex flex-wrap gap-1">
+            {zones.length === 0 && draft.length === 0 && (
+              <p className="rounded-md bg-background/90 px-2 py-1 text-xs text-muted-foreground">
+                Click the picture to outline a zone. Without active zones the whole picture is watched.
+              </p>
+            )}
+            {zones.map(zone => (
+              <span
+                key={zone.id}
+                className="flex items-center gap-1 rounded-md bg-background/90 pl-2 text-xs"
+                style={{ color: ZONE_KINDS[zone.kind].stroke }}
+              >
+                {getZoneName(zone, zones)}
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-6 w-6"
+                  onClick={() => onChange(zones.filter(other => other.id !== zone.id))}
+                  title="Remove zone"
+                >
+                  <X className="h-3 w-3" />
+                </Button>
+              </span>
+            ))}
+          </div>
+        </>
+      )}
+    </>
+  );
+};
+
+export default ZoneEditor;
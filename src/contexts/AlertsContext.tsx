@@ -0,0 +1,105 @@
+import React, { createContext, useContext, useState, useEffect } from "react";
+import { AlertActor, AlertStatus, GestureAlert } from "@/utils/gestureUtils";
+import { alertRepository } from "@/utils/alertRepository";
+import { backend } from "@/backend";
+import { useAuth } from "@/contexts/AuthContext";
+
+type AlertsContextType = {
+  alerts: GestureAlert[];
+  isLoading: boolean;
+  addAlert: (alert: GestureAlert) => Promise<void>;
+  updateAlert: (alertId: string, changes: Partial<GestureAlert>) => Promise<void>;
+  transitionAlert: (alertId: string, status: AlertStatus, by: AlertActor, note?: string) => Promise<void>;
+  deleteAlert: (alertId: string) => Promise<void>;
+  syncNow: () => Promise<void>;
+  error: string | null;
+};
+
+const defaultContext: AlertsContextType = {
+  alerts: [],
+  isLoading: false,
+  addAlert: async () => {},
+  updateAlert: async () => {},
+  transitionAlert: async () => {},
+  deleteAlert: async () => {},
+  syncNow: async () => {},
+  error: null,
+};
+
+const AlertsContext = createContext<AlertsContextType>(defaultContext);
+
+export const AlertsProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [alerts, setAlerts] = useState<GestureAlert[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const { isAuthenticated } = useAuth();
+
+  // Only deliver alerts to the backend with a signed in officer; changes
+  // made meanwhile stay queued
+  useEffect(() => {
+    alertRepository.setRemote(isAuthenticated ? backend.alerts : null);
+  }, [isAuthenticated]);
+
+  useEffect(() => {
+    // Load the stored history, then follow every change to it
+    const unsubscribe = alertRepository.subscribe(setAlerts);
+
+    alertRepository.list()
+      .then(setAlerts)
+      .catch((err) => {
+        console.error("Error loading alerts:", err);
+        setError("Stored alerts could not be loaded.");
+      })
+      .finally(() => setIsLoading(false));
+
+    return unsubscribe;
+  }, []);
+
+  // Run a repository change, surfacing failures to the UI
+  const run = async (action: () => Promise<void>, failureMessage: string) => {
+    try {
+      setError(null);
+      await action();
+    } catch (err) {
+      console.error(failureMessage, err);
+      setError(failureMessage);
+      throw err;
+    }
+  };
+
+  const addAlert = (alert: GestureAlert) =>
+    run(() => alertRepository.save(alert), "The alert could not be saved.");
+
+  const updateAlert = (alertId: string, changes: Partial<GestureAlert>) =>
+    run(() => alertRepository.update(alertId, changes), "The alert could not be updated.");
+
+  const transitionAlert = (alertId: string, status: AlertStatus, by: AlertActor, note?: string) =>
+    run(() => alertRepository.transition(alertId, status, by, note), "The alert could not be updated.");
+
+  const deleteAlert = (alertId: string) =>
+    run(() => alertRepository.remove(alertId), "The alert could not be deleted.");
+
+  const syncNow = async () => {
+    await alertRepository.sync();
+    await alertRepository.pull();
+  };
+
+  return (
+    <AlertsContext.Provider
+      value={{
+        alerts,
+        isLoading,
+        addAlert,
+        updateAlert,
+        transitionAlert,
+        deleteAlert,
+        syncNow,
+        error,
+      }}
+    >
+      {children}
+    </AlertsContext.Provider>
+  );
+};
+
+export const useAlerts = () => useContext(AlertsContext);
@@ -1,14 +1,7 @@
 
 import React, { createContext, useContext, useState, useEffect } from "react";
 import { useNavigate } from "react-router-dom";
-
-type Officer = {
-  id: string;
-  name: string;
-  badgeNumber: string;
-  role: string;
-  avatar?: string;
-};
+import { AuthSession, backend, Officer } from "@/backend";
 
 type AuthContextType = {
   officer: Officer | null;
@@ -30,25 +23,7 @@ const defaultContext: AuthContextType = {
 
 const AuthContext = createContext<AuthContextType>(defaultContext);
 
-// Mock data for demonstration
-const MOCK_OFFICERS = [
-  {
-    id: "1",
-    name: "John Reynolds",
-    badgeNumber: "12345",
-    password: "password123",
-    role: "Chief Inspector",
-    avatar: "https://source.unsplash.com/random/300x300/?police,officer,1",
-  },
-  {
-    id: "2",
-    name: "Sarah Chen",
-    badgeNumber: "67890",
-    password: "password123",
-    role: "Detective",
-    avatar: "https://source.unsplash.com/random/300x300/?police,officer,2",
-  },
-];
+const SESSION_KEY = "session";
 
 export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
   const [officer, setOfficer] = useState<Officer | null>(null);
@@ -59,14 +34,39 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
 
   useEffect(() => {
     // Check if user is already logged in (from local storage)
-    const storedOfficer = localStorage.getItem("officer");
-    
-    if (storedOfficer) {
-      setOfficer(JSON.parse(storedOfficer));
-      setIsAuthenticated(true);
+    const storedSession = localStorage.getItem(SESSION_KEY);
+    // Sessions from before the backend adapter only stored the officer
+    localStorage.removeItem("officer");
+
+    if (!storedSession) {
+      setIsLoading(false);
+      return;
     }
-    
-    setIsLoading(false);
+
+    let session: AuthSession;
+    try {
+      session = JSON.parse(storedSession);
+    } catch (err) {
+      console.error("Stored session is unreadable:", err);
+      localStorage.removeItem(SESSION_KEY);
+      setIsLoading(false);
+      return;
+    }
+
+    backend.auth.restoreSession(session)
+      .then((restored) => {
+        if (restored) {
+          setOfficer(restored.officer);
+          setIsAuthenticated(true);
+          localStorage.setItem(SESSION_KEY, JSON.stringify(restored));
+        } else {
+          localStorage.removeItem(SESSION_KEY);
+        }
+      })
+      .catch((err) => {
+        console.error("Error restoring session:", err);
+      })
+      .finally(() => setIsLoading(false));
   }, []);
 
   const login = async (badgeNumber: string, password: string) => {
@@ -74,27 +74,16 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     setError(null);
     
     try {
-      // Simulate API call with timeout
-      await new Promise(resolve => setTimeout(resolve, 1000));
-      
-      const foundOfficer = MOCK_OFFICERS.find(
-        o => o.badgeNumber === badgeNumber && o.password === password
-      );
-      
-      if (!foundOfficer) {
-        throw new Error("Invalid badge number or password");
-      }
-      
-      const { password: _, ...officerWithoutPassword } = foundOfficer;
-      setOfficer(officerWithoutPassword);
+      const session = await backend.auth.signIn(badgeNumber, password);
+      setOfficer(session.officer);
       setIsAuthenticated(true);
       
       // Store in localStorage
-      localStorage.setItem("officer", JSON.stringify(officerWithoutPassword));
+      localStorage.setItem(SESSION_KEY, JSON.stringify(session));
       
       navigate("/dashboard");
-    } catch (err: any) {
-      setError(err.message);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Sign in failed");
       console.error("Login error:", err);
     } finally {
       setIsLoading(false);
@@ -104,7 +93,8 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
   const logout = () => {
     setOfficer(null);
     setIsAuthenticated(false);
-    localStorage.removeItem("officer");
+    localStorage.removeItem(SESSION_KEY);
+    backend.auth.signOut();
     navigate("/");
   };
 
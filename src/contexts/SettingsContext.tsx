@@ -0,0 +1,69 @@
+import React, { createContext, useContext, useState } from "react";
+import {
+  DEFAULT_SETTINGS,
+  Settings,
+  loadSettings,
+  parseSettings,
+  saveSettings
+} from "@/utils/settings";
+
+// Changes to some fields of any settings section
+export type SettingsUpdate = {
+  [Section in Exclude<keyof Settings, "version">]?: Partial<Settings[Section]>;
+};
+
+type SettingsContextType = {
+  settings: Settings;
+  updateSettings: (changes: SettingsUpdate) => void;
+  replaceSettings: (settings: Settings) => void;
+  resetSettings: () => void;
+};
+
+const defaultContext: SettingsContextType = {
+  settings: DEFAULT_SETTINGS,
+  updateSettings: () => {},
+  replaceSettings: () => {},
+  resetSettings: () => {},
+};
+
+const SettingsContext = createContext<SettingsContextType>(defaultContext);
+
+export const SettingsProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [settings, setSettings] = useState<Settings>(loadSettings);
+
+  // Validate and store the new settings before anything uses them
+  const replaceSettings = (next: Settings) => {
+    const validated = parseSettings(next);
+    saveSettings(validated);
+    setSettings(validated);
+  };
+
+  const updateSettings = (changes: SettingsUpdate) => {
+    replaceSettings({
+      ...settings,
+      detection: { ...settings.detection, ...changes.detection },
+      alerting: { ...settings.alerting, ...changes.alerting },
+      evidence: { ...settings.evidence, ...changes.evidence },
+      privacy: { ...settings.privacy, ...changes.privacy },
+      camera: { ...settings.camera, ...changes.camera },
+      health: { ...settings.health, ...changes.health },
+    });
+  };
+
+  const resetSettings = () => replaceSettings(DEFAULT_SETTINGS);
+
+  return (
+    <SettingsContext.Provider
+      value={{
+        settings,
+        updateSettings,
+        replaceSettings,
+        resetSettings,
+      }}
+    >
+      {children}
+    </SettingsContext.Provider>
+  );
+};
+
+export const useSettings = () => useContext(SettingsContext);
@@ -0,0 +1,33 @@
+import * as React from "react"
+import { CameraHealthMonitor, CameraHealthOptions, CameraHealthState } from "@/utils/cameraHealth"
+
+const HEALTHY: CameraHealthState = { issue: null, since: null }
+
+// Check the video's picture while it plays. Pass a null video, or enabled
+// false, to stop checking; the feed then counts as healthy.
+export function useCameraHealth(
+  video: HTMLVideoElement | null,
+  { enabled = true, ...options }: CameraHealthOptions & { enabled?: boolean } = {}
+) {
+  const [state, setState] = React.useState<CameraHealthState>(HEALTHY)
+  const optionsKey = JSON.stringify(options)
+
+  React.useEffect(() => {
+    if (!video || !enabled) {
+      setState(HEALTHY)
+      return
+    }
+
+    const monitor = new CameraHealthMonitor(video, JSON.parse(optionsKey))
+    const unsubscribe = monitor.subscribe(setState)
+    monitor.start()
+
+    return () => {
+      unsubscribe()
+      monitor.stop()
+      setState(HEALTHY)
+    }
+  }, [video, enabled, optionsKey])
+
+  return state
+}
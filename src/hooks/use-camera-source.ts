@@ -0,0 +1,51 @@
+import * as React from "react"
+import {
+  CameraSource,
+  CameraSourceState,
+  NetworkSourceConfig,
+  createCameraSource
+} from "@/utils/cameraSources"
+
+const IDLE_STATE: CameraSourceState = { status: "idle", error: null, attempts: 0 }
+
+// Play a network camera in the referenced video element while the calling
+// component is mounted. The connection is replaced when the config changes;
+// without a config nothing is played.
+export function useCameraSource(
+  videoRef: React.RefObject<HTMLVideoElement>,
+  config?: NetworkSourceConfig
+) {
+  const [state, setState] = React.useState<CameraSourceState>(IDLE_STATE)
+  const sourceRef = React.useRef<CameraSource | null>(null)
+  const configKey = config ? JSON.stringify(config) : null
+
+  React.useEffect(() => {
+    const video = videoRef.current
+    if (!configKey || !video) {
+      setState(IDLE_STATE)
+      return
+    }
+
+    const source = createCameraSource(JSON.parse(configKey))
+    sourceRef.current = source
+    const unsubscribe = source.subscribe(setState)
+    source.start(video)
+
+    return () => {
+      unsubscribe()
+      source.stop()
+      sourceRef.current = null
+    }
+  }, [configKey, videoRef])
+
+  const start = React.useCallback(() => {
+    const video = videoRef.current
+    if (video) sourceRef.current?.start(video)
+  }, [videoRef])
+
+  const stop = React.useCallback(() => {
+    sourceRef.current?.stop()
+  }, [])
+
+  return { ...state, start, stop }
+}
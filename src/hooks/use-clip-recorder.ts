@@ -0,0 +1,73 @@
+import * as React from "react"
+import { ClipRecorderOptions, RollingClipRecorder } from "@/utils/clipRecorder"
+import { BoundingBox } from "@/utils/handTracking"
+import { isRedacting, PrivacyFilter, RedactionOptions } from "@/utils/privacy"
+
+// The stream playing in the video. Videos that play a URL, such as HLS
+// cameras, are captured instead; owned is true for such captures, whose
+// tracks the caller has to stop.
+const videoStream = (video: HTMLVideoElement): { stream: MediaStream; owned: boolean } | null => {
+  if (video.srcObject instanceof MediaStream) return { stream: video.srcObject, owned: false }
+  const capturable = video as HTMLVideoElement & { captureStream?: () => MediaStream }
+  return video.currentSrc && capturable.captureStream ? { stream: capturable.captureStream(), owned: true } : null
+}
+
+type ClipRecorderHookOptions = ClipRecorderOptions & {
+  enabled?: boolean
+  // Record a redacted copy of the video instead, see privacy.ts
+  redaction?: RedactionOptions
+  // Hands making a gesture right now, whose owners stay unblurred in
+  // bystander mode
+  getSubjects?: () => BoundingBox[]
+}
+
+// Keep a rolling recording of the video's stream while it plays, so alerts
+// can attach the footage around them. Pass enabled false to record nothing.
+export function useClipRecorder(
+  video: HTMLVideoElement | null,
+  { enabled = true, preEventMs, postEventMs, redaction, getSubjects }: ClipRecorderHookOptions = {}
+) {
+  const [recorder, setRecorder] = React.useState<RollingClipRecorder | null>(null)
+  const getSubjectsRef = React.useRef(getSubjects)
+  getSubjectsRef.current = getSubjects
+  const redactionKey = redaction && isRedacting(redaction) ? JSON.stringify(redaction) : null
+  // Bumped when the video switches streams, e.g. a network camera reconnecting
+  const [streamVersion, setStreamVersion] = React.useState(0)
+
+  React.useEffect(() => {
+    if (!video) return
+    const handleChange = () => setStreamVersion(version => version + 1)
+    video.addEventListener("loadedmetadata", handleChange)
+    video.addEventListener("emptied", handleChange)
+
+    return () => {
+      video.removeEventListener("loadedmetadata", handleChange)
+      video.removeEventListener("emptied", handleChange)
+    }
+  }, [video])
+
+  React.useEffect(() => {
+    if (!video || !enabled || !RollingClipRecorder.isSupported()) return
+    const source = videoStream(video)
+    if (!source) return
+
+    const filter = redactionKey
+      ? new PrivacyFilter(video, { ...JSON.parse(redactionKey), getSubjects: () => getSubjectsRef.current?.() ?? [] })
+      : null
+    filter?.start()
+
+    const instance = new RollingClipRecorder(filter?.stream ?? source.stream, { preEventMs, postEventMs })
+    instance.start()
+    setRecorder(instance)
+
+    return () => {
+      setRecorder(null)
+      instance.stop()
+      filter?.stop()
+      // Leave the element's own stream alone; it belongs to the feed
+      if (source.owned) source.stream.getTracks().forEach(track => track.stop())
+    }
+  }, [video, streamVersion, enabled, preEventMs, postEventMs, redactionKey])
+
+  return recorder
+}
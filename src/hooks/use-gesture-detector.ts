@@ -0,0 +1,43 @@
+import * as React from "react"
+import { GestureDetector, GestureDetectorOptions } from "@/utils/gestureDetector"
+
+// Keep one gesture detector per key, creating detectors for new keys and
+// disposing of those whose key is gone. All of them are replaced when the
+// options change.
+export function useGestureDetectors(keys: string[], options?: GestureDetectorOptions) {
+  const [detectors, setDetectors] = React.useState<Record<string, GestureDetector>>({})
+  const instancesRef = React.useRef(new Map<string, GestureDetector>())
+  const keysKey = JSON.stringify(keys)
+  const optionsKey = JSON.stringify(options ?? {})
+
+  // Runs its cleanup before the effect below recreates the detectors
+  React.useEffect(() => {
+    const instances = instancesRef.current
+
+    return () => {
+      instances.forEach(instance => instance.dispose())
+      instances.clear()
+    }
+  }, [optionsKey])
+
+  React.useEffect(() => {
+    const instances = instancesRef.current
+    const wanted = new Set<string>(JSON.parse(keysKey))
+
+    instances.forEach((instance, key) => {
+      if (!wanted.has(key)) {
+        instance.dispose()
+        instances.delete(key)
+      }
+    })
+    wanted.forEach(key => {
+      if (!instances.has(key)) {
+        instances.set(key, new GestureDetector(JSON.parse(optionsKey)))
+      }
+    })
+
+    setDetectors(Object.fromEntries(instances))
+  }, [keysKey, optionsKey])
+
+  return detectors
+}
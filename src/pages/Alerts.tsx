@@ -0,0 +1,439 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { format } from "date-fns";
+import { DateRange } from "react-day-picker";
+import { ArrowDown, ArrowUp, ArrowUpDown, Bell, CalendarIcon, FileSpreadsheet, Package, Search, X } from "lucide-react";
+import { useAuth } from "@/contexts/AuthContext";
+import { useAlerts } from "@/contexts/AlertsContext";
+import Navbar from "@/components/Navbar";
+import AlertDetailSheet from "@/components/AlertDetailSheet";
+import EvidenceBundleDialog from "@/components/EvidenceBundleDialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import { Calendar } from "@/components/ui/calendar";
+import { Card, CardContent } from "@/components/ui/card";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from "@/components/ui/table";
+import {
+  Pagination,
+  PaginationContent,
+  PaginationEllipsis,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious
+} from "@/components/ui/pagination";
+import { useToast } from "@/hooks/use-toast";
+import { custodyLog } from "@/utils/custody";
+import {
+  ALERT_STATUSES,
+  ALERT_STATUS_ORDER,
+  GestureAlert,
+  exportToExcel,
+  formatDateTime,
+  getGestureColor,
+  getGestureDefinitions,
+  getGestureDisplayName
+} from "@/utils/gestureUtils";
+import {
+  AlertFilters,
+  AlertSort,
+  AlertSortKey,
+  DEFAULT_ALERT_FILTERS,
+  DEFAULT_ALERT_SORT,
+  getAlertLocations,
+  getPageWindow,
+  queryAlerts
+} from "@/utils/alertFilters";
+
+const PAGE_SIZE = 25;
+
+const Alerts = () => {
+  const { isAuthenticated, isLoading, officer } = useAuth();
+  const navigate = useNavigate();
+  const { alerts, isLoading: alertsLoading } = useAlerts();
+  const { toast } = useToast();
+  const [filters, setFilters] = useState<AlertFilters>(DEFAULT_ALERT_FILTERS);
+  const [sort, setSort] = useState<AlertSort>(DEFAULT_ALERT_SORT);
+  const [page, setPage] = useState(1);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [isBundleOpen, setIsBundleOpen] = useState(false);
+
+  useEffect(() => {
+    if (!isAuthenticated && !isLoading) {
+      navigate("/");
+    }
+  }, [isAuthenticated, isLoading, navigate]);
+
+  const results = useMemo(() => queryAlerts(alerts, filters, sort), [alerts, filters, sort]);
+  const locations = useMemo(() => getAlertLocations(alerts), [alerts]);
+  const gestureTypes = useMemo(() => {
+    const known = getGestureDefinitions()
+      .map(definition => definition.id)
+      .filter(id => id !== 'none');
+    // Alerts may name gestures that are no longer registered
+    return [...new Set([...known, ...alerts.map(alert => alert.gestureType)])];
+  }, [alerts]);
+
+  const pageCount = Math.max(1, Math.ceil(results.length / PAGE_SIZE));
+  const currentPage = Math.min(page, pageCount);
+  const pageAlerts = results.slice((currentPage - 1) * PAGE_SIZE, currentPage * PAGE_SIZE);
+  // Look the alert up again so the sheet follows changes to it
+  const selectedAlert = alerts.find(alert => alert.id === selectedId) ?? null;
+
+  const updateFilters = (changes: Partial<AlertFilters>) => {
+    setFilters(current => ({ ...current, ...changes }));
+    setPage(1);
+  };
+
+  const clearFilters = () => {
+    setFilters(DEFAULT_ALERT_FILTERS);
+    setPage(1);
+  };
+
+  const handleSort = (key: AlertSortKey) => {
+    setSort(current => current.key === key
+      ? { key, direction: current.direction === 'asc' ? 'desc' : 'asc' }
+      : { key, direction: key === 'timestamp' || key === 'confidence' ? 'desc' : 'asc' });
+  };
+
+  const handleDateRange = (range: DateRange | undefined) => {
+    updateFilters({ from: range?.from, to: range?.to ?? range?.from });
+  };
+
+  const handleExportToExcel = () => {
+    if (results.length === 0) {
+      toast({
+        title: "No data to export",
+        description: "No alerts match the current filters.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    exportToExcel(results);
+    results.forEach(alert => custodyLog.record(alert.id, 'exported', officer, "Excel spreadsheet"));
+
+    toast({
+      title: "Export Successful",
+      description: `${results.length} alert${results.length !== 1 ? 's' : ''} exported to Excel file.`,
+    });
+  };
+
+  const handleExportBundle = () => {
+    if (results.length === 0) {
+      toast({
+        title: "No data to export",
+        description: "No alerts match the current filters.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsBundleOpen(true);
+  };
+
+  const goToPage = (target: number, e: React.MouseEvent) => {
+    e.preventDefault();
+    setPage(Math.min(Math.max(1, target), pageCount));
+  };
+
+  const isFiltered = JSON.stringify(filters) !== JSON.stringify(DEFAULT_ALERT_FILTERS);
+
+  const renderSortableHead = (key: AlertSortKey, label: string, className = "") => (
+    <TableHead className={className}>
+      <Button variant="ghost" size="sm" className="-ml-3 h-8" onClick={() => handleSort(key)}>
+        {label}
+        {sort.key !== key ? (
+          <ArrowUpDown className="ml-1 h-3.5 w-3.5 opacity-50" />
+        ) : sort.direction === 'asc' ? (
+          <ArrowUp className="ml-1 h-3.5 w-3.5" />
+        ) : (
+          <ArrowDown className="ml-1 h-3.5 w-3.5" />
+        )}
+      </Button>
+    </TableHead>
+  );
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <div className="animate-pulse flex flex-col items-center">
+          <div className="h-8 w-8 bg-primary/50 rounded-full mb-4"></div>
+          <p className="text-muted-foreground">Loading...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen flex flex-col bg-background animate-fade-in">
+      <Navbar />
+
+      <main className="flex-1 container py-4 md:py-6 flex flex-col">
+        <div className="flex justify-between items-center mb-4">
+          <h1 className="text-2xl font-bold">Alerts</h1>
+          <div className="flex items-center gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              className="flex items-center"
+              onClick={handleExportBundle}
+            >
+              <Package className="mr-1 h-4 w-4" />
+              <span>Export evidence bundle</span>
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              className="flex items-center"
+              onClick={handleExportToExcel}
+            >
+              <FileSpreadsheet className="mr-1 h-4 w-4" />
+              <span>Export to Excel</span>
+            </Button>
+          </div>
+        </div>
+
+        <Card className="mb-4">
+          <CardContent className="p-4 grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+            <div className="space-y-1.5 lg:col-span-2">
+              <Label htmlFor="alert-search">Search</Label>
+              <div className="relative">
+                <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+                <Input
+                  id="alert-search"
+                  placeholder="Notes, officer, location or alert ID"
+                  className="pl-8"
+                  value={filters.search}
+                  onChange={(e) => updateFilters({ search: e.target.value })}
+                />
+              </div>
+            </div>
+
+            <div className="space-y-1.5">
+              <Label>Date range</Label>
+              <Popover>
+                <PopoverTrigger asChild>
+                  <Button variant="outline" className="w-full justify-start font-normal">
+                    <CalendarIcon className="mr-2 h-4 w-4" />
+                    {filters.from ? (
+                      filters.to && filters.to.getTime() !== filters.from.getTime()
+                        ? `${format(filters.from, "MMM d")} – ${format(filters.to, "MMM d, yyyy")}`
+                        : format(filters.from, "MMM d, yyyy")
+                    ) : (
+                      <span className="text-muted-foreground">Any date</span>
+                    )}
+                  </Button>
+                </PopoverTrigger>
+                <PopoverContent className="w-auto p-0" align="start">
+                  <Calendar
+                    mode="range"
+                    selected={{ from: filters.from, to: filters.to }}
+                    onSelect={handleDateRange}
+                    numberOfMonths={2}
+                    initialFocus
+                  />
+                </PopoverContent>
+              </Popover>
+            </div>
+
+            <div className="space-y-1.5">
+              <Label>Minimum confidence: {(filters.minConfidence * 100).toFixed(0)}%</Label>
+              <Slider
+                className="py-2.5"
+                min={0}
+                max={100}
+                step={5}
+                value={[filters.minConfidence * 100]}
+                onValueChange={([value]) => updateFilters({ minConfidence: value / 100 })}
+              />
+            </div>
+
+            <div className="space-y-1.5">
+              <Label>Gesture</Label>
+              <Select value={filters.gestureType} onValueChange={(value) => updateFilters({ gestureType: value })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All gestures</SelectItem>
+                  {gestureTypes.map(gesture => (
+                    <SelectItem key={gesture} value={gesture}>
+                      {getGestureDisplayName(gesture)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-1.5">
+              <Label>Camera location</Label>
+              <Select value={filters.location} onValueChange={(value) => updateFilters({ location: value })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All locations</SelectItem>
+                  {locations.map(location => (
+                    <SelectItem key={location} value={location}>{location}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-1.5">
+              <Label>Status</Label>
+              <Select
+                value={filters.status}
+                onValueChange={(value) => updateFilters({ status: value as AlertFilters['status'] })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All statuses</SelectItem>
+                  {ALERT_STATUS_ORDER.map(status => (
+                    <SelectItem key={status} value={status}>{ALERT_STATUSES[status].label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="flex items-end">
+              <Button
+                variant="ghost"
+                className="w-full"
+                disabled={!isFiltered}
+                onClick={clearFilters}
+              >
+                <X className="mr-1 h-4 w-4" />
+                Clear filters
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                {renderSortableHead('timestamp', 'Time')}
+                {renderSortableHead('gestureType', 'Gesture')}
+                {renderSortableHead('confidence', 'Confidence', 'text-right')}
+                {renderSortableHead('location', 'Location', 'hidden md:table-cell')}
+                {renderSortableHead('status', 'Status')}
+                <TableHead className="hidden lg:table-cell">Last note</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {pageAlerts.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="h-32 text-center text-muted-foreground">
+                    <Bell className="h-8 w-8 mx-auto mb-2 opacity-30" />
+                    {alertsLoading
+                      ? "Loading alerts..."
+                      : alerts.length === 0
+                        ? "No alerts recorded yet"
+                        : "No alerts match these filters"}
+                  </TableCell>
+                </TableRow>
+              ) : (
+                pageAlerts.map((alert: GestureAlert) => {
+                  const lastNote = [...alert.transitions].reverse().find(transition => transition.note)?.note;
+                  return (
+                    <TableRow
+                      key={alert.id}
+                      className="cursor-pointer"
+                      onClick={() => setSelectedId(alert.id)}
+                    >
+                      <TableCell className="whitespace-nowrap">{formatDateTime(alert.timestamp, 'short')}</TableCell>
+                      <TableCell className={`font-medium ${getGestureColor(alert.gestureType)}`}>
+                        {getGestureDisplayName(alert.gestureType)}
+                      </TableCell>
+                      <TableCell className="text-right">{(alert.confidence * 100).toFixed(0)}%</TableCell>
+                      <TableCell className="hidden md:table-cell">{alert.location}</TableCell>
+                      <TableCell>
+                        <Badge variant="outline" className={ALERT_STATUSES[alert.status].badgeClass}>
+                          {ALERT_STATUSES[alert.status].label}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="hidden lg:table-cell max-w-[240px] truncate text-muted-foreground">
+                        {lastNote ?? ""}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })
+              )}
+            </TableBody>
+          </Table>
+        </div>
+
+        <div className="flex flex-col md:flex-row items-center justify-between gap-2 mt-4">
+          <p className="text-sm text-muted-foreground">
+            {results.length === 0
+              ? "No alerts"
+              : `Showing ${(currentPage - 1) * PAGE_SIZE + 1}–${Math.min(currentPage * PAGE_SIZE, results.length)} of ${results.length} alerts`}
+          </p>
+          {pageCount > 1 && (
+            <Pagination className="mx-0 w-auto">
+              <PaginationContent>
+                <PaginationItem>
+                  <PaginationPrevious href="#" onClick={(e) => goToPage(currentPage - 1, e)} />
+                </PaginationItem>
+                {getPageWindow(currentPage, pageCount).map((pageNumber, index) => (
+                  <PaginationItem key={pageNumber ?? `gap-${index}`}>
+                    {pageNumber === null ? (
+                      <PaginationEllipsis />
+                    ) : (
+                      <PaginationLink
+                        href="#"
+                        isActive={pageNumber === currentPage}
+                        onClick={(e) => goToPage(pageNumber, e)}
+                      >
+                        {pageNumber}
+                      </PaginationLink>
+                    )}
+                  </PaginationItem>
+                ))}
+                <PaginationItem>
+                  <PaginationNext href="#" onClick={(e) => goToPage(currentPage + 1, e)} />
+                </PaginationItem>
+              </PaginationContent>
+            </Pagination>
+          )}
+        </div>
+      </main>
+
+      <AlertDetailSheet
+        alert={selectedAlert}
+        onOpenChange={(open) => !open && setSelectedId(null)}
+      />
+
+      <EvidenceBundleDialog
+        open={isBundleOpen}
+        onOpenChange={setIsBundleOpen}
+        alerts={results}
+      />
+    </div>
+  );
+};
+
+export default Alerts;
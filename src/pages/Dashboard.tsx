@@ -2,24 +2,75 @@
 import React, { useState, useRef, useEffect } from "react";
 import { useNavigate } from "react-router-dom";
 import { useAuth } from "@/contexts/AuthContext";
+import { useAlerts } from "@/contexts/AlertsContext";
+import { useSettings } from "@/contexts/SettingsContext";
 import Navbar from "@/components/Navbar";
-import WebcamFeed from "@/components/WebcamFeed";
+import CameraGrid from "@/components/CameraGrid";
+import CameraDialog from "@/components/CameraDialog";
 import GestureDetection from "@/components/GestureDetection";
 import AlertHistory from "@/components/AlertHistory";
-import { GestureAlert, generateMockAlerts, exportAlertsToExcel, resetDetectionCooldown } from "@/utils/gestureUtils";
+import {
+  ALERT_STATUSES,
+  AlertStatus,
+  GestureAlert,
+  exportToExcel,
+  isEmergencyGesture,
+  getGestureDisplayName
+} from "@/utils/gestureUtils";
+import {
+  CameraConfig,
+  createCamera,
+  getCameraDevice,
+  getCameraLocation,
+  getCameraName,
+  loadCameras,
+  saveCameras
+} from "@/utils/cameras";
+import { CAMERA_HEALTH_ISSUES, CameraHealthIssue } from "@/utils/cameraHealth";
+import { CameraZone, getPrivacyMasks } from "@/utils/zones";
+import { custodyLog } from "@/utils/custody";
 import { Button } from "@/components/ui/button";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Plus, Camera, FileSpreadsheet, RefreshCw, AlertTriangle } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { useIsMobile } from "@/hooks/use-mobile";
+import { useGestureDetectors } from "@/hooks/use-gesture-detector";
 
 const Dashboard = () => {
-  const { isAuthenticated, isLoading } = useAuth();
+  const { isAuthenticated, isLoading, officer } = useAuth();
   const navigate = useNavigate();
   const [webcams, setWebcams] = useState<MediaDeviceInfo[]>([]);
-  const [activeVideoRef, setActiveVideoRef] = useState<HTMLVideoElement | null>(null);
-  const [alerts, setAlerts] = useState<GestureAlert[]>([]);
+  const [cameras, setCameras] = useState<CameraConfig[]>(loadCameras);
+  const [videoRefs, setVideoRefs] = useState<Record<string, HTMLVideoElement | null>>({});
+  const [selectedCameraId, setSelectedCameraId] = useState<string | null>(null);
+  const [cameraDialogOpen, setCameraDialogOpen] = useState(false);
+  const [editingCameraId, setEditingCameraId] = useState<string | null>(null);
+  // Devices the feeds actually opened; the default camera has no device
+  // until it is running
+  const [openedDevices, setOpenedDevices] = useState<Record<string, string>>({});
+  // What is wrong with each feed's picture, if anything
+  const [cameraHealth, setCameraHealth] = useState<Record<string, CameraHealthIssue | null>>({});
+  const { alerts, addAlert, updateAlert, transitionAlert, deleteAlert } = useAlerts();
   const { toast } = useToast();
   const isMobile = useIsMobile();
+  const { settings } = useSettings();
+  // One detector per camera, so every feed is watched independently
+  const detectors = useGestureDetectors(cameras.map(camera => camera.id), {
+    useWorker: settings.detection.useWorker,
+    maxNumHands: settings.detection.maxHands,
+    smoothing: settings.detection.smoothing ? undefined : false,
+  });
+  const usedDeviceIds = cameras
+    .map(camera => camera.deviceId ?? openedDevices[camera.id])
+    .filter((id): id is string => !!id);
+  const activeCameraId = cameras.some(camera => camera.id === selectedCameraId)
+    ? selectedCameraId!
+    : cameras[0]?.id;
+
+  // Each detector only watches its camera's zones
+  useEffect(() => {
+    cameras.forEach(camera => detectors[camera.id]?.setZones(camera.zones ?? []));
+  }, [cameras, detectors]);
 
   useEffect(() => {
     if (!isAuthenticated && !isLoading) {
@@ -28,9 +79,6 @@ const Dashboard = () => {
   }, [isAuthenticated, isLoading, navigate]);
 
   useEffect(() => {
-    // Load mock alerts
-    setAlerts(generateMockAlerts(5));
-    
     // Get available webcams
     const getWebcams = async () => {
       try {
@@ -43,43 +91,105 @@ const Dashboard = () => {
     };
     
     getWebcams();
+    // Labels only become available once camera access is granted
+    navigator.mediaDevices?.addEventListener("devicechange", getWebcams);
+    return () => navigator.mediaDevices?.removeEventListener("devicechange", getWebcams);
   }, []);
 
-  const handleVideoRef = (ref: HTMLVideoElement | null) => {
-    setActiveVideoRef(ref);
+  const updateCameras = (update: (current: CameraConfig[]) => CameraConfig[]) => {
+    setCameras(current => {
+      const next = update(current);
+      saveCameras(next);
+      return next;
+    });
+  };
+
+  const handleVideoRef = (cameraId: string, ref: HTMLVideoElement | null) => {
+    setVideoRefs(current => (current[cameraId] === ref ? current : { ...current, [cameraId]: ref }));
+  };
+
+  const handleZonesChange = (cameraId: string, zones: CameraZone[]) => {
+    updateCameras(current => current.map(camera => (camera.id === cameraId ? { ...camera, zones } : camera)));
+  };
+
+  const handleHealthChange = (cameraId: string, issue: CameraHealthIssue | null) => {
+    setCameraHealth(current => (current[cameraId] === issue ? current : { ...current, [cameraId]: issue }));
+  };
+
+  // Name a camera after the device it opened, unless it already has a name
+  const handleDeviceInfo = (cameraId: string, deviceId: string | undefined, label: string) => {
+    if (deviceId) {
+      setOpenedDevices(current => ({ ...current, [cameraId]: deviceId }));
+    }
+    if (label && cameras.some(camera => camera.id === cameraId && !camera.name)) {
+      updateCameras(current => current.map(camera =>
+        camera.id === cameraId && !camera.name ? { ...camera, name: label } : camera
+      ));
+    }
+
+    // The device list gains labels after the first camera is allowed
+    navigator.mediaDevices.enumerateDevices()
+      .then(devices => setWebcams(devices.filter(device => device.kind === "videoinput")))
+      .catch(() => undefined);
   };
 
   const handleGestureDetected = (alert: GestureAlert) => {
-    // Add the alert to history
-    setAlerts(prev => [alert, ...prev]);
+    // Add the alert to the stored history
+    addAlert(alert).catch(() => {
+      toast({
+        title: "Alert Not Saved",
+        description: "The alert could not be stored in this browser.",
+        variant: "destructive",
+      });
+    });
     
-    // Show toast for victory gesture with high confidence
-    if (alert.gestureType === "victory" && alert.confidence > 0.7) {
+    // Show toast for emergency gestures with high confidence, and bring up
+    // the detection panel of the camera that saw it
+    if (isEmergencyGesture(alert.gestureType) && alert.confidence > 0.7) {
+      if (alert.cameraId) {
+        setSelectedCameraId(alert.cameraId);
+      }
+
       toast({
         title: "🚨 Emergency Alert",
-        description: `Victory sign detected with ${(alert.confidence * 100).toFixed(0)}% confidence. Evidence captured.`,
+        description: alert.healthIssue
+          ? `${alert.cameraName ?? alert.location}: ${CAMERA_HEALTH_ISSUES[alert.healthIssue].description}.`
+          : `${getGestureDisplayName(alert.gestureType)} detected on ${alert.cameraName ?? alert.location} with ${(alert.confidence * 100).toFixed(0)}% confidence. Evidence captured.`,
         variant: "destructive",
       });
     }
   };
 
-  const handleProcessAlert = (alertId: string) => {
-    setAlerts(prev => 
-      prev.map(alert => 
-        alert.id === alertId 
-          ? { ...alert, processed: true } 
-          : alert
-      )
-    );
+  const handleAlertUpdated = (alertId: string, changes: Partial<GestureAlert>) => {
+    updateAlert(alertId, changes).catch(() => undefined);
+  };
+
+  const handleTransitionAlert = async (alertId: string, status: AlertStatus, note?: string) => {
+    if (!officer) return;
+
+    try {
+      await transitionAlert(alertId, status, officer, note);
+    } catch (error) {
+      toast({
+        title: "Alert Not Updated",
+        description: error instanceof Error ? error.message : "The alert could not be updated.",
+        variant: "destructive",
+      });
+      throw error;
+    }
     
     toast({
-      title: "Alert Processed",
-      description: "The alert has been marked as processed.",
+      title: "Alert Updated",
+      description: `The alert has been marked as ${ALERT_STATUSES[status].label.toLowerCase()}.`,
     });
   };
 
-  const handleDeleteAlert = (alertId: string) => {
-    setAlerts(prev => prev.filter(alert => alert.id !== alertId));
+  const handleDeleteAlert = async (alertId: string) => {
+    try {
+      await deleteAlert(alertId);
+    } catch {
+      return;
+    }
     
     toast({
       title: "Alert Deleted",
@@ -88,10 +198,48 @@ const Dashboard = () => {
   };
 
   const handleAddWebcam = () => {
-    toast({
-      title: "Feature Coming Soon",
-      description: "Support for multiple webcams will be available in the next update.",
-    });
+    setEditingCameraId(null);
+    setCameraDialogOpen(true);
+  };
+
+  const handleEditCamera = (cameraId: string) => {
+    setEditingCameraId(cameraId);
+    setCameraDialogOpen(true);
+  };
+
+  const handleSaveCamera = (values: Pick<CameraConfig, "deviceId" | "source" | "name" | "location">) => {
+    if (editingCameraId) {
+      updateCameras(current => current.map(camera =>
+        camera.id === editingCameraId
+          ? { ...camera, name: values.name, location: values.location, source: values.source ?? camera.source }
+          : camera
+      ));
+      return;
+    }
+
+    const camera = createCamera(values.deviceId, values.name, values.location, values.source);
+    updateCameras(current => [...current, camera]);
+    setSelectedCameraId(camera.id);
+  };
+
+  const handleRemoveCamera = (cameraId: string) => {
+    updateCameras(current => current.filter(camera => camera.id !== cameraId));
+    setVideoRefs(({ [cameraId]: _removed, ...rest }) => rest);
+    setOpenedDevices(({ [cameraId]: _removed, ...rest }) => rest);
+    setCameraHealth(({ [cameraId]: _removed, ...rest }) => rest);
+  };
+
+  // Open a connected device as a feed, or show it if it already has one
+  const handleSelectWebcam = (device: MediaDeviceInfo, index: number) => {
+    const existing = cameras.find(camera => (camera.deviceId ?? openedDevices[camera.id]) === device.deviceId);
+    if (existing) {
+      setSelectedCameraId(existing.id);
+      return;
+    }
+
+    const camera = createCamera(device.deviceId, device.label || `Camera ${index + 1}`);
+    updateCameras(current => [...current, camera]);
+    setSelectedCameraId(camera.id);
   };
 
   const handleExportToExcel = () => {
@@ -104,7 +252,8 @@ const Dashboard = () => {
       return;
     }
     
-    exportAlertsToExcel(alerts);
+    exportToExcel(alerts);
+    alerts.forEach(alert => custodyLog.record(alert.id, 'exported', officer, "Excel spreadsheet"));
     
     toast({
       title: "Export Successful",
@@ -113,7 +262,7 @@ const Dashboard = () => {
   };
   
   const handleResetDetection = () => {
-    resetDetectionCooldown();
+    Object.values(detectors).forEach(detector => detector.resetCooldown());
     
     toast({
       title: "Detection Reset",
@@ -183,41 +332,75 @@ const Dashboard = () => {
 
         <div className={`grid ${isMobile ? 'grid-cols-1' : 'grid-cols-3'} gap-4 mb-4`}>
           <div className={`${isMobile ? '' : 'col-span-2'}`}>
-            <WebcamFeed 
-              feedName="Primary Camera"
-              onVideoRef={handleVideoRef}
-            />
+            {cameras.length > 0 ? (
+              <CameraGrid
+                cameras={cameras}
+                detectors={detectors}
+                columns={isMobile || cameras.length === 1 ? 1 : 2}
+                rowHeight={cameras.length === 1 ? 520 : 360}
+                onVideoRef={handleVideoRef}
+                onDeviceInfo={handleDeviceInfo}
+                onHealthChange={handleHealthChange}
+                onZonesChange={handleZonesChange}
+                onEditCamera={handleEditCamera}
+                onRemoveCamera={handleRemoveCamera}
+              />
+            ) : (
+              <div className="h-[360px] border rounded-lg flex flex-col items-center justify-center text-muted-foreground">
+                <Camera className="h-8 w-8 mb-2 opacity-30" />
+                <p className="mb-3">No cameras on the dashboard</p>
+                <Button variant="outline" size="sm" onClick={handleAddWebcam}>
+                  <Plus className="mr-1 h-4 w-4" />
+                  Add Camera
+                </Button>
+              </div>
+            )}
           </div>
           
-          {!isMobile && (
-            <div className="space-y-4">
-              <GestureDetection 
-                videoRef={activeVideoRef} 
-                onGestureDetected={handleGestureDetected}
-              />
-              <AlertHistory 
-                alerts={alerts}
-                onProcessAlert={handleProcessAlert}
-                onDeleteAlert={handleDeleteAlert}
-              />
-            </div>
-          )}
-        </div>
-        
-        {isMobile && (
-          <div className="space-y-4 mb-4">
-            <GestureDetection 
-              videoRef={activeVideoRef}
-              onGestureDetected={handleGestureDetected}
-            />
+          <div className="space-y-4">
+            {cameras.length > 0 && (
+              <Tabs value={activeCameraId} onValueChange={setSelectedCameraId}>
+                {cameras.length > 1 && (
+                  <TabsList className="w-full justify-start overflow-x-auto mb-2">
+                    {cameras.map((camera, index) => (
+                      <TabsTrigger key={camera.id} value={camera.id} className="text-xs">
+                        {getCameraName(camera, index)}
+                      </TabsTrigger>
+                    ))}
+                  </TabsList>
+                )}
+                {/* Every camera's detection keeps running while its tab is hidden */}
+                {cameras.map((camera, index) => (
+                  <TabsContent
+                    key={camera.id}
+                    value={camera.id}
+                    forceMount
+                    className="mt-0 data-[state=inactive]:hidden"
+                  >
+                    <GestureDetection 
+                      videoRef={videoRefs[camera.id] ?? null}
+                      detector={detectors[camera.id] ?? null}
+                      cameraId={camera.id}
+                      cameraName={getCameraName(camera, index)}
+                      location={getCameraLocation(camera, index)}
+                      device={getCameraDevice(camera)}
+                      healthIssue={cameraHealth[camera.id] ?? null}
+                      privacyMasks={getPrivacyMasks(camera.zones ?? [])}
+                      onGestureDetected={handleGestureDetected}
+                      onAlertUpdated={handleAlertUpdated}
+                    />
+                  </TabsContent>
+                ))}
+              </Tabs>
+            )}
             <AlertHistory 
               alerts={alerts}
-              onProcessAlert={handleProcessAlert}
+              onTransitionAlert={handleTransitionAlert}
               onDeleteAlert={handleDeleteAlert}
-              maxHeight={300}
+              maxHeight={isMobile ? 300 : 350}
             />
           </div>
-        )}
+        </div>
         
         <div className="p-4 bg-card border rounded-lg shadow-sm flex flex-col md:flex-row justify-between items-start md:items-center space-y-2 md:space-y-0">
           <div>
@@ -232,13 +415,15 @@ const Dashboard = () => {
             {webcams.length > 0 ? (
               webcams.map((webcam, index) => (
                 <Button
-                  key={webcam.deviceId}
-                  variant="outline"
+                  key={webcam.deviceId || index}
+                  variant={usedDeviceIds.includes(webcam.deviceId) ? "secondary" : "outline"}
                   size="sm"
                   className="text-xs flex items-center"
+                  onClick={() => handleSelectWebcam(webcam, index)}
+                  title={webcam.label || undefined}
                 >
                   <Camera className="mr-1 h-3 w-3" />
-                  <span>Camera {index + 1}</span>
+                  <span>{webcam.label || `Camera ${index + 1}`}</span>
                 </Button>
               ))
             ) : (
@@ -255,6 +440,15 @@ const Dashboard = () => {
           </div>
         </div>
       </main>
+
+      <CameraDialog
+        open={cameraDialogOpen}
+        onOpenChange={setCameraDialogOpen}
+        camera={cameras.find(camera => camera.id === editingCameraId) ?? null}
+        devices={webcams}
+        usedDeviceIds={usedDeviceIds}
+        onSave={handleSaveCamera}
+      />
     </div>
   );
 };
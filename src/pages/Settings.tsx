@@ -0,0 +1,452 @@
+import React, { useEffect, useRef } from "react";
+import { useNavigate } from "react-router-dom";
+import { Path, useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Download, RotateCcw, Save, Upload } from "lucide-react";
+import { useAuth } from "@/contexts/AuthContext";
+import { useSettings } from "@/contexts/SettingsContext";
+import Navbar from "@/components/Navbar";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage
+} from "@/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import {
+  CAMERA_RESOLUTIONS,
+  DEFAULT_SETTINGS,
+  Settings as SettingsValues,
+  SettingsError,
+  parseSettingsJson,
+  settingsSchema,
+  settingsToJson
+} from "@/utils/settings";
+import { FACE_BLUR_MODES, FaceBlurMode } from "@/utils/privacy";
+
+type NumberFieldProps = {
+  name: Path<SettingsValues>;
+  label: string;
+  description: string;
+  step?: number;
+};
+
+type SwitchFieldProps = {
+  name: Path<SettingsValues>;
+  label: string;
+  description: string;
+};
+
+const Settings = () => {
+  const { isAuthenticated, isLoading } = useAuth();
+  const navigate = useNavigate();
+  const { settings, replaceSettings } = useSettings();
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+  const form = useForm<SettingsValues>({
+    resolver: zodResolver(settingsSchema),
+    defaultValues: settings,
+  });
+
+  useEffect(() => {
+    if (!isAuthenticated && !isLoading) {
+      navigate("/");
+    }
+  }, [isAuthenticated, isLoading, navigate]);
+
+  const handleSave = (values: SettingsValues) => {
+    replaceSettings(values);
+    form.reset(values);
+
+    toast({
+      title: "Settings Saved",
+      description: "The new settings apply to this workstation straight away.",
+    });
+  };
+
+  const handleRestoreDefaults = () => {
+    form.reset(DEFAULT_SETTINGS, { keepDefaultValues: true });
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([settingsToJson(settings)], { type: "application/json" });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `gesture-settings-${new Date().toISOString().slice(0, 10)}.json`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    try {
+      const imported = parseSettingsJson(await file.text());
+      replaceSettings(imported);
+      form.reset(imported);
+
+      toast({
+        title: "Settings Imported",
+        description: `Settings from ${file.name} are now in use.`,
+      });
+    } catch (error) {
+      const issues = error instanceof SettingsError ? error.issues : [];
+      toast({
+        title: "Import Failed",
+        description: [
+          error instanceof Error ? error.message : "The file could not be read.",
+          ...issues.slice(0, 3),
+        ].join(" "),
+        variant: "destructive",
+      });
+    }
+  };
+
+  const renderNumberField = ({ name, label, description, step = 1 }: NumberFieldProps) => (
+    <FormField
+      control={form.control}
+      name={name}
+      render={({ field }) => (
+        <FormItem>
+          <FormLabel>{label}</FormLabel>
+          <FormControl>
+            <Input
+              type="number"
+              step={step}
+              name={field.name}
+              ref={field.ref}
+              onBlur={field.onBlur}
+              value={Number.isNaN(field.value) ? "" : String(field.value)}
+              onChange={(e) => field.onChange(e.target.valueAsNumber)}
+            />
+          </FormControl>
+          <FormDescription>{description}</FormDescription>
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  );
+
+  const renderSwitchField = ({ name, label, description }: SwitchFieldProps) => (
+    <FormField
+      control={form.control}
+      name={name}
+      render={({ field }) => (
+        <FormItem className="flex flex-row items-center justify-between gap-4 rounded-lg border p-3">
+          <div className="space-y-0.5">
+            <FormLabel>{label}</FormLabel>
+            <FormDescription>{description}</FormDescription>
+          </div>
+          <FormControl>
+            <Switch checked={field.value === true} onCheckedChange={field.onChange} />
+          </FormControl>
+        </FormItem>
+      )}
+    />
+  );
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <div className="animate-pulse flex flex-col items-center">
+          <div className="h-8 w-8 bg-primary/50 rounded-full mb-4"></div>
+          <p className="text-muted-foreground">Loading...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen flex flex-col bg-background animate-fade-in">
+      <Navbar />
+
+      <main className="flex-1 container py-4 md:py-6 flex flex-col max-w-4xl">
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(handleSave)} className="space-y-4">
+            <div className="flex flex-wrap justify-between items-center gap-2">
+              <h1 className="text-2xl font-bold">Settings</h1>
+              <div className="flex flex-wrap gap-2">
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  accept="application/json,.json"
+                  className="hidden"
+                  onChange={handleImport}
+                />
+                <Button type="button" variant="outline" size="sm" onClick={() => fileInputRef.current?.click()}>
+                  <Upload className="mr-1 h-4 w-4" />
+                  Import JSON
+                </Button>
+                <Button type="button" variant="outline" size="sm" onClick={handleExport}>
+                  <Download className="mr-1 h-4 w-4" />
+                  Export JSON
+                </Button>
+                <Button type="button" variant="outline" size="sm" onClick={handleRestoreDefaults}>
+                  <RotateCcw className="mr-1 h-4 w-4" />
+                  Restore defaults
+                </Button>
+                <Button type="submit" size="sm" disabled={!form.formState.isDirty}>
+                  <Save className="mr-1 h-4 w-4" />
+                  Save
+                </Button>
+              </div>
+            </div>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">Detection</CardTitle>
+                <CardDescription>How the camera feed is checked for gestures.</CardDescription>
+              </CardHeader>
+              <CardContent className="grid gap-4 md:grid-cols-2">
+                {renderNumberField({
+                  name: "detection.intervalMs",
+                  label: "Detection interval (ms)",
+                  description: "Time between checked frames. Lower is faster but uses more CPU.",
+                })}
+                <FormField
+                  control={form.control}
+                  name="detection.sensitivity"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Sensitivity</FormLabel>
+                      <Select value={field.value} onValueChange={field.onChange}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value="low">Low</SelectItem>
+                          <SelectItem value="medium">Medium</SelectItem>
+                          <SelectItem value="high">High</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <FormDescription>Higher sensitivity reacts faster but raises more false alerts.</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                {renderNumberField({
+                  name: "detection.maxHands",
+                  label: "Hands tracked",
+                  description: "Up to 4 hands are tracked at once.",
+                })}
+                <div className="space-y-3">
+                  {renderSwitchField({
+                    name: "detection.useWorker",
+                    label: "Background processing",
+                    description: "Run the hand model in a worker so the page stays responsive.",
+                  })}
+                  {renderSwitchField({
+                    name: "detection.smoothing",
+                    label: "Landmark smoothing",
+                    description: "Reduce jitter in the tracked hand positions.",
+                  })}
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">Alerting</CardTitle>
+                <CardDescription>When an emergency gesture raises an alert.</CardDescription>
+              </CardHeader>
+              <CardContent className="grid gap-4 md:grid-cols-2">
+                {renderNumberField({
+                  name: "alerting.confidenceThreshold",
+                  label: "Confidence threshold",
+                  description: "Minimum confidence, from 0 to 1, for an alert.",
+                  step: 0.05,
+                })}
+                {renderNumberField({
+                  name: "alerting.cooldownMs",
+                  label: "Cooldown (ms)",
+                  description: "Detection pauses this long after every alert.",
+                })}
+                {renderNumberField({
+                  name: "alerting.realertWindowMs",
+                  label: "Re-alert window (ms)",
+                  description: "The same gesture only raises a new alert after this long.",
+                })}
+                {renderSwitchField({
+                  name: "alerting.autoDownloadImages",
+                  label: "Download alert images",
+                  description: "Save every alert's image to this computer's downloads.",
+                })}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">Evidence</CardTitle>
+                <CardDescription>What is captured with each alert.</CardDescription>
+              </CardHeader>
+              <CardContent className="grid gap-4 md:grid-cols-2">
+                <div className="md:col-span-2">
+                  {renderSwitchField({
+                    name: "evidence.recordClips",
+                    label: "Record video clips",
+                    description: "Attach the footage from around each alert.",
+                  })}
+                </div>
+                {renderNumberField({
+                  name: "evidence.preEventSeconds",
+                  label: "Seconds before the alert",
+                  description: "Footage kept from before the gesture, up to 60 seconds.",
+                })}
+                {renderNumberField({
+                  name: "evidence.postEventSeconds",
+                  label: "Seconds after the alert",
+                  description: "Footage recorded after the gesture, up to 60 seconds.",
+                })}
+                {renderNumberField({
+                  name: "evidence.imageQuality",
+                  label: "Image quality",
+                  description: "JPEG quality of captured images, from 0.1 to 1.",
+                  step: 0.05,
+                })}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">Privacy</CardTitle>
+                <CardDescription>
+                  What is hidden in images and clips before they leave the app. Privacy masks are drawn on each camera.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="grid gap-4 md:grid-cols-2">
+                <FormField
+                  control={form.control}
+                  name="privacy.blurFaces"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Blur faces</FormLabel>
+                      <Select value={field.value} onValueChange={field.onChange}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {(Object.keys(FACE_BLUR_MODES) as FaceBlurMode[]).map(mode => (
+                            <SelectItem key={mode} value={mode}>{FACE_BLUR_MODES[mode].label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormDescription>{FACE_BLUR_MODES[field.value].description}.</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <div className="md:col-span-2">
+                  {renderSwitchField({
+                    name: "privacy.keepOriginals",
+                    label: "Keep unredacted originals",
+                    description: "Store the original image and clip encrypted on this workstation.",
+                  })}
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">Camera</CardTitle>
+                <CardDescription>What is requested from the camera. It may not support every option.</CardDescription>
+              </CardHeader>
+              <CardContent className="grid gap-4 md:grid-cols-2">
+                <FormField
+                  control={form.control}
+                  name="camera.resolution"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Resolution</FormLabel>
+                      <Select value={field.value} onValueChange={field.onChange}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {Object.entries(CAMERA_RESOLUTIONS).map(([resolution, { width, height }]) => (
+                            <SelectItem key={resolution} value={resolution}>
+                              {resolution} ({width}×{height})
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                {renderNumberField({
+                  name: "camera.frameRate",
+                  label: "Frame rate",
+                  description: "Frames per second, from 5 to 60.",
+                })}
+                {renderSwitchField({
+                  name: "camera.showOverlay",
+                  label: "Show hand overlay",
+                  description: "Draw tracked hands over the feed by default.",
+                })}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">Camera Health</CardTitle>
+                <CardDescription>When a frozen, black, covered or blurred feed raises a camera tamper alert.</CardDescription>
+              </CardHeader>
+              <CardContent className="grid gap-4 md:grid-cols-2">
+                <div className="md:col-span-2">
+                  {renderSwitchField({
+                    name: "health.enabled",
+                    label: "Check camera health",
+                    description: "Watch every live feed for pictures detection can't see through.",
+                  })}
+                </div>
+                {renderNumberField({
+                  name: "health.graceSeconds",
+                  label: "Seconds before alerting",
+                  description: "How long a problem must last, from 1 to 120 seconds.",
+                })}
+                {renderNumberField({
+                  name: "health.blackLevel",
+                  label: "Black level",
+                  description: "Average brightness (0-255) below which a picture is black, up to 128.",
+                })}
+                {renderNumberField({
+                  name: "health.blurThreshold",
+                  label: "Blur threshold",
+                  description: "Sharpness below which a picture is blurred; 0 turns the check off.",
+                  step: 0.5,
+                })}
+              </CardContent>
+            </Card>
+          </form>
+        </Form>
+      </main>
+    </div>
+  );
+};
+
+export default Settings;
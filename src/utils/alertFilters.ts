@@ -0,0 +1,111 @@
+// This file contains the filtering, searching and sorting behind the alerts
+// page, kept apart from the UI so other views can reuse it
+import { GestureAlert, GestureType, getGestureDisplayName } from './gestureUtils';
+import { ALERT_STATUS_ORDER, AlertStatus } from './alertLifecycle';
+
+export interface AlertFilters {
+  search: string;
+  gestureType: GestureType | 'all';
+  location: string | 'all';
+  status: AlertStatus | 'all';
+  // Inclusive; either end may be open
+  from?: Date;
+  to?: Date;
+  // 0 to 1
+  minConfidence: number;
+}
+
+export type AlertSortKey = 'timestamp' | 'gestureType' | 'confidence' | 'location' | 'status';
+
+export interface AlertSort {
+  key: AlertSortKey;
+  direction: 'asc' | 'desc';
+}
+
+export const DEFAULT_ALERT_FILTERS: AlertFilters = {
+  search: '',
+  gestureType: 'all',
+  location: 'all',
+  status: 'all',
+  minConfidence: 0
+};
+
+export const DEFAULT_ALERT_SORT: AlertSort = { key: 'timestamp', direction: 'desc' };
+
+const startOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+const endOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate() + 1);
+
+// Text the free-text search looks through: transition notes first, then the
+// alert's own details
+const searchableText = (alert: GestureAlert): string => {
+  return [
+    ...alert.transitions.map(transition => transition.note ?? ''),
+    ...alert.transitions.map(transition => transition.by.name),
+    alert.id,
+    alert.location,
+    getGestureDisplayName(alert.gestureType)
+  ].join('\n').toLowerCase();
+};
+
+// Check whether an alert passes every filter
+export const matchesAlertFilters = (alert: GestureAlert, filters: AlertFilters): boolean => {
+  if (filters.gestureType !== 'all' && alert.gestureType !== filters.gestureType) return false;
+  if (filters.location !== 'all' && alert.location !== filters.location) return false;
+  if (filters.status !== 'all' && alert.status !== filters.status) return false;
+  if (alert.confidence < filters.minConfidence) return false;
+  if (filters.from && alert.timestamp < startOfDay(filters.from)) return false;
+  if (filters.to && alert.timestamp >= endOfDay(filters.to)) return false;
+
+  const terms = filters.search.toLowerCase().split(/\s+/).filter(Boolean);
+  if (terms.length > 0) {
+    const text = searchableText(alert);
+    if (!terms.every(term => text.includes(term))) return false;
+  }
+
+  return true;
+};
+
+const compareAlerts = (a: GestureAlert, b: GestureAlert, key: AlertSortKey): number => {
+  switch (key) {
+    case 'timestamp':
+      return a.timestamp.getTime() - b.timestamp.getTime();
+    case 'confidence':
+      return a.confidence - b.confidence;
+    case 'gestureType':
+      return getGestureDisplayName(a.gestureType).localeCompare(getGestureDisplayName(b.gestureType));
+    case 'location':
+      return a.location.localeCompare(b.location);
+    case 'status':
+      // Workflow order, so open alerts group before closed ones
+      return ALERT_STATUS_ORDER.indexOf(a.status) - ALERT_STATUS_ORDER.indexOf(b.status);
+  }
+};
+
+// Filter and sort alerts. Ties fall back to newest first.
+export const queryAlerts = (alerts: GestureAlert[], filters: AlertFilters, sort: AlertSort): GestureAlert[] => {
+  const sign = sort.direction === 'asc' ? 1 : -1;
+  return alerts
+    .filter(alert => matchesAlertFilters(alert, filters))
+    .sort((a, b) =>
+      sign * compareAlerts(a, b, sort.key) || b.timestamp.getTime() - a.timestamp.getTime()
+    );
+};
+
+// Camera locations that appear in the alerts, for the location filter
+export const getAlertLocations = (alerts: GestureAlert[]): string[] => {
+  return [...new Set(alerts.map(alert => alert.location).filter(Boolean))].sort();
+};
+
+// Page numbers to show around the current page; null marks a gap
+export const getPageWindow = (page: number, pageCount: number, radius = 1): (number | null)[] => {
+  const pages: (number | null)[] = [];
+  for (let i = 1; i <= pageCount; i++) {
+    if (i === 1 || i === pageCount || Math.abs(i - page) <= radius) {
+      pages.push(i);
+    } else if (pages[pages.length - 1] !== null) {
+      pages.push(null);
+    }
+  }
+  return pages;
+};
@@ -0,0 +1,139 @@
+// This file contains the alert workflow: the states an alert moves through
+// from being raised to being closed, and who moved it there and when
+import type { GestureAlert } from './gestureUtils';
+
+export type AlertStatus =
+  | 'new'
+  | 'acknowledged'
+  | 'dispatched'
+  | 'resolved'
+  | 'false_positive'
+  | 'duplicate';
+
+// The officer who changed an alert's state
+export interface AlertActor {
+  id: string;
+  name: string;
+  badgeNumber: string;
+}
+
+export interface AlertTransition {
+  from: AlertStatus;
+  to: AlertStatus;
+  by: AlertActor;
+  at: Date;
+  note?: string;
+}
+
+export interface AlertStatusInfo {
+  label: string;
+  // Tailwind classes for the status badge
+  badgeClass: string;
+  // Closed alerts need no further action
+  closed: boolean;
+  // Moving an alert here needs a note explaining the outcome
+  requiresNote: boolean;
+  next: AlertStatus[];
+}
+
+export const ALERT_STATUSES: Record<AlertStatus, AlertStatusInfo> = {
+  new: {
+    label: 'New',
+    badgeClass: 'bg-red-500/10 text-red-500 border-red-500/20',
+    closed: false,
+    requiresNote: false,
+    next: ['acknowledged', 'false_positive', 'duplicate']
+  },
+  acknowledged: {
+    label: 'Acknowledged',
+    badgeClass: 'bg-amber-500/10 text-amber-600 border-amber-500/20',
+    closed: false,
+    requiresNote: false,
+    next: ['dispatched', 'resolved', 'false_positive', 'duplicate']
+  },
+  dispatched: {
+    label: 'Dispatched',
+    badgeClass: 'bg-blue-500/10 text-blue-500 border-blue-500/20',
+    closed: false,
+    requiresNote: false,
+    next: ['resolved', 'false_positive']
+  },
+  resolved: {
+    label: 'Resolved',
+    badgeClass: 'bg-green-500/10 text-green-600 border-green-500/20',
+    closed: true,
+    requiresNote: true,
+    next: []
+  },
+  false_positive: {
+    label: 'False positive',
+    badgeClass: 'bg-muted text-muted-foreground border-border',
+    closed: true,
+    requiresNote: false,
+    next: []
+  },
+  duplicate: {
+    label: 'Duplicate',
+    badgeClass: 'bg-muted text-muted-foreground border-border',
+    closed: true,
+    requiresNote: false,
+    next: []
+  }
+};
+
+export const ALERT_STATUS_ORDER = Object.keys(ALERT_STATUSES) as AlertStatus[];
+
+// A state change the workflow does not allow
+export class AlertTransitionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AlertTransitionError';
+  }
+}
+
+// Check whether an alert may move from one state to another
+export const canTransition = (from: AlertStatus, to: AlertStatus): boolean => {
+  return ALERT_STATUSES[from].next.includes(to);
+};
+
+// Check whether an alert still needs attention
+export const isOpenAlert = (alert: GestureAlert): boolean => {
+  return !ALERT_STATUSES[alert.status].closed;
+};
+
+// Work out the changes that move an alert to a new state, recording who did it
+export const transitionAlert = (
+  alert: GestureAlert,
+  to: AlertStatus,
+  by: AlertActor,
+  note?: string,
+  at = new Date()
+): Pick<GestureAlert, 'status' | 'transitions'> => {
+  if (!canTransition(alert.status, to)) {
+    throw new AlertTransitionError(
+      `An alert that is ${ALERT_STATUSES[alert.status].label.toLowerCase()} cannot be marked ${ALERT_STATUSES[to].label.toLowerCase()}`
+    );
+  }
+
+  const trimmedNote = note?.trim() || undefined;
+  if (ALERT_STATUSES[to].requiresNote && !trimmedNote) {
+    throw new AlertTransitionError(`A note is required to mark an alert ${ALERT_STATUSES[to].label.toLowerCase()}`);
+  }
+
+  const actor: AlertActor = { id: by.id, name: by.name, badgeNumber: by.badgeNumber };
+  return {
+    status: to,
+    transitions: [...alert.transitions, { from: alert.status, to, by: actor, at, note: trimmedNote }]
+  };
+};
+
+// Bring an alert stored before the workflow existed up to date. Processed
+// alerts are treated as resolved; there is no record of who handled them.
+export const migrateLegacyAlert = (alert: GestureAlert & { processed?: boolean }): GestureAlert => {
+  const { processed, ...rest } = alert;
+  return {
+    ...rest,
+    status: rest.status ?? (processed ? 'resolved' : 'new'),
+    transitions: rest.transitions ?? []
+  };
+};
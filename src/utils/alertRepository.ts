@@ -0,0 +1,401 @@
+// This file contains the persistent alert store. Alerts, their images and
+// clips live in IndexedDB so they survive reloads, and every change is queued
+// for delivery to the remote backend, retrying with backoff while offline.
+// Alerts stored centrally, e.g. raised or acknowledged on other
+// workstations, are pulled in periodically.
+import type { GestureAlert } from './gestureUtils';
+import { AlertActor, AlertStatus, migrateLegacyAlert, transitionAlert } from './alertLifecycle';
+import { openDatabase, promisify, transactionDone } from './indexedDb';
+
+// Where the alert copies that leave this browser go
+export interface RemoteAlertBackend {
+  pushAlert(alert: GestureAlert): Promise<void>;
+  deleteAlert(alertId: string): Promise<void>;
+  // Alerts stored centrally, newest first, without images or clips
+  listAlerts(): Promise<GestureAlert[]>;
+}
+
+interface SyncQueueEntry {
+  alertId: string;
+  operation: 'upsert' | 'delete';
+  attempts: number;
+  nextAttemptAt: number;
+  lastError?: string;
+}
+
+export type AlertRepositoryListener = (alerts: GestureAlert[]) => void;
+
+const DB_NAME = 'gesture-alerts';
+const DB_VERSION = 2;
+const ALERTS_STORE = 'alerts';
+const QUEUE_STORE = 'syncQueue';
+
+// Retry delays double from the base up to the maximum
+const BASE_RETRY_MS = 2000;
+const MAX_RETRY_MS = 5 * 60 * 1000;
+// How often alerts stored centrally are pulled in
+const PULL_INTERVAL_MS = 30 * 1000;
+
+const upgradeDatabase = (request: IDBOpenDBRequest, event: IDBVersionChangeEvent) => {
+  const db = request.result;
+  if (!db.objectStoreNames.contains(ALERTS_STORE)) {
+    const alerts = db.createObjectStore(ALERTS_STORE, { keyPath: 'id' });
+    alerts.createIndex('timestamp', 'timestamp');
+  }
+  if (!db.objectStoreNames.contains(QUEUE_STORE)) {
+    db.createObjectStore(QUEUE_STORE, { keyPath: 'alertId' });
+  }
+
+  // Version 2 replaced the processed flag with the alert workflow
+  if (event.oldVersion >= 1 && event.oldVersion < 2 && request.transaction) {
+    const cursorRequest = request.transaction.objectStore(ALERTS_STORE).openCursor();
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (!cursor) return;
+      cursor.update(migrateLegacyAlert(cursor.value));
+      cursor.continue();
+    };
+  }
+};
+
+// The parts of an alert the backend stores. Images, clips and originals
+// only exist on the workstation that captured them.
+const centralFields = ({
+  imageData, clip, clipStatus, originalImage, originalClip, syncStatus, syncError, ...fields
+}: GestureAlert) => fields;
+
+// The parts of an alert taken from the backend's copy. The capture record
+// and digests of an alert already here are the ones this workstation
+// recorded, and the backend's copy must not replace them.
+const pulledFields = (alert: GestureAlert) => {
+  const { capture, artefacts, ...fields } = centralFields(alert);
+  return fields;
+};
+
+// JSON with object keys sorted and undefined values dropped, so alerts
+// compare equal however their fields were ordered
+const canonicalJson = (value: unknown): string => {
+  return JSON.stringify(value, (_key, item) =>
+    item && typeof item === 'object' && !Array.isArray(item)
+      ? Object.fromEntries(
+          Object.entries(item)
+            .filter(([, field]) => field !== undefined)
+            .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+        )
+      : item
+  );
+};
+
+const retryDelay = (attempts: number) => {
+  const delay = Math.min(MAX_RETRY_MS, BASE_RETRY_MS * 2 ** (attempts - 1));
+  // Spread retries out so many stations coming back online don't all hit
+  // the backend at once
+  return delay * (0.75 + Math.random() * 0.5);
+};
+
+export class AlertRepository {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+  private remote: RemoteAlertBackend | null = null;
+  private listeners = new Set<AlertRepositoryListener>();
+  private syncTimer: number | null = null;
+  private syncing: Promise<void> | null = null;
+  private pullTimer: number | null = null;
+  private pulling: Promise<void> | null = null;
+  // When each alert was last delivered, so a pull that started earlier does
+  // not bring back the copy from before
+  private deliveredAt = new Map<string, number>();
+
+  constructor() {
+    if (typeof window !== 'undefined') {
+      window.addEventListener('online', () => {
+        this.syncInBackground();
+        this.pullInBackground();
+      });
+    }
+  }
+
+  // Set or clear the backend alerts are synced to
+  setRemote(remote: RemoteAlertBackend | null): void {
+    this.remote = remote;
+    if (this.pullTimer !== null) {
+      clearInterval(this.pullTimer);
+      this.pullTimer = null;
+    }
+    if (!remote) return;
+
+    this.syncInBackground();
+    this.pullInBackground();
+    this.pullTimer = window.setInterval(() => this.pullInBackground(), PULL_INTERVAL_MS);
+  }
+
+  // Receive the full alert list after every change. Returns an unsubscribe
+  // function.
+  subscribe(listener: AlertRepositoryListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // All stored alerts, newest first
+  async list(): Promise<GestureAlert[]> {
+    const db = await this.db();
+    const alerts = await promisify<GestureAlert[]>(
+      db.transaction(ALERTS_STORE).objectStore(ALERTS_STORE).getAll()
+    );
+    return alerts.sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
+  }
+
+  async get(alertId: string): Promise<GestureAlert | undefined> {
+    const db = await this.db();
+    return promisify<GestureAlert | undefined>(
+      db.transaction(ALERTS_STORE).objectStore(ALERTS_STORE).get(alertId)
+    );
+  }
+
+  // Store a new or changed alert and queue it for syncing
+  async save(alert: GestureAlert): Promise<void> {
+    await this.write(alert.id, 'upsert', () => ({ ...alert, syncStatus: 'pending', syncError: undefined }));
+  }
+
+  // Apply changes to a stored alert. The alert is read and written in one
+  // transaction, so changes made at the same time, e.g. a clip arriving while
+  // an officer acknowledges the alert, are all kept.
+  async update(alertId: string, changes: Partial<GestureAlert>): Promise<void> {
+    await this.write(alertId, 'upsert', (existing) => {
+      if (!existing) {
+        throw new Error(`Alert ${alertId} does not exist`);
+      }
+      return { ...existing, ...changes, id: alertId, syncStatus: 'pending', syncError: undefined };
+    });
+  }
+
+  // Move a stored alert to a new state. The workflow is checked against the
+  // stored alert, so transitions made at the same time or pulled in meanwhile
+  // are all kept in its history.
+  async transition(alertId: string, to: AlertStatus, by: AlertActor, note?: string): Promise<void> {
+    await this.write(alertId, 'upsert', (existing) => {
+      if (!existing) {
+        throw new Error(`Alert ${alertId} does not exist`);
+      }
+      return { ...existing, ...transitionAlert(existing, to, by, note), syncStatus: 'pending', syncError: undefined };
+    });
+  }
+
+  async remove(alertId: string): Promise<void> {
+    await this.write(alertId, 'delete', () => null);
+  }
+
+  // Try to deliver every queued change that is due. Concurrent calls share
+  // the same run.
+  sync(): Promise<void> {
+    if (!this.syncing) {
+      this.syncing = this.runSync().finally(() => {
+        this.syncing = null;
+      });
+    }
+    return this.syncing;
+  }
+
+  // Bring in the alerts stored centrally. Alerts with local changes still
+  // queued keep their local copy, and local images, clips and originals are
+  // kept. Concurrent calls share the same run.
+  pull(): Promise<void> {
+    if (!this.pulling) {
+      this.pulling = this.runPull().finally(() => {
+        this.pulling = null;
+      });
+    }
+    return this.pulling;
+  }
+
+  // Sync or pull without waiting for it. Failures, e.g. of IndexedDB, are
+  // logged; the next change, timer or reconnect tries again.
+  private syncInBackground(): void {
+    this.sync().catch(error => console.error("Error syncing alerts:", error));
+  }
+
+  private pullInBackground(): void {
+    this.pull().catch(error => console.error("Error pulling alerts:", error));
+  }
+
+  private db(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = openDatabase(DB_NAME, DB_VERSION, upgradeDatabase);
+      this.dbPromise.catch(() => {
+        this.dbPromise = null;
+      });
+    }
+    return this.dbPromise;
+  }
+
+  // Replace the stored alert with what change makes of it, or delete it when
+  // change returns null, and queue the operation for syncing
+  private async write(
+    alertId: string,
+    operation: SyncQueueEntry['operation'],
+    change: (existing: GestureAlert | undefined) => GestureAlert | null
+  ): Promise<void> {
+    const db = await this.db();
+    const transaction = db.transaction([ALERTS_STORE, QUEUE_STORE], 'readwrite');
+    const done = transactionDone(transaction);
+    const alerts = transaction.objectStore(ALERTS_STORE);
+
+    try {
+      const alert = change(await promisify<GestureAlert | undefined>(alerts.get(alertId)));
+      if (alert) {
+        alerts.put(alert);
+      } else {
+        alerts.delete(alertId);
+      }
+      // A newer change replaces whatever was still queued for the alert
+      const entry: SyncQueueEntry = { alertId, operation, attempts: 0, nextAttemptAt: Date.now() };
+      transaction.objectStore(QUEUE_STORE).put(entry);
+    } catch (error) {
+      done.catch(() => undefined);
+      transaction.abort();
+      throw error;
+    }
+    await done;
+
+    await this.notify();
+    this.syncInBackground();
+  }
+
+  private async notify(): Promise<void> {
+    if (this.listeners.size === 0) return;
+
+    const alerts = await this.list();
+    this.listeners.forEach(listener => listener(alerts));
+  }
+
+  private async runPull(): Promise<void> {
+    const remote = this.remote;
+    if (!remote) return;
+
+    const startedAt = Date.now();
+    let remoteAlerts: GestureAlert[];
+    try {
+      remoteAlerts = await remote.listAlerts();
+    } catch (error) {
+      console.warn("Alerts could not be pulled from the backend:", error instanceof Error ? error.message : error);
+      return;
+    }
+
+    const db = await this.db();
+    const transaction = db.transaction([ALERTS_STORE, QUEUE_STORE], 'readwrite');
+    const done = transactionDone(transaction);
+    const alerts = transaction.objectStore(ALERTS_STORE);
+
+    const queued = new Set(await promisify(transaction.objectStore(QUEUE_STORE).getAllKeys()));
+    const stored = new Map((await promisify<GestureAlert[]>(alerts.getAll())).map(alert => [alert.id, alert]));
+    let changed = false;
+
+    for (const remoteAlert of remoteAlerts) {
+      if (queued.has(remoteAlert.id) || (this.deliveredAt.get(remoteAlert.id) ?? 0) >= startedAt) continue;
+
+      const local = stored.get(remoteAlert.id);
+      if (local && canonicalJson(pulledFields(local)) === canonicalJson(pulledFields(remoteAlert))) continue;
+
+      alerts.put({
+        // Alerts new to this workstation start from the backend's capture record
+        ...(local ?? { capture: remoteAlert.capture, artefacts: remoteAlert.artefacts }),
+        ...pulledFields(remoteAlert),
+        imageData: local?.imageData ?? remoteAlert.imageData,
+        syncStatus: 'synced',
+        syncError: undefined
+      });
+      changed = true;
+    }
+    await done;
+
+    if (changed) {
+      await this.notify();
+    }
+  }
+
+  private async runSync(): Promise<void> {
+    if (this.syncTimer !== null) {
+      clearTimeout(this.syncTimer);
+      this.syncTimer = null;
+    }
+
+    const remote = this.remote;
+    if (!remote) return;
+
+    const db = await this.db();
+    const entries = await promisify<SyncQueueEntry[]>(
+      db.transaction(QUEUE_STORE).objectStore(QUEUE_STORE).getAll()
+    );
+
+    const now = Date.now();
+    let changed = false;
+
+    for (const entry of entries) {
+      if (entry.nextAttemptAt > now) continue;
+
+      try {
+        if (entry.operation === 'upsert') {
+          const alert = await this.get(entry.alertId);
+          if (alert) {
+            await remote.pushAlert(alert);
+          }
+        } else {
+          await remote.deleteAlert(entry.alertId);
+        }
+
+        await this.finishEntry(entry, null);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        console.warn(`Alert ${entry.alertId} could not be synced:`, message);
+        await this.finishEntry(entry, message);
+      }
+      changed = true;
+    }
+
+    if (changed) {
+      await this.notify();
+    }
+    await this.scheduleNextSync();
+  }
+
+  // Drop a delivered entry, or push a failed one back with a longer delay.
+  // The entry is only touched if no newer change replaced it meanwhile.
+  private async finishEntry(entry: SyncQueueEntry, error: string | null): Promise<void> {
+    const db = await this.db();
+    const transaction = db.transaction([ALERTS_STORE, QUEUE_STORE], 'readwrite');
+    const queue = transaction.objectStore(QUEUE_STORE);
+    const alerts = transaction.objectStore(ALERTS_STORE);
+
+    const current = await promisify<SyncQueueEntry | undefined>(queue.get(entry.alertId));
+    if (current && current.nextAttemptAt === entry.nextAttemptAt && current.attempts === entry.attempts) {
+      const alert = await promisify<GestureAlert | undefined>(alerts.get(entry.alertId));
+
+      if (error === null) {
+        this.deliveredAt.set(entry.alertId, Date.now());
+        queue.delete(entry.alertId);
+        if (alert) alerts.put({ ...alert, syncStatus: 'synced', syncError: undefined });
+      } else {
+        const attempts = entry.attempts + 1;
+        queue.put({ ...entry, attempts, nextAttemptAt: Date.now() + retryDelay(attempts), lastError: error });
+        if (alert) alerts.put({ ...alert, syncStatus: 'error', syncError: error });
+      }
+    }
+
+    await transactionDone(transaction);
+  }
+
+  private async scheduleNextSync(): Promise<void> {
+    const db = await this.db();
+    const entries = await promisify<SyncQueueEntry[]>(
+      db.transaction(QUEUE_STORE).objectStore(QUEUE_STORE).getAll()
+    );
+    if (entries.length === 0 || !this.remote) return;
+
+    const nextAttemptAt = Math.min(...entries.map(entry => entry.nextAttemptAt));
+    this.syncTimer = window.setTimeout(() => this.syncInBackground(), Math.max(0, nextAttemptAt - Date.now()));
+  }
+}
+
+// Shared repository for the whole app
+export const alertRepository = new AlertRepository();
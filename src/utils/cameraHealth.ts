@@ -0,0 +1,242 @@
+// This file contains the camera health checks. A feed that has frozen, gone
+// black, been covered or thrown out of focus, or whose camera has gone away,
+// looks live but shows detection nothing, so each one is reported as a
+// camera tamper alert.
+export type CameraHealthIssue = 'ended' | 'black' | 'uniform' | 'frozen' | 'blurred';
+
+export const CAMERA_HEALTH_ISSUES: Record<CameraHealthIssue, { label: string; description: string }> = {
+  ended: { label: 'Disconnected', description: 'The camera has stopped or been unplugged' },
+  black: { label: 'Black', description: 'The picture has gone black' },
+  uniform: { label: 'Covered', description: 'The picture is one flat colour, as if the lens is covered' },
+  frozen: { label: 'Frozen', description: 'The picture has stopped changing' },
+  blurred: { label: 'Blurred', description: 'The picture is severely out of focus or smeared' }
+};
+
+export interface CameraHealthOptions {
+  // A problem must last this long before it is reported
+  graceMs?: number;
+  // Frames with a lower average brightness (0-255) count as black
+  blackLevel?: number;
+  // Frames with a lower sharpness count as blurred; 0 turns the check off
+  blurThreshold?: number;
+  sampleIntervalMs?: number;
+}
+
+export interface CameraHealthState {
+  issue: CameraHealthIssue | null;
+  // When the reported problem started
+  since: Date | null;
+}
+
+export type CameraHealthListener = (state: CameraHealthState) => void;
+
+export interface FrameMetrics {
+  // Average brightness, 0-255
+  meanLuma: number;
+  // Spread of the brightness; near zero for a flat picture
+  lumaStdDev: number;
+  // Variance of the Laplacian; low for blurred pictures
+  sharpness: number;
+  // Changes whenever any sampled pixel does
+  hash: number;
+}
+
+// Frames are checked at this size, enough to tell a picture from a flat one
+const SAMPLE_WIDTH = 160;
+const SAMPLE_HEIGHT = 120;
+// Frames with less brightness spread than this count as one flat colour
+const UNIFORM_STD_DEV = 6;
+
+// Measure a frame's brightness, contrast and sharpness
+export const analyzeFrame = ({ data, width, height }: ImageData): FrameMetrics => {
+  const luma = new Float32Array(width * height);
+  let sum = 0;
+  // FNV-1a over the pixels
+  let hash = 0x811c9dc5;
+
+  for (let i = 0; i < luma.length; i++) {
+    const value = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+    luma[i] = value;
+    sum += value;
+    hash = Math.imul(hash ^ Math.round(value), 0x01000193);
+  }
+
+  const meanLuma = sum / luma.length;
+  let spread = 0;
+  for (let i = 0; i < luma.length; i++) {
+    spread += (luma[i] - meanLuma) ** 2;
+  }
+
+  let laplacianSum = 0;
+  let laplacianSquares = 0;
+  let count = 0;
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const laplacian = luma[i - 1] + luma[i + 1] + luma[i - width] + luma[i + width] - 4 * luma[i];
+      laplacianSum += laplacian;
+      laplacianSquares += laplacian * laplacian;
+      count++;
+    }
+  }
+  const laplacianMean = count ? laplacianSum / count : 0;
+
+  return {
+    meanLuma,
+    lumaStdDev: Math.sqrt(spread / luma.length),
+    sharpness: count ? laplacianSquares / count - laplacianMean * laplacianMean : 0,
+    hash: hash >>> 0
+  };
+};
+
+// Watches a playing video and reports when its picture goes bad
+export class CameraHealthMonitor {
+  private state: CameraHealthState = { issue: null, since: null };
+  private listeners = new Set<CameraHealthListener>();
+  private timer: number | null = null;
+  private canvas = document.createElement('canvas');
+  private ctx: CanvasRenderingContext2D | null;
+  // The frame cannot be read, e.g. a cross-origin stream without CORS
+  private pixelsUnavailable = false;
+  private lastHash: number | null = null;
+  private lastTime = -1;
+  // The problem seen on the latest samples and when it was first seen
+  private candidate: { issue: CameraHealthIssue; since: number } | null = null;
+  // Tracks of the playing stream, watched for ending
+  private watchedTracks: MediaStreamTrack[] = [];
+  private graceMs: number;
+  private blackLevel: number;
+  private blurThreshold: number;
+  private sampleIntervalMs: number;
+
+  constructor(private video: HTMLVideoElement, options: CameraHealthOptions = {}) {
+    this.graceMs = options.graceMs ?? 5000;
+    this.blackLevel = options.blackLevel ?? 20;
+    this.blurThreshold = options.blurThreshold ?? 10;
+    this.sampleIntervalMs = options.sampleIntervalMs ?? 1000;
+    this.canvas.width = SAMPLE_WIDTH;
+    this.canvas.height = SAMPLE_HEIGHT;
+    this.ctx = this.canvas.getContext('2d', { willReadFrequently: true });
+  }
+
+  start(): void {
+    this.stop();
+    this.watchTracks();
+    this.timer = window.setInterval(() => this.check(), this.sampleIntervalMs);
+  }
+
+  stop(): void {
+    if (this.timer !== null) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    this.watchedTracks.forEach(track => track.removeEventListener('ended', this.handleTrackEnded));
+    this.watchedTracks = [];
+  }
+
+  // Receive every change of health, starting with the current one. Returns
+  // an unsubscribe function.
+  subscribe(listener: CameraHealthListener): () => void {
+    this.listeners.add(listener);
+    listener(this.state);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  getState(): CameraHealthState {
+    return this.state;
+  }
+
+  // Sample the current frame and update the reported health
+  check(now: number = Date.now()): void {
+    this.watchTracks();
+
+    // A paused video is stopped on purpose, not tampered with, except that
+    // the video also pauses when its camera goes away
+    const ended = this.tracksEnded();
+    if (!ended && this.video.paused) return;
+
+    const issue = ended ? 'ended' : this.detectIssue();
+
+    if (!issue) {
+      this.candidate = null;
+    } else if (this.candidate?.issue !== issue) {
+      this.candidate = { issue, since: now };
+    }
+
+    // A camera that has gone away is reported straight away
+    const confirmed = this.candidate &&
+      (this.candidate.issue === 'ended' || now - this.candidate.since >= this.graceMs)
+      ? this.candidate
+      : null;
+
+    if (confirmed?.issue !== (this.state.issue ?? undefined)) {
+      this.setState(confirmed
+        ? { issue: confirmed.issue, since: new Date(confirmed.since) }
+        : { issue: null, since: null });
+    }
+  }
+
+  // Whether every video track of the playing stream has ended, e.g. because
+  // the camera was unplugged
+  private tracksEnded(): boolean {
+    const stream = this.video.srcObject;
+    if (!(stream instanceof MediaStream)) return false;
+
+    const tracks = stream.getVideoTracks();
+    return tracks.length === 0 || tracks.every(track => track.readyState === 'ended');
+  }
+
+  private handleTrackEnded = () => {
+    this.check();
+  };
+
+  // Check as soon as a track of the playing stream ends rather than on the
+  // next sample. The stream changes when a camera reconnects.
+  private watchTracks(): void {
+    const stream = this.video.srcObject;
+    const tracks = stream instanceof MediaStream ? stream.getVideoTracks() : [];
+    if (tracks.length === this.watchedTracks.length && tracks.every((track, i) => track === this.watchedTracks[i])) return;
+
+    this.watchedTracks.forEach(track => track.removeEventListener('ended', this.handleTrackEnded));
+    tracks.forEach(track => track.addEventListener('ended', this.handleTrackEnded));
+    this.watchedTracks = tracks;
+  }
+
+  private detectIssue(): CameraHealthIssue | null {
+    const timeStalled = this.video.currentTime === this.lastTime;
+    this.lastTime = this.video.currentTime;
+
+    const metrics = this.sampleFrame();
+    if (!metrics) return timeStalled ? 'frozen' : null;
+
+    const hashStalled = metrics.hash === this.lastHash;
+    this.lastHash = metrics.hash;
+
+    if (metrics.meanLuma < this.blackLevel) return 'black';
+    if (metrics.lumaStdDev < UNIFORM_STD_DEV) return 'uniform';
+    if (timeStalled || hashStalled) return 'frozen';
+    if (this.blurThreshold > 0 && metrics.sharpness < this.blurThreshold) return 'blurred';
+    return null;
+  }
+
+  private sampleFrame(): FrameMetrics | null {
+    if (!this.ctx || this.pixelsUnavailable || this.video.readyState < 2) return null;
+
+    try {
+      this.ctx.drawImage(this.video, 0, 0, SAMPLE_WIDTH, SAMPLE_HEIGHT);
+      return analyzeFrame(this.ctx.getImageData(0, 0, SAMPLE_WIDTH, SAMPLE_HEIGHT));
+    } catch (error) {
+      // Only the stall and track checks are possible without the pixels
+      console.warn("Camera frames cannot be read, picture checks are off:", error);
+      this.pixelsUnavailable = true;
+      return null;
+    }
+  }
+
+  private setState(state: CameraHealthState): void {
+    this.state = state;
+    this.listeners.forEach(listener => listener(state));
+  }
+}
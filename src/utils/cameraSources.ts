@@ -0,0 +1,449 @@
+// This file contains the network camera sources. Each one plays an IP
+// camera's stream in a video element, so the detector, overlay and clip
+// recorder treat it like a local webcam, and reconnects when the stream drops.
+import Hls from 'hls.js';
+
+export type NetworkSourceKind = 'mjpeg' | 'hls' | 'whep';
+
+export interface NetworkSourceConfig {
+  kind: NetworkSourceKind;
+  url: string;
+  // Bearer token for WHEP endpoints that require one
+  token?: string;
+}
+
+export type CameraSourceStatus = 'idle' | 'connecting' | 'live' | 'reconnecting' | 'stopped';
+
+export interface CameraSourceState {
+  status: CameraSourceStatus;
+  // Why the last connection failed
+  error: string | null;
+  // Failed attempts since the stream was last live
+  attempts: number;
+}
+
+export type CameraSourceListener = (state: CameraSourceState) => void;
+
+export const NETWORK_SOURCE_KINDS: Record<NetworkSourceKind, { label: string; example: string }> = {
+  mjpeg: { label: 'MJPEG over HTTP', example: 'http://camera.local/video.mjpg' },
+  hls: { label: 'HLS playlist', example: 'https://camera.local/live/index.m3u8' },
+  whep: { label: 'WebRTC (WHEP)', example: 'https://media.local/lobby/whep' }
+};
+
+export class CameraSourceError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CameraSourceError';
+  }
+}
+
+// Reconnect delays double from the base up to the maximum
+const RECONNECT_BASE_MS = 1000;
+const RECONNECT_MAX_MS = 30000;
+// A live stream that delivers no frame for this long has dropped
+const STALL_TIMEOUT_MS = 10000;
+// Give up on a connection attempt after this long
+const CONNECT_TIMEOUT_MS = 15000;
+// Larger MJPEG frames mean the stream is not MJPEG at all
+const MAX_JPEG_BYTES = 8 * 1024 * 1024;
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+const withTimeout = <T>(promise: Promise<T>, ms: number, message: string): Promise<T> => {
+  let timer: number | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = window.setTimeout(() => reject(new CameraSourceError(message)), ms);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+};
+
+export abstract class CameraSource {
+  private state: CameraSourceState = { status: 'idle', error: null, attempts: 0 };
+  private listeners = new Set<CameraSourceListener>();
+  private video: HTMLVideoElement | null = null;
+  private reconnectTimer: number | null = null;
+  private stallTimer: number | null = null;
+  // Undo steps for the current connection
+  private cleanups: (() => void)[] = [];
+  // Bumped on every connection so late callbacks from an old one are ignored
+  private session = 0;
+
+  constructor(readonly config: NetworkSourceConfig) {}
+
+  // Receive every status change, starting with the current one. Returns an
+  // unsubscribe function.
+  subscribe(listener: CameraSourceListener): () => void {
+    this.listeners.add(listener);
+    listener(this.state);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  getState(): CameraSourceState {
+    return this.state;
+  }
+
+  // Play the stream in the video element, reconnecting until stopped
+  start(video: HTMLVideoElement): void {
+    this.disconnect();
+    this.video = video;
+    this.state = { status: 'idle', error: null, attempts: 0 };
+    void this.connect();
+  }
+
+  stop(): void {
+    this.disconnect();
+    if (this.video) {
+      this.video.pause();
+      this.video.srcObject = null;
+      this.video.removeAttribute('src');
+      this.video.load();
+      this.video = null;
+    }
+    this.setState({ status: 'stopped', error: null, attempts: 0 });
+  }
+
+  // Attach the stream to the video element. Resolves once it can play;
+  // later failures are reported through fail.
+  protected abstract open(video: HTMLVideoElement, fail: (error: unknown) => void): Promise<void>;
+
+  // Run when the current connection ends
+  protected addCleanup(cleanup: () => void): void {
+    this.cleanups.push(cleanup);
+  }
+
+  private async connect(): Promise<void> {
+    const session = ++this.session;
+    const video = this.video;
+    if (!video) return;
+
+    this.setState({ ...this.state, status: this.state.attempts > 0 ? 'reconnecting' : 'connecting' });
+
+    const fail = (error: unknown) => {
+      if (session === this.session) this.handleFailure(error);
+    };
+
+    try {
+      await withTimeout(this.open(video, fail), CONNECT_TIMEOUT_MS, 'The camera did not respond in time');
+      if (session !== this.session) return;
+
+      await video.play();
+      if (session !== this.session) return;
+
+      this.setState({ status: 'live', error: null, attempts: 0 });
+      this.watchFrames(session, video);
+    } catch (error) {
+      fail(error);
+    }
+  }
+
+  private handleFailure(error: unknown): void {
+    this.disconnect();
+
+    const attempts = this.state.attempts + 1;
+    const delay = Math.min(RECONNECT_MAX_MS, RECONNECT_BASE_MS * 2 ** (attempts - 1));
+    console.warn(`Camera stream ${this.config.url} failed, retrying in ${delay}ms:`, error);
+
+    this.setState({ status: 'reconnecting', error: errorMessage(error), attempts });
+    this.reconnectTimer = window.setTimeout(() => {
+      this.reconnectTimer = null;
+      void this.connect();
+    }, delay);
+  }
+
+  // Treat a stream that stops delivering frames as dropped
+  private watchFrames(session: number, video: HTMLVideoElement): void {
+    let lastFrameAt = performance.now();
+    let lastTime = video.currentTime;
+    const frameCallbacks = typeof video.requestVideoFrameCallback === 'function';
+
+    const onFrame = () => {
+      lastFrameAt = performance.now();
+      if (session === this.session) video.requestVideoFrameCallback(onFrame);
+    };
+    if (frameCallbacks) video.requestVideoFrameCallback(onFrame);
+
+    this.stallTimer = window.setInterval(() => {
+      const now = performance.now();
+      // Hidden pages get no frame callbacks, which is not a dropped stream
+      if (document.hidden || (!frameCallbacks && video.currentTime !== lastTime)) {
+        lastFrameAt = now;
+        lastTime = video.currentTime;
+      }
+      if (now - lastFrameAt > STALL_TIMEOUT_MS) {
+        this.handleFailure(new CameraSourceError('The camera stopped sending video'));
+      }
+    }, 1000);
+  }
+
+  // End the current connection, if any, and any pending reconnect
+  private disconnect(): void {
+    this.session++;
+
+    if (this.reconnectTimer !== null) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    if (this.stallTimer !== null) {
+      clearInterval(this.stallTimer);
+      this.stallTimer = null;
+    }
+
+    const cleanups = this.cleanups;
+    this.cleanups = [];
+    cleanups.reverse().forEach(cleanup => {
+      try {
+        cleanup();
+      } catch (error) {
+        console.warn("Error closing camera stream:", error);
+      }
+    });
+  }
+
+  private setState(state: CameraSourceState): void {
+    this.state = state;
+    this.listeners.forEach(listener => listener(state));
+  }
+}
+
+const findJpegMarker = (buffer: Uint8Array, marker: number, from: number): number => {
+  for (let i = Math.max(0, from); i < buffer.length - 1; i++) {
+    if (buffer[i] === 0xff && buffer[i + 1] === marker) return i;
+  }
+  return -1;
+};
+
+// Split an MJPEG body into JPEG images by their start and end markers, which
+// works whatever multipart boundary the camera uses. Frames with embedded
+// thumbnails are not supported; IP cameras don't send them.
+export async function* readJpegFrames(reader: ReadableStreamDefaultReader<Uint8Array>): AsyncGenerator<Uint8Array> {
+  let buffer = new Uint8Array(0);
+  // Where to continue looking for the end of the current frame
+  let scanFrom = 0;
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) return;
+
+    const joined = new Uint8Array(buffer.length + value.length);
+    joined.set(buffer);
+    joined.set(value, buffer.length);
+    buffer = joined;
+
+    while (true) {
+      const start = findJpegMarker(buffer, 0xd8, 0);
+      if (start === -1) {
+        // Keep a trailing 0xFF that may begin the next marker
+        buffer = buffer.slice(-1);
+        scanFrom = 0;
+        break;
+      }
+      if (start > 0) {
+        buffer = buffer.slice(start);
+        scanFrom = 0;
+      }
+
+      const end = findJpegMarker(buffer, 0xd9, Math.max(2, scanFrom));
+      if (end === -1) {
+        scanFrom = buffer.length - 1;
+        if (buffer.length > MAX_JPEG_BYTES) {
+          throw new CameraSourceError('The stream does not contain MJPEG frames');
+        }
+        break;
+      }
+
+      yield buffer.slice(0, end + 2);
+      buffer = buffer.slice(end + 2);
+      scanFrom = 0;
+    }
+  }
+}
+
+// Reads the multipart JPEG stream itself and paints the frames onto a canvas
+// whose stream feeds the video element. Needs CORS access to the camera.
+class MjpegCameraSource extends CameraSource {
+  protected async open(video: HTMLVideoElement, fail: (error: unknown) => void): Promise<void> {
+    const abort = new AbortController();
+    this.addCleanup(() => abort.abort());
+
+    const response = await fetch(this.config.url, { signal: abort.signal, cache: 'no-store' });
+    if (!response.ok || !response.body) {
+      throw new CameraSourceError(`The camera answered with status ${response.status}`);
+    }
+
+    const reader = response.body.getReader();
+    const frames = readJpegFrames(reader);
+    const canvas = document.createElement('canvas');
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new CameraSourceError('Canvas is not available');
+
+    const draw = async (jpeg: Uint8Array) => {
+      const bitmap = await createImageBitmap(new Blob([jpeg], { type: 'image/jpeg' }));
+      if (canvas.width !== bitmap.width || canvas.height !== bitmap.height) {
+        canvas.width = bitmap.width;
+        canvas.height = bitmap.height;
+      }
+      ctx.drawImage(bitmap, 0, 0);
+      bitmap.close();
+    };
+
+    // The first frame gives the canvas the camera's size
+    const first = await frames.next();
+    if (first.done) throw new CameraSourceError('The camera sent no frames');
+    await draw(first.value);
+
+    const stream = canvas.captureStream();
+    this.addCleanup(() => stream.getTracks().forEach(track => track.stop()));
+    video.srcObject = stream;
+
+    // Keep painting frames until the stream ends or is closed
+    (async () => {
+      try {
+        for await (const frame of frames) {
+          // A corrupt frame is skipped rather than dropping the stream
+          await draw(frame).catch(() => undefined);
+        }
+        fail(new CameraSourceError('The camera closed the stream'));
+      } catch (error) {
+        if (!abort.signal.aborted) fail(error);
+      }
+    })();
+  }
+}
+
+// Plays HLS through hls.js, or natively where the browser supports it
+class HlsCameraSource extends CameraSource {
+  protected async open(video: HTMLVideoElement, fail: (error: unknown) => void): Promise<void> {
+    const onEnded = () => fail(new CameraSourceError('The stream ended'));
+    video.addEventListener('ended', onEnded);
+    this.addCleanup(() => video.removeEventListener('ended', onEnded));
+
+    if (Hls.isSupported()) {
+      const hls = new Hls({ lowLatencyMode: true, liveSyncDurationCount: 2 });
+      this.addCleanup(() => hls.destroy());
+
+      await new Promise<void>((resolve, reject) => {
+        let parsed = false;
+        hls.on(Hls.Events.MANIFEST_PARSED, () => {
+          parsed = true;
+          resolve();
+        });
+        hls.on(Hls.Events.ERROR, (_event, data) => {
+          if (!data.fatal) return;
+          const error = new CameraSourceError(`HLS ${data.type}: ${data.details}`);
+          if (parsed) {
+            fail(error);
+          } else {
+            reject(error);
+          }
+        });
+        hls.loadSource(this.config.url);
+        hls.attachMedia(video);
+      });
+      return;
+    }
+
+    if (video.canPlayType('application/vnd.apple.mpegurl')) {
+      // Frames must stay readable for the detector
+      video.crossOrigin = 'anonymous';
+      video.src = this.config.url;
+
+      await new Promise<void>((resolve, reject) => {
+        video.addEventListener('loadedmetadata', () => resolve(), { once: true });
+        video.addEventListener('error', () => reject(new CameraSourceError('The HLS stream could not be loaded')), { once: true });
+      });
+
+      const onError = () => fail(new CameraSourceError('The HLS stream failed'));
+      video.addEventListener('error', onError);
+      this.addCleanup(() => video.removeEventListener('error', onError));
+      return;
+    }
+
+    throw new CameraSourceError('This browser cannot play HLS streams');
+  }
+}
+
+const waitForIceGathering = (pc: RTCPeerConnection, timeoutMs: number): Promise<void> => {
+  if (pc.iceGatheringState === 'complete') return Promise.resolve();
+
+  // Send what has been gathered by the timeout rather than wait indefinitely
+  return new Promise(resolve => {
+    const timer = window.setTimeout(done, timeoutMs);
+    function done() {
+      clearTimeout(timer);
+      pc.removeEventListener('icegatheringstatechange', onChange);
+      resolve();
+    }
+    function onChange() {
+      if (pc.iceGatheringState === 'complete') done();
+    }
+    pc.addEventListener('icegatheringstatechange', onChange);
+  });
+};
+
+// Receives the camera over WebRTC, negotiated with a WHEP endpoint
+class WhepCameraSource extends CameraSource {
+  protected async open(video: HTMLVideoElement, fail: (error: unknown) => void): Promise<void> {
+    const headers: Record<string, string> = this.config.token ? { Authorization: `Bearer ${this.config.token}` } : {};
+    const pc = new RTCPeerConnection({ bundlePolicy: 'max-bundle' });
+    this.addCleanup(() => pc.close());
+
+    pc.addTransceiver('video', { direction: 'recvonly' });
+    const stream = new MediaStream();
+    pc.addEventListener('track', event => stream.addTrack(event.track));
+
+    const offer = await pc.createOffer();
+    await pc.setLocalDescription(offer);
+    await waitForIceGathering(pc, 2000);
+
+    const response = await fetch(this.config.url, {
+      method: 'POST',
+      headers: { ...headers, 'Content-Type': 'application/sdp' },
+      body: pc.localDescription?.sdp
+    });
+    if (!response.ok) {
+      throw new CameraSourceError(`The WHEP endpoint answered with status ${response.status}`);
+    }
+
+    // End the session on the server when the connection is closed
+    const location = response.headers.get('Location');
+    if (location) {
+      const resource = new URL(location, this.config.url).href;
+      this.addCleanup(() => {
+        fetch(resource, { method: 'DELETE', headers }).catch(() => undefined);
+      });
+    }
+
+    await pc.setRemoteDescription({ type: 'answer', sdp: await response.text() });
+
+    await new Promise<void>((resolve, reject) => {
+      const check = () => {
+        if (pc.connectionState === 'connected') resolve();
+        if (pc.connectionState === 'failed') reject(new CameraSourceError('The WebRTC connection failed'));
+      };
+      pc.addEventListener('connectionstatechange', check);
+      check();
+    });
+
+    // A brief "disconnected" can recover by itself; the stall check catches
+    // one that doesn't
+    pc.addEventListener('connectionstatechange', () => {
+      if (pc.connectionState === 'failed') fail(new CameraSourceError('The WebRTC connection failed'));
+    });
+
+    video.srcObject = stream;
+  }
+}
+
+// Create the source for a network camera
+export const createCameraSource = (config: NetworkSourceConfig): CameraSource => {
+  switch (config.kind) {
+    case 'mjpeg':
+      return new MjpegCameraSource(config);
+    case 'hls':
+      return new HlsCameraSource(config);
+    case 'whep':
+      return new WhepCameraSource(config);
+  }
+};
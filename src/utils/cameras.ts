@@ -0,0 +1,81 @@
+// This file contains the cameras shown on the dashboard. Each one is its own
+// feed with its own detector, and its name and location go on its alerts.
+import { NETWORK_SOURCE_KINDS, NetworkSourceConfig } from './cameraSources';
+import { CameraZone } from './zones';
+
+export interface CameraConfig {
+  id: string;
+  // Browser device to open; undefined opens the default camera
+  deviceId?: string;
+  // Network stream to play instead of a browser device
+  source?: NetworkSourceConfig;
+  // Shown on the feed and recorded on alerts; filled in from the device
+  // label once the camera has been opened
+  name: string;
+  // Where the camera is, e.g. "Front desk"
+  location: string;
+  // Areas of the picture to watch or ignore, see zones.ts
+  zones?: CameraZone[];
+}
+
+const STORAGE_KEY = 'cameras';
+
+// Create the config for a newly added camera
+export const createCamera = (
+  deviceId?: string,
+  name = '',
+  location = '',
+  source?: NetworkSourceConfig
+): CameraConfig => ({
+  id: `camera-${Date.now()}-${Math.random().toString(36).substring(2, 7)}`,
+  deviceId,
+  source,
+  name,
+  location
+});
+
+// Load the saved cameras, starting with the default camera on first use
+export const loadCameras = (): CameraConfig[] => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (stored) {
+      const cameras = JSON.parse(stored);
+      if (Array.isArray(cameras)) return cameras;
+    }
+  } catch (error) {
+    console.error("Error loading cameras:", error);
+  }
+  return [createCamera()];
+};
+
+export const saveCameras = (cameras: CameraConfig[]): void => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(cameras));
+};
+
+// Name to show for a camera, numbering unnamed ones by position
+export const getCameraName = (camera: CameraConfig, index: number): string => {
+  return camera.name.trim() || `Camera ${index + 1}`;
+};
+
+// Location to record on a camera's alerts
+export const getCameraLocation = (camera: CameraConfig, index: number): string => {
+  return camera.location.trim() || getCameraName(camera, index);
+};
+
+// The device or stream a camera's frames come from, recorded with its
+// evidence. Credentials in stream URLs are left out.
+export const getCameraDevice = (camera: CameraConfig): string => {
+  if (camera.source) {
+    let url = camera.source.url;
+    try {
+      const parsed = new URL(url);
+      parsed.username = '';
+      parsed.password = '';
+      url = parsed.toString();
+    } catch {
+      // Recorded as entered
+    }
+    return `${NETWORK_SOURCE_KINDS[camera.source.kind].label} ${url}`;
+  }
+  return camera.deviceId ? `Browser camera ${camera.deviceId}` : 'Default browser camera';
+};
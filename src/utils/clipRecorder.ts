@@ -0,0 +1,180 @@
+// This file contains the rolling video buffer used to attach clips to alerts.
+// A WebM recording can only be played from its first chunk, so instead of one
+// long recording the stream is recorded as short standalone segments and old
+// segments are simply dropped.
+
+export interface AlertClip {
+  // Standalone recordings, played back one after the other
+  segments: Blob[];
+  mimeType: string;
+  // Wall clock time at which the first segment starts
+  startedAt: Date;
+  // Position of the alert within the clip
+  eventOffsetMs: number;
+  durationMs: number;
+}
+
+export interface ClipRecorderOptions {
+  segmentMs?: number;
+  preEventMs?: number;
+  postEventMs?: number;
+}
+
+interface Segment {
+  blob: Blob;
+  start: number;
+  end: number;
+}
+
+interface PendingClip {
+  eventTime: number;
+  from: number;
+  to: number;
+  resolve: (clip: AlertClip) => void;
+  reject: (error: Error) => void;
+}
+
+const MIME_TYPES = [
+  'video/webm;codecs=vp9',
+  'video/webm;codecs=vp8',
+  'video/webm',
+  'video/mp4'
+];
+
+export class RollingClipRecorder {
+  private readonly segmentMs: number;
+  private readonly preEventMs: number;
+  private readonly postEventMs: number;
+  private readonly mimeType: string;
+  private segments: Segment[] = [];
+  private current: { recorder: MediaRecorder; start: number } | null = null;
+  private rotateTimer: number | null = null;
+  private pending: PendingClip[] = [];
+  private running = false;
+
+  constructor(private readonly stream: MediaStream, options: ClipRecorderOptions = {}) {
+    this.segmentMs = options.segmentMs ?? 2000;
+    this.preEventMs = options.preEventMs ?? 10000;
+    this.postEventMs = options.postEventMs ?? 10000;
+    this.mimeType = RollingClipRecorder.supportedMimeType() ?? '';
+  }
+
+  // Whether this browser can record video clips at all
+  static isSupported(): boolean {
+    return typeof MediaRecorder !== 'undefined' && RollingClipRecorder.supportedMimeType() !== null;
+  }
+
+  private static supportedMimeType(): string | null {
+    if (typeof MediaRecorder === 'undefined') return null;
+    return MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type)) ?? null;
+  }
+
+  start(): void {
+    if (this.running) return;
+
+    this.running = true;
+    this.rotate();
+    this.rotateTimer = window.setInterval(() => this.rotate(), this.segmentMs);
+  }
+
+  stop(): void {
+    if (!this.running) return;
+
+    this.running = false;
+    if (this.rotateTimer !== null) {
+      clearInterval(this.rotateTimer);
+      this.rotateTimer = null;
+    }
+    // The final segment settles any clip still waiting for footage
+    this.finishSegment();
+  }
+
+  // Assemble a clip around an event once the footage after it has been
+  // recorded. Resolves about postEventMs after the event.
+  captureClip(eventTime: number = Date.now()): Promise<AlertClip> {
+    if (!this.running) {
+      return Promise.reject(new Error("Clip recorder is not running"));
+    }
+
+    return new Promise((resolve, reject) => {
+      this.pending.push({
+        eventTime,
+        from: eventTime - this.preEventMs,
+        to: eventTime + this.postEventMs,
+        resolve,
+        reject
+      });
+    });
+  }
+
+  // Start a new segment and finish the previous one. The new recorder starts
+  // first so no frames fall between segments.
+  private rotate(): void {
+    const previous = this.current;
+
+    try {
+      const recorder = new MediaRecorder(this.stream, { mimeType: this.mimeType });
+      const start = Date.now();
+      recorder.ondataavailable = (event) => {
+        if (event.data.size > 0) {
+          this.addSegment({ blob: event.data, start, end: Date.now() });
+        }
+      };
+      recorder.start();
+      this.current = { recorder, start };
+    } catch (error) {
+      console.error("Error starting clip segment:", error);
+      this.current = null;
+    }
+
+    if (previous?.recorder.state === 'recording') {
+      previous.recorder.stop();
+    }
+  }
+
+  private finishSegment(): void {
+    const current = this.current;
+    this.current = null;
+
+    if (current?.recorder.state === 'recording') {
+      current.recorder.stop();
+    } else {
+      this.settlePending(true);
+    }
+  }
+
+  private addSegment(segment: Segment): void {
+    this.segments.push(segment);
+    this.settlePending(!this.running);
+
+    // Keep what a new alert could need, plus whatever pending clips still need
+    const cutoff = Math.min(Date.now() - this.preEventMs, ...this.pending.map(clip => clip.from));
+    this.segments = this.segments.filter(s => s.end >= cutoff);
+  }
+
+  // Resolve clips whose footage is complete; when stopping, resolve every clip
+  // with whatever was recorded
+  private settlePending(stopping: boolean): void {
+    const lastEnd = this.segments[this.segments.length - 1]?.end ?? 0;
+
+    this.pending = this.pending.filter(clip => {
+      if (!stopping && lastEnd < clip.to) return true;
+
+      const segments = this.segments.filter(s => s.end > clip.from && s.start < clip.to);
+      if (segments.length === 0) {
+        clip.reject(new Error("No footage was recorded around the alert"));
+        return false;
+      }
+
+      const start = segments[0].start;
+      clip.resolve({
+        segments: segments.map(s => s.blob),
+        mimeType: this.mimeType,
+        startedAt: new Date(start),
+        eventOffsetMs: Math.max(0, clip.eventTime - start),
+        durationMs: segments[segments.length - 1].end - start
+      });
+      return false;
+    });
+  }
+}
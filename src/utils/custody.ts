@@ -0,0 +1,327 @@
+// This file contains the evidence chain of custody. Every artefact of an
+// alert is hashed (SHA-256) when it is captured, together with who captured
+// it, where and with which detector, and every view, download and export is
+// appended to a log in IndexedDB in which each entry includes the hash of the
+// one before it, so a changed artefact or a rewritten log shows up when the
+// evidence is verified.
+import type { GestureAlert } from './gestureUtils';
+import type { SealedEvidence } from './evidenceVault';
+import { openDatabase, promisify } from './indexedDb';
+
+export type CustodyAction = 'captured' | 'viewed' | 'original_viewed' | 'downloaded' | 'exported' | 'verified';
+
+export const CUSTODY_ACTIONS: Record<CustodyAction, { label: string }> = {
+  captured: { label: 'Captured' },
+  viewed: { label: 'Viewed' },
+  original_viewed: { label: 'Original viewed' },
+  downloaded: { label: 'Downloaded' },
+  exported: { label: 'Exported' },
+  verified: { label: 'Verified' }
+};
+
+// The officer signed in when something happened
+export interface CustodyActor {
+  id: string;
+  name: string;
+  badgeNumber: string;
+}
+
+// Recorded with every alert when its evidence is captured
+export interface CaptureMetadata {
+  capturedAt: Date;
+  cameraId?: string;
+  cameraName?: string;
+  // The browser camera or network stream the frames came from
+  device?: string;
+  officer: CustodyActor | null;
+  sessionId: string;
+  detectorVersion: string;
+  userAgent: string;
+}
+
+// Digest of one file of an alert's evidence, by its name in exports
+export interface ArtefactDigest {
+  name: string;
+  sha256: string;
+  size: number;
+  hashedAt: Date;
+}
+
+export interface CustodyEntry {
+  // Position in the log, from 1
+  sequence: number;
+  alertId: string;
+  action: CustodyAction;
+  at: Date;
+  actor: CustodyActor | null;
+  sessionId: string;
+  details?: string;
+  // Digests of the evidence files, on 'captured' entries, so the hash chain
+  // covers them
+  artefacts?: { name: string; sha256: string }[];
+  // Hash of the entry before, or zeros for the first
+  previousHash: string;
+  hash: string;
+}
+
+export type ArtefactStatus = 'ok' | 'mismatch' | 'missing' | 'unrecorded';
+
+export const ARTEFACT_STATUSES: Record<ArtefactStatus, { label: string; badgeClass: string }> = {
+  ok: { label: 'Matches', badgeClass: 'bg-green-500/10 text-green-600 border-green-500/20' },
+  mismatch: { label: 'Altered', badgeClass: 'bg-red-500/10 text-red-500 border-red-500/20' },
+  missing: { label: 'Missing', badgeClass: 'bg-amber-500/10 text-amber-600 border-amber-500/20' },
+  unrecorded: { label: 'No digest', badgeClass: 'bg-gray-500/10 text-gray-500 border-gray-500/20' }
+};
+
+export interface ArtefactCheck {
+  name: string;
+  status: ArtefactStatus;
+  // Digest recorded at capture
+  expected: string | null;
+  // Digest of the file as it is now
+  actual: string | null;
+}
+
+export interface ChainCheck {
+  valid: boolean;
+  entries: number;
+  // Sequence of the first entry that does not match its hash or the entry
+  // before it
+  brokenAt: number | null;
+}
+
+export type CustodyListener = (entry: CustodyEntry) => void;
+
+const DB_NAME = 'evidence-custody';
+const DB_VERSION = 1;
+const ENTRIES_STORE = 'entries';
+const SESSION_KEY = 'custody-session';
+const GENESIS_HASH = '0'.repeat(64);
+
+const upgradeDatabase = (request: IDBOpenDBRequest) => {
+  const entries = request.result.createObjectStore(ENTRIES_STORE, { keyPath: 'sequence' });
+  entries.createIndex('alertId', 'alertId');
+};
+
+const toHex = (buffer: ArrayBuffer) => {
+  return Array.from(new Uint8Array(buffer))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+};
+
+export const sha256 = async (data: BufferSource): Promise<string> => {
+  return toHex(await crypto.subtle.digest('SHA-256', data));
+};
+
+const dataUrlToBytes = (dataUrl: string): Uint8Array => {
+  const binary = atob(dataUrl.slice(dataUrl.indexOf(',') + 1));
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+};
+
+// Just the officer's identity, for the log and capture metadata
+export const toCustodyActor = (officer: CustodyActor | null | undefined): CustodyActor | null => {
+  return officer ? { id: officer.id, name: officer.name, badgeNumber: officer.badgeNumber } : null;
+};
+
+// Identifies this browser tab's session in capture metadata and the log
+export const getSessionId = (): string => {
+  let sessionId = sessionStorage.getItem(SESSION_KEY);
+  if (!sessionId) {
+    sessionId = crypto.randomUUID();
+    sessionStorage.setItem(SESSION_KEY, sessionId);
+  }
+  return sessionId;
+};
+
+const clipExtension = (mimeType: string) => (mimeType.includes('mp4') ? 'mp4' : 'webm');
+
+// The files of an alert's evidence by the names they are exported under.
+// Sealed originals are hashed encrypted, so they can be checked without
+// being opened.
+export const getArtefacts = (alert: GestureAlert): { name: string; data: BufferSource | Blob }[] => {
+  const artefacts: { name: string; data: BufferSource | Blob }[] = [];
+  const sealed = (name: string, evidence: SealedEvidence) => ({ name: `${name}.enc`, data: evidence.data });
+
+  if (alert.imageData) {
+    artefacts.push({ name: 'image.jpg', data: dataUrlToBytes(alert.imageData) });
+  }
+  alert.clip?.segments.forEach((segment, i) => {
+    artefacts.push({ name: `clip-${String(i).padStart(3, '0')}.${clipExtension(alert.clip!.mimeType)}`, data: segment });
+  });
+  if (alert.originalImage) {
+    artefacts.push(sealed('original-image.jpg', alert.originalImage));
+  }
+  alert.originalClip?.segments.forEach((segment, i) => {
+    artefacts.push(sealed(`original-clip-${String(i).padStart(3, '0')}.${clipExtension(alert.originalClip!.mimeType)}`, segment));
+  });
+
+  return artefacts;
+};
+
+const hashArtefact = async (data: BufferSource | Blob): Promise<{ sha256: string; size: number }> => {
+  const buffer = data instanceof Blob ? await data.arrayBuffer() : data;
+  return { sha256: await sha256(buffer), size: buffer.byteLength };
+};
+
+// Hash every file of an alert's evidence
+export const digestArtefacts = async (alert: GestureAlert): Promise<ArtefactDigest[]> => {
+  const hashedAt = new Date();
+  return Promise.all(getArtefacts(alert).map(async ({ name, data }) => ({
+    name,
+    ...(await hashArtefact(data)),
+    hashedAt
+  })));
+};
+
+// The digests the custody log recorded at capture, by file name. Later
+// captures of the same alert, such as its clip, add to the earlier ones.
+export const getCapturedDigests = (entries: CustodyEntry[]): Map<string, string> => {
+  const digests = new Map<string, string>();
+  entries
+    .filter(entry => entry.action === 'captured')
+    .sort((a, b) => a.sequence - b.sequence)
+    .forEach(entry => entry.artefacts?.forEach(digest => digests.set(digest.name, digest.sha256)));
+  return digests;
+};
+
+// Recompute the hashes of an alert's evidence and compare them with the
+// ones the custody log recorded at capture. The digests kept with the alert
+// are not trusted, as whoever can change a file can change those too.
+export const verifyArtefacts = async (alert: GestureAlert): Promise<ArtefactCheck[]> => {
+  const recorded = getCapturedDigests(await custodyLog.list(alert.id));
+  const checks: ArtefactCheck[] = [];
+
+  for (const { name, data } of getArtefacts(alert)) {
+    const { sha256: actual } = await hashArtefact(data);
+    const expected = recorded.get(name) ?? null;
+    recorded.delete(name);
+    checks.push({ name, expected, actual, status: expected === null ? 'unrecorded' : expected === actual ? 'ok' : 'mismatch' });
+  }
+
+  // Recorded at capture but no longer there
+  recorded.forEach((expected, name) => {
+    checks.push({ name, expected, actual: null, status: 'missing' });
+  });
+
+  return checks;
+};
+
+const hashEntry = (entry: Omit<CustodyEntry, 'hash'>): Promise<string> => {
+  const { sequence, alertId, action, at, actor, sessionId, details, artefacts, previousHash } = entry;
+  const canonical = JSON.stringify([
+    sequence, alertId, action, at.toISOString(), actor, sessionId, details ?? null, previousHash,
+    // Only entries with digests hash them, so older entries still verify
+    ...(artefacts ? [artefacts.map(digest => [digest.name, digest.sha256])] : [])
+  ]);
+  return sha256(new TextEncoder().encode(canonical));
+};
+
+// The append-only, hash-chained custody log
+export class CustodyLog {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+  private listeners = new Set<CustodyListener>();
+  // Appends run one at a time so each one links to the one before
+  private queue: Promise<unknown> = Promise.resolve();
+
+  // Receive every new entry. Returns an unsubscribe function.
+  subscribe(listener: CustodyListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // Append an entry for something done with an alert's evidence, with the
+  // digests of its files when they were captured
+  record(
+    alertId: string,
+    action: CustodyAction,
+    actor: CustodyActor | null,
+    details?: string,
+    artefacts?: ArtefactDigest[]
+  ): Promise<CustodyEntry> {
+    const run = this.queue.then(() => this.append(alertId, action, actor, details, artefacts));
+    this.queue = run.catch(() => undefined);
+    run.catch(error => console.error("Error writing the custody log:", error));
+    return run;
+  }
+
+  // Entries oldest first, for one alert or all of them
+  async list(alertId?: string): Promise<CustodyEntry[]> {
+    const store = (await this.db()).transaction(ENTRIES_STORE).objectStore(ENTRIES_STORE);
+    const entries = await promisify<CustodyEntry[]>(
+      alertId ? store.index('alertId').getAll(alertId) : store.getAll()
+    );
+    return entries.sort((a, b) => a.sequence - b.sequence);
+  }
+
+  // Recompute every hash in the log and check each entry links to the one
+  // before it
+  async verifyChain(): Promise<ChainCheck> {
+    const entries = await this.list();
+    let previousHash = GENESIS_HASH;
+
+    for (const [index, entry] of entries.entries()) {
+      const { hash, ...rest } = entry;
+      if (entry.sequence !== index + 1 || entry.previousHash !== previousHash || (await hashEntry(rest)) !== hash) {
+        return { valid: false, entries: entries.length, brokenAt: entry.sequence };
+      }
+      previousHash = hash;
+    }
+
+    return { valid: true, entries: entries.length, brokenAt: null };
+  }
+
+  private db(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = openDatabase(DB_NAME, DB_VERSION, upgradeDatabase);
+      this.dbPromise.catch(() => {
+        this.dbPromise = null;
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private async append(
+    alertId: string,
+    action: CustodyAction,
+    actor: CustodyActor | null,
+    details?: string,
+    artefacts?: ArtefactDigest[]
+  ): Promise<CustodyEntry> {
+    const db = await this.db();
+
+    // Another tab may append between reading the last entry and adding
+    // this one; the sequence is the key, so that add fails and is retried
+    for (let attempt = 0; ; attempt++) {
+      const cursor = await promisify(db.transaction(ENTRIES_STORE).objectStore(ENTRIES_STORE).openCursor(null, 'prev'));
+      const last = cursor?.value as CustodyEntry | undefined;
+
+      const unsigned: Omit<CustodyEntry, 'hash'> = {
+        sequence: (last?.sequence ?? 0) + 1,
+        alertId,
+        action,
+        at: new Date(),
+        actor: toCustodyActor(actor),
+        sessionId: getSessionId(),
+        ...(details !== undefined && { details }),
+        ...(artefacts && { artefacts: artefacts.map(digest => ({ name: digest.name, sha256: digest.sha256 })) }),
+        previousHash: last?.hash ?? GENESIS_HASH
+      };
+      const entry: CustodyEntry = { ...unsigned, hash: await hashEntry(unsigned) };
+
+      try {
+        await promisify(db.transaction(ENTRIES_STORE, 'readwrite').objectStore(ENTRIES_STORE).add(entry));
+      } catch (error) {
+        if (error instanceof DOMException && error.name === 'ConstraintError' && attempt < 5) continue;
+        throw error;
+      }
+
+      this.listeners.forEach(listener => listener(entry));
+      return entry;
+    }
+  }
+}
+
+// Shared log for the whole app
+export const custodyLog = new CustodyLog();
@@ -0,0 +1,198 @@
+// This file contains user-taught gestures: recorded landmark samples stored
+// locally and a k-nearest-neighbour classifier over them
+import { calculateDistance, Landmark } from './landmarkUtils';
+import { GestureFeatures, GestureType, registerGesture } from './gestureRegistry';
+
+export interface CustomGesture {
+  id: GestureType;
+  name: string;
+  emergency: boolean;
+  // Normalized landmark vectors, see normalizeLandmarks
+  samples: number[][];
+  createdAt: string;
+}
+
+const STORAGE_KEY = "customGestures";
+
+// Number of neighbours that vote on a prediction
+const K = 5;
+// Neighbours further away than this are too different to count
+const MAX_NEIGHBOUR_DISTANCE = 1.5;
+// Keep localStorage usage bounded
+const MAX_SAMPLES_PER_GESTURE = 300;
+
+// Turn raw landmarks into a wrist-relative, scale-invariant vector. Left hands
+// are mirrored so a gesture taught with one hand is recognized with either.
+export const normalizeLandmarks = (landmarks: Landmark[], handedness: string | null): number[] => {
+  const wrist = landmarks[0];
+  const scale = calculateDistance(wrist, landmarks[9]) || 1;
+  const mirror = handedness === 'Left' ? -1 : 1;
+
+  const vector: number[] = [];
+  for (let i = 1; i < landmarks.length; i++) {
+    vector.push(
+      mirror * (landmarks[i].x - wrist.x) / scale,
+      (landmarks[i].y - wrist.y) / scale,
+      (landmarks[i].z - wrist.z) / scale
+    );
+  }
+
+  return vector;
+};
+
+// Load the custom gestures saved in this browser
+export const loadCustomGestures = (): CustomGesture[] => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch (error) {
+    console.error("Error loading custom gestures:", error);
+    return [];
+  }
+};
+
+const storeCustomGestures = (gestures: CustomGesture[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(gestures));
+};
+
+// Names that differ only in case or surrounding spaces are the same gesture
+const isSameName = (a: string, b: string) => {
+  return a.trim().localeCompare(b.trim(), undefined, { sensitivity: 'accent' }) === 0;
+};
+
+// Add samples for a gesture, creating it if the name is new
+export const saveCustomGesture = (name: string, samples: number[][], emergency = false): CustomGesture => {
+  const gestures = loadCustomGestures();
+  // Four decimals is well below landmark noise and keeps storage small
+  const rounded = samples.map(sample => sample.map(value => Math.round(value * 10000) / 10000));
+
+  let gesture = gestures.find(g => isSameName(g.name, name));
+  if (gesture) {
+    gesture.samples = [...gesture.samples, ...rounded].slice(-MAX_SAMPLES_PER_GESTURE);
+    gesture.emergency = emergency;
+  } else {
+    gesture = {
+      // Unique, so gestures whose names differ only in punctuation or
+      // non-Latin letters are never merged
+      id: `custom_${crypto.randomUUID()}`,
+      name: name.trim(),
+      emergency,
+      samples: rounded.slice(-MAX_SAMPLES_PER_GESTURE),
+      createdAt: new Date().toISOString()
+    };
+    gestures.push(gesture);
+  }
+
+  storeCustomGestures(gestures);
+  return gesture;
+};
+
+// Remove a custom gesture and its samples
+export const deleteCustomGesture = (id: GestureType): void => {
+  storeCustomGestures(loadCustomGestures().filter(g => g.id !== id));
+  unregisterCustomGesture(id);
+};
+
+interface LabelledSample {
+  label: GestureType;
+  vector: number[];
+}
+
+interface Prediction {
+  label: GestureType | null;
+  confidence: number;
+}
+
+// Trained classifier state
+let index: LabelledSample[] = [];
+const unregisterFns = new Map<GestureType, () => void>();
+let lastLandmarks: Landmark[] | null = null;
+let lastPrediction: Prediction = { label: null, confidence: 0 };
+
+const unregisterCustomGesture = (id: GestureType) => {
+  unregisterFns.get(id)?.();
+  unregisterFns.delete(id);
+  index = index.filter(sample => sample.label !== id);
+  lastLandmarks = null;
+};
+
+const euclidean = (a: number[], b: number[]) => {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) {
+    const d = a[i] - b[i];
+    sum += d * d;
+  }
+  return Math.sqrt(sum);
+};
+
+// Classify a hand against the trained samples
+export const predictCustomGesture = ({ landmarks, handedness }: GestureFeatures): Prediction => {
+  if (index.length === 0) {
+    return { label: null, confidence: 0 };
+  }
+
+  // Every custom gesture's classifier asks about the same frame, so only run
+  // the search once per set of landmarks
+  if (landmarks === lastLandmarks) {
+    return lastPrediction;
+  }
+
+  const vector = normalizeLandmarks(landmarks, handedness);
+  const neighbours = index
+    .map(sample => ({ label: sample.label, distance: euclidean(vector, sample.vector) }))
+    .sort((a, b) => a.distance - b.distance)
+    .slice(0, K)
+    .filter(neighbour => neighbour.distance <= MAX_NEIGHBOUR_DISTANCE);
+
+  const votes = new Map<GestureType, number>();
+  neighbours.forEach(({ label }) => votes.set(label, (votes.get(label) ?? 0) + 1));
+
+  let prediction: Prediction = { label: null, confidence: 0 };
+  votes.forEach((count, label) => {
+    const confidence = count / K;
+    if (confidence > prediction.confidence) {
+      prediction = { label, confidence };
+    }
+  });
+
+  lastLandmarks = landmarks;
+  lastPrediction = prediction;
+  return prediction;
+};
+
+// Rebuild the classifier from the stored samples and register every custom
+// gesture so determineGesture runs it alongside the rule-based gestures
+export const trainCustomClassifier = async (progressCallback: (progress: number) => void): Promise<number> => {
+  const gestures = loadCustomGestures();
+  const total = gestures.reduce((sum, gesture) => sum + gesture.samples.length, 0);
+
+  unregisterFns.forEach(unregister => unregister());
+  unregisterFns.clear();
+  index = [];
+  lastLandmarks = null;
+
+  let processed = 0;
+  for (const gesture of gestures) {
+    gesture.samples.forEach(vector => index.push({ label: gesture.id, vector }));
+    processed += gesture.samples.length;
+
+    unregisterFns.set(gesture.id, registerGesture({
+      id: gesture.id,
+      displayName: gesture.name,
+      color: gesture.emergency ? 'text-red-600' : 'text-cyan-600',
+      emoji: '🖐',
+      emergency: gesture.emergency,
+      classify: (features) => {
+        const prediction = predictCustomGesture(features);
+        return prediction.label === gesture.id ? prediction.confidence : 0;
+      }
+    }));
+
+    progressCallback(total > 0 ? (processed / total) * 100 : 100);
+    // Let the progress bar render between gestures
+    await new Promise(resolve => setTimeout(resolve, 0));
+  }
+
+  progressCallback(100);
+  return gestures.length;
+};
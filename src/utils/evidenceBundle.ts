@@ -0,0 +1,339 @@
+// This file contains the evidence bundle handed to investigators: a ZIP with
+// the images and clips of one or more alerts, a JSON manifest of their
+// metadata and file hashes, the custody log and an HTML summary page. The
+// manifest lists the hash of every other file, so signing it with the
+// workstation's ECDSA key covers the whole bundle.
+import { zip, Zippable } from 'fflate';
+import { GestureAlert, describeRedaction, getGestureDisplayName } from './gestureUtils';
+import { ALERT_STATUSES } from './alertLifecycle';
+import {
+  CUSTODY_ACTIONS,
+  CaptureMetadata,
+  CustodyActor,
+  CustodyEntry,
+  custodyLog,
+  getArtefacts,
+  getCapturedDigests,
+  getSessionId,
+  sha256,
+  toCustodyActor
+} from './custody';
+import { getSigningKeyPair } from './evidenceVault';
+import { CAMERA_HEALTH_ISSUES } from './cameraHealth';
+import { formatMediaTime } from './mediaPlayback';
+
+export const BUNDLE_FORMAT = 'gesture-evidence-bundle';
+export const BUNDLE_VERSION = 1;
+export const SIGNATURE_ALGORITHM = 'ECDSA P-256 with SHA-256, IEEE P1363 signature';
+
+export interface BundleFile {
+  path: string;
+  sha256: string;
+  size: number;
+  // Whether the file still has the hash recorded at capture; null when none
+  // was recorded
+  matchesCapture: boolean | null;
+}
+
+export interface BundleAlert {
+  id: string;
+  timestamp: string;
+  gestureType: string;
+  gestureName: string;
+  confidence: number;
+  status: string;
+  cameraId?: string;
+  cameraName?: string;
+  location: string;
+  zone?: string;
+  mediaName?: string;
+  mediaTime?: number;
+  healthIssue?: string;
+  redaction?: string;
+  capture?: Omit<CaptureMetadata, 'capturedAt'> & { capturedAt: string };
+  transitions: { from: string; to: string; by: string; at: string; note?: string }[];
+  files: BundleFile[];
+}
+
+export interface BundleManifest {
+  format: typeof BUNDLE_FORMAT;
+  version: typeof BUNDLE_VERSION;
+  createdAt: string;
+  createdBy: CustodyActor | null;
+  sessionId: string;
+  alerts: BundleAlert[];
+  custodyLog: {
+    path: string;
+    entries: number;
+    // Whether every entry matched its hash and the one before it when the
+    // bundle was made
+    intact: boolean;
+    brokenAt: number | null;
+  };
+  // The bundle's other files, e.g. the summary page
+  files: BundleFile[];
+  // SHA-256 of the signing public key, when the bundle is signed
+  keyFingerprint: string | null;
+}
+
+export interface BundleSignature {
+  algorithm: typeof SIGNATURE_ALGORITHM;
+  signedFile: 'manifest.json';
+  publicKey: JsonWebKey;
+  keyFingerprint: string;
+  // Base64
+  signature: string;
+}
+
+export interface EvidenceBundleOptions {
+  // Sign the manifest with this workstation's key
+  sign: boolean;
+  // The officer exporting the bundle, for the custody log
+  actor: CustodyActor | null;
+}
+
+const MANIFEST_PATH = 'manifest.json';
+const SIGNATURE_PATH = 'signature.json';
+const CUSTODY_LOG_PATH = 'custody-log.json';
+const SUMMARY_PATH = 'index.html';
+
+const encoder = new TextEncoder();
+
+const toBase64 = (bytes: ArrayBuffer): string => {
+  return btoa(String.fromCharCode(...new Uint8Array(bytes)));
+};
+
+const toBytes = async (data: BufferSource | Blob): Promise<Uint8Array> => {
+  if (data instanceof Blob) return new Uint8Array(await data.arrayBuffer());
+  return data instanceof ArrayBuffer ? new Uint8Array(data) : new Uint8Array(data.buffer, data.byteOffset, data.byteLength);
+};
+
+const escapeHtml = (text: string): string => {
+  return text.replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`);
+};
+
+// JWK thumbprint (RFC 7638) of an EC public key
+const keyFingerprint = async (key: JsonWebKey): Promise<string> => {
+  const canonical = JSON.stringify({ crv: key.crv, kty: key.kty, x: key.x, y: key.y });
+  return sha256(encoder.encode(canonical));
+};
+
+// The fingerprint officers can quote to identify this workstation's bundles
+export const getSigningKeyFingerprint = async (): Promise<string> => {
+  const { publicKey } = await getSigningKeyPair();
+  return keyFingerprint(await crypto.subtle.exportKey('jwk', publicKey));
+};
+
+const describeAlert = (alert: GestureAlert, files: BundleFile[]): BundleAlert => ({
+  id: alert.id,
+  timestamp: alert.timestamp.toISOString(),
+  gestureType: alert.gestureType,
+  gestureName: getGestureDisplayName(alert.gestureType),
+  confidence: alert.confidence,
+  status: ALERT_STATUSES[alert.status].label,
+  cameraId: alert.cameraId,
+  cameraName: alert.cameraName,
+  location: alert.location,
+  zone: alert.zone,
+  mediaName: alert.mediaName,
+  mediaTime: alert.mediaTime,
+  healthIssue: alert.healthIssue ? CAMERA_HEALTH_ISSUES[alert.healthIssue].description : undefined,
+  redaction: alert.redaction ? describeRedaction(alert.redaction) : undefined,
+  capture: alert.capture && { ...alert.capture, capturedAt: alert.capture.capturedAt.toISOString() },
+  transitions: alert.transitions.map(transition => ({
+    from: ALERT_STATUSES[transition.from].label,
+    to: ALERT_STATUSES[transition.to].label,
+    by: `${transition.by.name} (${transition.by.badgeNumber})`,
+    at: transition.at.toISOString(),
+    ...(transition.note && { note: transition.note })
+  })),
+  files
+});
+
+const renderFileRows = (files: BundleFile[]): string => {
+  return files.map(file => `
+        <tr>
+          <td><a href="${escapeHtml(file.path)}">${escapeHtml(file.path)}</a></td>
+          <td class="hash">${file.sha256}</td>
+          <td>${file.size.toLocaleString()} bytes</td>
+          <td class="${file.matchesCapture === false ? 'bad' : ''}">${
+            file.matchesCapture === null ? 'No digest recorded' : file.matchesCapture ? 'Matches capture' : 'ALTERED SINCE CAPTURE'
+          }</td>
+        </tr>`).join('');
+};
+
+// The page investigators open first
+const renderSummary = (manifest: BundleManifest, entries: CustodyEntry[]): string => {
+  const field = (label: string, value: string | number | undefined | null) =>
+    value === undefined || value === null || value === '' ? '' : `<tr><th>${label}</th><td>${escapeHtml(String(value))}</td></tr>`;
+
+  const alerts = manifest.alerts.map(alert => {
+    const image = alert.files.find(file => file.path.endsWith('/image.jpg'));
+    const custody = entries
+      .filter(entry => entry.alertId === alert.id)
+      .map(entry => `<li>#${entry.sequence} ${escapeHtml(CUSTODY_ACTIONS[entry.action].label)}${
+        entry.details ? ` (${escapeHtml(entry.details)})` : ''
+      } by ${escapeHtml(entry.actor ? `${entry.actor.name} (${entry.actor.badgeNumber})` : 'no officer signed in')}, ${entry.at.toISOString()}</li>`)
+      .join('');
+
+    return `
+    <section>
+      <h2>${escapeHtml(alert.gestureName)} <small>${escapeHtml(alert.id)}</small></h2>
+      ${image ? `<img src="${escapeHtml(image.path)}" alt="Alert image">` : ''}
+      <table>
+        ${field('Time', alert.timestamp)}
+        ${field('Status', alert.status)}
+        ${field('Confidence', `${Math.round(alert.confidence * 100)}%`)}
+        ${field('Camera', alert.cameraName)}
+        ${field('Location', alert.location)}
+        ${field('Zone', alert.zone)}
+        ${field('Camera issue', alert.healthIssue)}
+        ${field('Recording', alert.mediaName && `${alert.mediaName} at ${formatMediaTime(alert.mediaTime ?? 0)}`)}
+        ${field('Redaction', alert.redaction)}
+        ${field('Captured', alert.capture?.capturedAt)}
+        ${field('Captured by', alert.capture?.officer && `${alert.capture.officer.name} (${alert.capture.officer.badgeNumber})`)}
+        ${field('Device', alert.capture?.device)}
+        ${field('Detector', alert.capture?.detectorVersion)}
+      </table>
+      <h3>Files</h3>
+      ${alert.files.length > 0
+        ? `<table><tr><th>File</th><th>SHA-256</th><th>Size</th><th>Integrity</th></tr>${renderFileRows(alert.files)}</table>`
+        : '<p>No images or clips are stored for this alert on the exporting workstation.</p>'}
+      <h3>Status history</h3>
+      ${alert.transitions.length > 0
+        ? `<ul>${alert.transitions.map(t => `<li>${escapeHtml(`${t.from} → ${t.to} by ${t.by}, ${t.at}${t.note ? `: ${t.note}` : ''}`)}</li>`).join('')}</ul>`
+        : '<p>No changes.</p>'}
+      <h3>Custody</h3>
+      ${custody ? `<ul>${custody}</ul>` : '<p>No custody entries.</p>'}
+    </section>`;
+  }).join('');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <title>Evidence bundle ${escapeHtml(manifest.createdAt)}</title>
+  <style>
+    body { font-family: system-ui, sans-serif; margin: 2rem auto; max-width: 960px; padding: 0 1rem; color: #111; }
+    section { border-top: 1px solid #ddd; padding-top: 1rem; margin-top: 2rem; }
+    small { color: #666; font-weight: normal; font-size: 0.6em; }
+    img { max-width: 100%; border: 1px solid #ddd; border-radius: 4px; }
+    table { border-collapse: collapse; margin: 0.5rem 0; font-size: 0.9rem; }
+    th, td { text-align: left; padding: 0.25rem 0.75rem 0.25rem 0; vertical-align: top; }
+    .hash { font-family: monospace; word-break: break-all; }
+    .bad { color: #b91c1c; font-weight: bold; }
+  </style>
+</head>
+<body>
+  <h1>Evidence bundle</h1>
+  <table>
+    ${field('Created', manifest.createdAt)}
+    ${field('Created by', manifest.createdBy && `${manifest.createdBy.name} (${manifest.createdBy.badgeNumber})`)}
+    ${field('Alerts', manifest.alerts.length)}
+    ${field('Custody log', manifest.custodyLog.intact
+      ? `Intact, ${manifest.custodyLog.entries} entries`
+      : `ALTERED at entry ${manifest.custodyLog.brokenAt}`)}
+    ${field('Signing key', manifest.keyFingerprint ?? 'Not signed')}
+  </table>
+  <p>
+    ${MANIFEST_PATH} lists the SHA-256 of every file in this bundle.${manifest.keyFingerprint
+      ? ` ${SIGNATURE_PATH} holds its ${SIGNATURE_ALGORITHM} signature and the public key whose RFC 7638 thumbprint is given above.`
+      : ''}
+    ${CUSTODY_LOG_PATH} is the exporting workstation's full custody log; each entry's hash covers the entry before it.
+  </p>
+  ${alerts}
+</body>
+</html>
+`;
+};
+
+const zipFiles = (files: Zippable): Promise<Uint8Array> =>
+  new Promise((resolve, reject) => {
+    zip(files, (error, data) => (error ? reject(error) : resolve(data)));
+  });
+
+// Build the bundle for the alerts. Their export is logged first, so the
+// custody log in the bundle includes it.
+export const createEvidenceBundle = async (
+  alerts: GestureAlert[],
+  { sign, actor }: EvidenceBundleOptions
+): Promise<Blob> => {
+  await Promise.all(alerts.map(alert => custodyLog.record(alert.id, 'exported', actor, 'Evidence bundle')));
+
+  const keyPair = sign ? await getSigningKeyPair() : null;
+  const publicKey = keyPair ? await crypto.subtle.exportKey('jwk', keyPair.publicKey) : null;
+  const fingerprint = publicKey ? await keyFingerprint(publicKey) : null;
+
+  // Images and clips are already compressed, so they are stored as they are
+  const files: Zippable = {};
+  const addFile = async (path: string, bytes: Uint8Array, recordedSha256?: string, level: 0 | 6 = 6): Promise<BundleFile> => {
+    files[path] = [bytes, { level }];
+    const digest = await sha256(bytes);
+    return {
+      path,
+      sha256: digest,
+      size: bytes.byteLength,
+      matchesCapture: recordedSha256 === undefined ? null : recordedSha256 === digest
+    };
+  };
+
+  const entries = await custodyLog.list();
+  const bundleAlerts: BundleAlert[] = [];
+  for (const alert of alerts) {
+    const recorded = getCapturedDigests(entries.filter(entry => entry.alertId === alert.id));
+    const alertFiles: BundleFile[] = [];
+
+    // Sealed originals can only be opened on the workstation that captured
+    // them, so they stay there
+    for (const { name, data } of getArtefacts(alert).filter(artefact => !artefact.name.endsWith('.enc'))) {
+      alertFiles.push(await addFile(`alerts/${alert.id}/${name}`, await toBytes(data), recorded.get(name), 0));
+    }
+    bundleAlerts.push(describeAlert(alert, alertFiles));
+  }
+
+  const chain = await custodyLog.verifyChain();
+  const manifest: BundleManifest = {
+    format: BUNDLE_FORMAT,
+    version: BUNDLE_VERSION,
+    createdAt: new Date().toISOString(),
+    createdBy: toCustodyActor(actor),
+    sessionId: getSessionId(),
+    alerts: bundleAlerts,
+    custodyLog: { path: CUSTODY_LOG_PATH, entries: entries.length, intact: chain.valid, brokenAt: chain.brokenAt },
+    files: [],
+    keyFingerprint: fingerprint
+  };
+
+  manifest.files.push(
+    await addFile(CUSTODY_LOG_PATH, encoder.encode(JSON.stringify(entries, null, 2))),
+    await addFile(SUMMARY_PATH, encoder.encode(renderSummary(manifest, entries)))
+  );
+
+  const manifestBytes = encoder.encode(JSON.stringify(manifest, null, 2));
+  files[MANIFEST_PATH] = manifestBytes;
+
+  if (keyPair && publicKey && fingerprint) {
+    const signature: BundleSignature = {
+      algorithm: SIGNATURE_ALGORITHM,
+      signedFile: MANIFEST_PATH,
+      publicKey,
+      keyFingerprint: fingerprint,
+      signature: toBase64(await crypto.subtle.sign({ name: 'ECDSA', hash: 'SHA-256' }, keyPair.privateKey, manifestBytes))
+    };
+    files[SIGNATURE_PATH] = encoder.encode(JSON.stringify(signature, null, 2));
+  }
+
+  return new Blob([await zipFiles(files)], { type: 'application/zip' });
+};
+
+// Save a bundle to the downloads folder
+export const downloadEvidenceBundle = (bundle: Blob, alertCount: number): void => {
+  const url = URL.createObjectURL(bundle);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `evidence-bundle-${new Date().toISOString().slice(0, 10)}-${alertCount}-alert${alertCount === 1 ? '' : 's'}.zip`;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,119 @@
+// This file contains the evidence vault. When captures are redacted the
+// unredacted original is kept, encrypted with AES-GCM under a key that is
+// generated on this workstation and never leaves it, and only officers the
+// backend allows to see originals can decrypt it. The workstation's key pair
+// for signing evidence bundles is kept here too.
+import { backend } from '../backend';
+import type { AlertClip } from './clipRecorder';
+import { openDatabase, promisify } from './indexedDb';
+
+// An encrypted file
+export interface SealedEvidence {
+  iv: Uint8Array;
+  data: ArrayBuffer;
+  mimeType: string;
+  sealedAt: Date;
+}
+
+// An alert clip whose segments are encrypted
+export interface SealedClip extends Omit<AlertClip, 'segments'> {
+  segments: SealedEvidence[];
+}
+
+// The original could not be sealed or opened, e.g. it was sealed on another
+// workstation or the officer may not see originals
+export class EvidenceVaultError extends Error {
+  constructor(message: string, readonly reason: 'forbidden' | 'unreadable') {
+    super(message);
+    this.name = 'EvidenceVaultError';
+  }
+}
+
+const DB_NAME = 'evidence-vault';
+const DB_VERSION = 1;
+const KEYS_STORE = 'keys';
+const KEY_ID = 'originals';
+const SIGNING_KEY_ID = 'bundle-signing';
+
+const keyPromises = new Map<string, Promise<CryptoKey | CryptoKeyPair>>();
+
+const upgradeDatabase = (request: IDBOpenDBRequest) => {
+  request.result.createObjectStore(KEYS_STORE);
+};
+
+// A key of this workstation, created on first use. Keys are stored as
+// non-extractable CryptoKeys, so they can be used but never read out.
+const getStoredKey = <T extends CryptoKey | CryptoKeyPair>(id: string, generate: () => Promise<T>): Promise<T> => {
+  let keyPromise = keyPromises.get(id) as Promise<T> | undefined;
+  if (!keyPromise) {
+    keyPromise = (async () => {
+      const db = await openDatabase(DB_NAME, DB_VERSION, upgradeDatabase);
+      const stored = await promisify<T | undefined>(
+        db.transaction(KEYS_STORE).objectStore(KEYS_STORE).get(id)
+      );
+      if (stored) return stored;
+
+      const key = await generate();
+      await promisify(db.transaction(KEYS_STORE, 'readwrite').objectStore(KEYS_STORE).add(key, id));
+      return key;
+    })();
+
+    keyPromises.set(id, keyPromise);
+    keyPromise.catch(() => {
+      keyPromises.delete(id);
+    });
+  }
+
+  return keyPromise;
+};
+
+const getKey = (): Promise<CryptoKey> => {
+  return getStoredKey(KEY_ID, () =>
+    crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt'])
+  );
+};
+
+// The workstation's ECDSA P-256 key pair for signing evidence bundles. Only
+// the public key can be exported.
+export const getSigningKeyPair = (): Promise<CryptoKeyPair> => {
+  // Public keys stay exportable even when the pair is not
+  return getStoredKey(SIGNING_KEY_ID, () =>
+    crypto.subtle.generateKey({ name: 'ECDSA', namedCurve: 'P-256' }, false, ['sign', 'verify'])
+  );
+};
+
+// Whether the signed in officer may see unredacted originals. Asks the
+// backend rather than anything kept in the browser, which officers can edit.
+export const canViewOriginals = (): boolean => {
+  return !!backend.auth.currentOfficer()?.canViewOriginals;
+};
+
+export const sealEvidence = async (blob: Blob): Promise<SealedEvidence> => {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, await getKey(), await blob.arrayBuffer());
+  return { iv, data, mimeType: blob.type, sealedAt: new Date() };
+};
+
+export const sealClip = async ({ segments, ...clip }: AlertClip): Promise<SealedClip> => ({
+  ...clip,
+  segments: await Promise.all(segments.map(sealEvidence))
+});
+
+// Decrypt an original for an officer allowed to see it
+export const openEvidence = async (sealed: SealedEvidence): Promise<Blob> => {
+  if (!canViewOriginals()) {
+    throw new EvidenceVaultError('You may not view unredacted originals.', 'forbidden');
+  }
+
+  try {
+    const data = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: sealed.iv }, await getKey(), sealed.data);
+    return new Blob([data], { type: sealed.mimeType });
+  } catch {
+    throw new EvidenceVaultError('The original cannot be decrypted on this workstation.', 'unreadable');
+  }
+};
+
+export const openClip = async ({ segments, ...clip }: SealedClip): Promise<AlertClip> => ({
+  ...clip,
+  segments: await Promise.all(segments.map(segment => openEvidence(segment)))
+});
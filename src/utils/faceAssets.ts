@@ -0,0 +1,37 @@
+// This file contains the loader for the self-hosted MediaPipe Face Detection
+// files, which are verified before use, see modelAssets.ts
+import { baseUrl, files } from 'virtual:mediapipe-face_detection-assets';
+import { createModelAssetLoader, getWasmFiles, ModelAssetFailure, ModelAssetUrls } from './modelAssets';
+
+// Object URLs of verified files, by file name
+export type FaceAssetUrls = ModelAssetUrls;
+
+export class FaceAssetError extends Error {
+  constructor(message: string, readonly reason: ModelAssetFailure) {
+    super(message);
+    this.name = 'FaceAssetError';
+  }
+}
+
+const loader = createModelAssetLoader({
+  label: 'Face detection model',
+  baseUrl,
+  files,
+  createError: (message, reason) => new FaceAssetError(message, reason)
+});
+
+// Fetch and verify the files MediaPipe Face Detection loads for the full
+// range model in this browser; later calls share the result. The short range
+// model is always loaded first and then swapped out.
+export const loadFaceAssets = (): Promise<FaceAssetUrls> => {
+  return loader.load([
+    ...getWasmFiles('face_detection'),
+    'face_detection_short.binarypb',
+    'face_detection_short_range.tflite',
+    'face_detection_full.binarypb',
+    'face_detection_full_range_sparse.tflite'
+  ]);
+};
+
+// locateFile implementation for MediaPipe that only hands out verified files
+export const locateFaceAsset = loader.locate;
@@ -0,0 +1,498 @@
+// This file contains the per-camera gesture detector. Every detector owns its
+// own MediaPipe Hands instance and detection state, so several cameras can be
+// analysed side by side.
+import {
+  HandLandmarkBackend,
+  HandLandmarkResults,
+  MainThreadHandBackend,
+  supportsWorkerInference,
+  WorkerHandBackend
+} from './handLandmarker';
+import { VERSION as HANDS_VERSION } from '@mediapipe/hands';
+import { HandAssetError, loadHandAssets } from './handAssets';
+import { FingerCurls, Landmark, toUniformScale } from './landmarkUtils';
+import { SmoothingParams } from './landmarkSmoothing';
+import { GestureType, isEmergencyGesture } from './gestureRegistry';
+import { normalizeLandmarks, trainCustomClassifier } from './customGestures';
+import { getLeadingProgress, MotionProgress } from './motionGestures';
+import { CameraZone, ZonePlacement, getZoneName, locateInZones } from './zones';
+import {
+  HandGestureResult,
+  matchHands,
+  TrackedHand,
+  TrackedPair,
+  TwoHandGestureResult
+} from './handTracking';
+
+export { determineGesture } from './gestureRegistry';
+
+export type DetectionSensitivity = 'low' | 'medium' | 'high';
+
+export interface GestureResult {
+  // The most important gesture in view: emergencies first, then the most
+  // confident one, so one person's hand cannot hide another's distress signal
+  gesture: GestureType;
+  confidence: number;
+  // Landmarks and finger curls of the hand that made the gesture
+  landmarks?: Landmark[];
+  // Per-finger curl of the classified hand, for debugging
+  fingerCurls?: FingerCurls;
+  // Progress through the motion gesture that is furthest along, if any
+  sequence?: MotionProgress | null;
+  // Every hand in view
+  hands?: HandGestureResult[];
+  // Gestures made with two hands together
+  twoHanded?: TwoHandGestureResult[];
+  // Camera zone the gesture was made in, see zones.ts
+  zone?: string | null;
+}
+
+export type GestureResultListener = (result: GestureResult) => void;
+
+export interface GestureDetectorOptions {
+  sensitivity?: DetectionSensitivity;
+  // Run inference in a web worker when the browser supports it
+  useWorker?: boolean;
+  // Landmark smoothing parameters overriding the sensitivity preset, or false
+  // to classify the raw landmarks
+  smoothing?: Partial<SmoothingParams> | false;
+  // How many hands to look for, 1 to 4
+  maxNumHands?: number;
+}
+
+export const MAX_HANDS = 4;
+
+// Smoothing per sensitivity: high sensitivity follows the hand closely, low
+// sensitivity trades some lag for a steadier readout
+const SMOOTHING_PRESETS: Record<DetectionSensitivity, SmoothingParams> = {
+  high: { minCutoff: 1.7, beta: 0.5, derivativeCutoff: 1.0 },
+  medium: { minCutoff: 1.0, beta: 0.3, derivativeCutoff: 1.0 },
+  low: { minCutoff: 0.5, beta: 0.1, derivativeCutoff: 1.0 }
+};
+
+export class GestureDetector {
+  private backend: HandLandmarkBackend | null = null;
+  private useWorker: boolean;
+  private initializing: Promise<void> | null = null;
+  private modelReady = false;
+  // Set when the model files could not be loaded; detection stays off until
+  // train() retries, so a broken server is not hammered every frame
+  private initError: Error | null = null;
+  private disposed = false;
+  private lastVideoTime = -1;
+  // Time of the last processed frame, on the clock passed to updateHands
+  private lastFrameClock = -1;
+  private hands: TrackedHand[] = [];
+  private pairs = new Map<string, TrackedPair>();
+  private zones: CameraZone[] = [];
+  private nextHandId = 0;
+  private maxNumHands: number;
+  // Normalized landmark samples collected while teaching a custom gesture
+  private recording: number[][] | null = null;
+  private cooldownActive = false;
+  private sensitivity: DetectionSensitivity;
+  private smoothingOverrides: Partial<SmoothingParams> | false;
+  private listeners = new Set<GestureResultListener>();
+
+  constructor(options: GestureDetectorOptions = {}) {
+    this.sensitivity = options.sensitivity ?? 'high';
+    this.useWorker = (options.useWorker ?? true) && supportsWorkerInference();
+    this.smoothingOverrides = options.smoothing ?? {};
+    this.maxNumHands = Math.min(MAX_HANDS, Math.max(1, Math.round(options.maxNumHands ?? MAX_HANDS)));
+  }
+
+  // Initialize the MediaPipe Hands model. Concurrent calls share the same
+  // initialization.
+  initialize(): Promise<void> {
+    if (this.modelReady) return Promise.resolve();
+    if (this.initializing) return this.initializing;
+    if (this.disposed) return Promise.reject(new Error("Gesture detector has been disposed"));
+
+    console.log("Initializing MediaPipe Hands...");
+
+    this.initializing = (async () => {
+      const options = this.modelOptions();
+
+      try {
+        // Fetch and verify the self-hosted model files
+        const assetUrls = await loadHandAssets(options.modelComplexity);
+
+        if (this.useWorker) {
+          try {
+            this.backend = new WorkerHandBackend(assetUrls);
+            await this.backend.initialize(options);
+          } catch (error) {
+            // Keep detecting on the main thread rather than not at all
+            console.warn("Hand landmark worker unavailable, using main thread:", error);
+            await this.backend?.close();
+            this.useWorker = false;
+            this.backend = null;
+          }
+        }
+
+        if (!this.backend) {
+          this.backend = new MainThreadHandBackend(assetUrls);
+          await this.backend.initialize(options);
+        }
+
+        if (this.disposed) {
+          await this.backend.close();
+          this.backend = null;
+          throw new Error("Gesture detector has been disposed");
+        }
+
+        this.modelReady = true;
+        console.log("MediaPipe Hands initialized successfully");
+      } catch (error) {
+        this.modelReady = false;
+        this.initError = error instanceof Error ? error : new Error(String(error));
+        console.error("Error initializing MediaPipe Hands:", error);
+        throw error;
+      } finally {
+        this.initializing = null;
+      }
+    })();
+
+    return this.initializing;
+  }
+
+  // Process a video frame and return the current gesture
+  async detect(videoElement: HTMLVideoElement): Promise<GestureResult> {
+    if (this.disposed) {
+      return { gesture: 'none', confidence: 0 };
+    }
+
+    if (this.cooldownActive) {
+      return this.currentResult();
+    }
+
+    if (this.initError) {
+      return { gesture: 'none', confidence: 0 };
+    }
+
+    if (!this.modelReady) {
+      try {
+        await this.initialize();
+      } catch (error) {
+        console.error("Failed to initialize hands:", error);
+        return { gesture: 'none', confidence: 0 };
+      }
+    }
+
+    if (videoElement && this.backend && videoElement.readyState === 4) {
+      try {
+        // Only process new frames
+        if (videoElement.currentTime !== this.lastVideoTime) {
+          const frameTime = videoElement.currentTime;
+
+          // Send the frame to the model for processing; null means the
+          // backend was still busy and dropped it
+          const results = await this.backend.process(videoElement);
+          if (results && !this.disposed) {
+            this.lastVideoTime = frameTime;
+            this.processResults(
+              results,
+              this.frameClock(videoElement, frameTime),
+              videoElement.videoHeight / videoElement.videoWidth || 1
+            );
+          }
+        }
+      } catch (error) {
+        console.error("Error detecting gesture:", error);
+      }
+    }
+
+    return this.currentResult();
+  }
+
+  // Receive every processed frame's result. Returns an unsubscribe function.
+  subscribe(listener: GestureResultListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // Pause frame processing after an alert until resetCooldown is called
+  startCooldown(): void {
+    this.cooldownActive = true;
+  }
+
+  // Reset the cooldown state
+  resetCooldown(): void {
+    this.cooldownActive = false;
+    this.hands.forEach(hand => hand.restart());
+    this.pairs.forEach(pair => pair.restart());
+    console.log("Detection cooldown reset");
+  }
+
+  // Only watch hands inside the camera's active zones and outside its
+  // exclusion masks
+  setZones(zones: CameraZone[]): void {
+    this.zones = zones;
+  }
+
+  // The model and settings behind this detector's results, recorded with
+  // the evidence it captures
+  getVersion(): string {
+    return `MediaPipe Hands ${HANDS_VERSION}, ${this.sensitivity} sensitivity, ${this.useWorker ? 'worker' : 'main thread'}`;
+  }
+
+  // Set the detection sensitivity
+  setSensitivity(level: DetectionSensitivity): void {
+    this.sensitivity = level;
+    this.hands.forEach(hand => hand.setSmoothing(this.smoothingParams()));
+
+    // Before the model is loaded the thresholds are applied by initialize()
+    if (!this.backend) return;
+
+    try {
+      // Set different confidence thresholds based on sensitivity level
+      this.backend.setOptions(this.modelOptions());
+    } catch (error) {
+      console.error("Error setting detection sensitivity:", error);
+    }
+
+    console.log(`Detection sensitivity set to ${level}`);
+  }
+
+  // Load the hand model and train the custom gesture classifier from the
+  // recorded samples
+  async train(progressCallback: (progress: number) => void): Promise<boolean> {
+    try {
+      // Initialize the hands model first, retrying a failed load
+      progressCallback(0);
+      this.initError = null;
+      await this.initialize();
+      progressCallback(20);
+
+      // Then fit the classifier, mapping its progress onto the rest of the bar
+      await trainCustomClassifier((progress) => progressCallback(20 + progress * 0.8));
+      return true;
+    } catch (error) {
+      console.error("Error in model training:", error);
+      progressCallback(100); // Complete the progress bar anyway
+      // Missing or tampered model files need a clear message, not a retry
+      if (error instanceof HandAssetError) throw error;
+      return false;
+    }
+  }
+
+  // Record normalized landmarks of the first visible hand for teaching a custom
+  // gesture. Frames are collected while detect keeps being called.
+  recordSamples(durationMs: number, progressCallback: (progress: number) => void): Promise<number[][]> {
+    return new Promise((resolve) => {
+      const samples: number[][] = [];
+      const startTime = Date.now();
+      this.recording = samples;
+
+      const interval = setInterval(() => {
+        const elapsed = Date.now() - startTime;
+        progressCallback(Math.min(100, (elapsed / durationMs) * 100));
+
+        if (elapsed >= durationMs || this.disposed) {
+          clearInterval(interval);
+          this.recording = null;
+          resolve(samples);
+        }
+      }, 100);
+    });
+  }
+
+  // Release the model and stop notifying listeners
+  async dispose(): Promise<void> {
+    if (this.disposed) return;
+
+    this.disposed = true;
+    this.listeners.clear();
+    this.modelReady = false;
+
+    try {
+      // Let a pending initialization settle before closing the model
+      await this.initializing?.catch(() => undefined);
+      await this.backend?.close();
+      this.backend = null;
+    } catch (error) {
+      console.error("Error closing MediaPipe Hands:", error);
+    }
+  }
+
+  // Options for the hand model. The complexity must stay the one whose
+  // files initialize() verified, see handAssets.ts
+  private modelOptions() {
+    return {
+      selfieMode: true,
+      maxNumHands: this.maxNumHands,
+      modelComplexity: 1 as const,
+      ...this.confidenceThresholds()
+    };
+  }
+
+  private confidenceThresholds() {
+    const level = this.sensitivity;
+    return {
+      minDetectionConfidence: level === 'high' ? 0.5 : level === 'medium' ? 0.65 : 0.8,
+      minTrackingConfidence: level === 'high' ? 0.5 : level === 'medium' ? 0.65 : 0.8
+    };
+  }
+
+  private smoothingParams(): SmoothingParams {
+    return { ...SMOOTHING_PRESETS[this.sensitivity], ...this.smoothingOverrides };
+  }
+
+  private smoothingSetting(): SmoothingParams | false {
+    return this.smoothingOverrides === false ? false : this.smoothingParams();
+  }
+
+  // Consecutive frames a gesture must be seen on before it is reported
+  private requiredFrames(): number {
+    if (this.sensitivity === 'low') return 3;
+    if (this.sensitivity === 'medium') return 2;
+    return 1;
+  }
+
+  private currentResult(): GestureResult {
+    const hands = this.hands
+      .map(hand => hand.toResult())
+      .filter((hand): hand is HandGestureResult => hand !== null);
+    const twoHanded = Array.from(this.pairs.values())
+      .map(pair => pair.toResult())
+      .filter((pair): pair is TwoHandGestureResult => pair !== null && pair.gesture !== 'none');
+
+    // Hands that just left the frame can still be holding a sequence gesture
+    const candidates: { gesture: GestureType; confidence: number; hand?: HandGestureResult; zone: string | null }[] = [
+      ...this.hands.map(hand => ({
+        gesture: hand.gesture,
+        confidence: hand.confidence,
+        hand: hands.find(result => result.id === hand.id),
+        zone: hand.zone
+      })),
+      ...twoHanded.map(pair => ({
+        gesture: pair.gesture,
+        confidence: pair.confidence,
+        zone: this.hands.find(hand => hand.id === pair.handIds[0])?.zone ?? null
+      }))
+    ];
+
+    let best = candidates.find(candidate => candidate.hand) ?? { gesture: 'none' as GestureType, confidence: 0, zone: null };
+    for (const candidate of candidates) {
+      if (candidate.gesture === 'none') continue;
+      if (best.gesture === 'none' || this.outranks(candidate, best)) {
+        best = candidate;
+      }
+    }
+
+    const primary = best.hand ?? hands[0];
+    const sequences = hands
+      .map(hand => hand.sequence)
+      .filter((sequence): sequence is MotionProgress => sequence !== null);
+
+    return {
+      gesture: best.gesture,
+      confidence: best.confidence,
+      landmarks: primary?.landmarks,
+      fingerCurls: primary?.fingerCurls,
+      sequence: getLeadingProgress(sequences),
+      hands,
+      twoHanded,
+      zone: best.zone
+    };
+  }
+
+  private outranks(a: { gesture: GestureType; confidence: number }, b: { gesture: GestureType; confidence: number }) {
+    const aEmergency = isEmergencyGesture(a.gesture);
+    const bEmergency = isEmergencyGesture(b.gesture);
+    if (aEmergency !== bEmergency) return aEmergency;
+    return a.confidence > b.confidence;
+  }
+
+  // Milliseconds to time hand movements by. Recordings use their own time,
+  // so motion gestures read the same at any playback rate; seeking back
+  // starts tracking afresh.
+  private frameClock(videoElement: HTMLVideoElement, frameTime: number): number {
+    const clock = Number.isFinite(videoElement.duration) ? frameTime * 1000 : Date.now();
+    if (clock < this.lastFrameClock) {
+      this.hands = [];
+      this.pairs.clear();
+    }
+    this.lastFrameClock = clock;
+    return clock;
+  }
+
+  // Process the results from the hand detection model for a frame of the
+  // given height to width ratio
+  private processResults(results: HandLandmarkResults, now: number, aspectRatio: number): void {
+    this.updateHands(results, now, aspectRatio);
+
+    const result = this.currentResult();
+    this.listeners.forEach(listener => listener(result));
+  }
+
+  // Place a hand by its palm centre. Zones are drawn on the video as shown,
+  // while the landmarks are mirrored.
+  private placeHand(landmarks: Landmark[]): ZonePlacement {
+    if (this.zones.length === 0) return { allowed: true, zone: null };
+
+    const palm = [0, 5, 9, 13, 17].map(i => landmarks[i]).filter(Boolean);
+    const x = palm.reduce((sum, point) => sum + point.x, 0) / palm.length;
+    const y = palm.reduce((sum, point) => sum + point.y, 0) / palm.length;
+    return locateInZones({ x: 1 - x, y }, this.zones);
+  }
+
+  private updateHands(results: HandLandmarkResults, now: number, aspectRatio: number): void {
+    // Hands outside the camera's zones count as not seen
+    const detections = (results?.multiHandLandmarks ?? [])
+      .map((landmarks, i) => ({
+        landmarks,
+        // Joint angles are measured in metric world space where the model
+        // provides it; normalized image landmarks stretch with the frame
+        geometry: results.multiHandWorldLandmarks?.[i] ?? toUniformScale(landmarks, aspectRatio),
+        handedness: results.multiHandedness?.[i]?.label ?? null,
+        placement: this.placeHand(landmarks)
+      }))
+      .filter(({ placement }) => placement.allowed);
+
+    // Follow every hand separately, so each keeps its own state
+    const matches = matchHands(this.hands, detections);
+
+    const visible = detections.map(({ landmarks, geometry, handedness, placement }, i) => {
+      let hand = matches[i];
+      if (!hand) {
+        hand = new TrackedHand(this.nextHandId++, handedness, this.smoothingSetting());
+        this.hands.push(hand);
+      }
+
+      hand.update(landmarks, geometry, handedness, now, this.requiredFrames());
+      hand.zone = placement.zone ? getZoneName(placement.zone, this.zones) : null;
+      return hand;
+    });
+
+    this.hands = this.hands.filter(hand => visible.includes(hand) || hand.miss(now));
+
+    const first = visible[0]?.features;
+    if (this.recording && first) {
+      this.recording.push(normalizeLandmarks(first.landmarks, first.handedness));
+    }
+
+    this.updatePairs(visible);
+  }
+
+  // Classify two-hand gestures for every left and right hand that could
+  // belong to the same person
+  private updatePairs(visible: TrackedHand[]): void {
+    const active = new Map<string, TrackedPair>();
+
+    for (const left of visible.filter(hand => hand.handedness === 'Left')) {
+      for (const right of visible.filter(hand => hand.handedness === 'Right')) {
+        if (!TrackedPair.plausible(left, right)) continue;
+
+        const key = TrackedPair.keyFor(left, right);
+        const pair = this.pairs.get(key) ?? new TrackedPair(left, right);
+        pair.update(this.requiredFrames());
+        active.set(key, pair);
+      }
+    }
+
+    this.pairs = active;
+  }
+}
@@ -0,0 +1,267 @@
+// This file contains the registry of gestures known to the detection system
+import { calculateAngleBetweenFingers, calculateDistance, FingerCurls, FingerState, Landmark, PalmFacing } from './landmarkUtils';
+
+// Gestures that ship with the detection core
+export type BuiltInGestureType =
+  | 'none' | 'victory' | 'thumbs_up' | 'open_palm' | 'pointing' | 'fist'
+  | 'signal_for_help' | 'wave' | 'fist_pump' | 'palm_hold'
+  | 'both_palms_raised' | 'crossed_wrists' | 'manual' | 'camera_tamper';
+
+// Any registered gesture id; built-ins are listed for editor completion
+export type GestureType = BuiltInGestureType | (string & {});
+
+// Everything a classifier gets to look at for a single hand
+export interface GestureFeatures {
+  landmarks: Landmark[];
+  fingers: FingerState;
+  curls: FingerCurls;
+  palmFacing: PalmFacing;
+  handedness: string | null;
+}
+
+// A self-contained gesture definition
+export interface GestureDefinition {
+  id: GestureType;
+  displayName: string;
+  // Tailwind text color class used wherever the gesture is shown
+  color: string;
+  emoji?: string;
+  // Emergency gestures raise an alert when detected
+  emergency?: boolean;
+  // Returns a confidence between 0 and 1; omit for gestures that are never
+  // classified from landmarks (e.g. manual captures)
+  classify?: (features: GestureFeatures) => number;
+  // Two-hand gestures are classified from a left and a right hand instead
+  classifyPair?: (left: GestureFeatures, right: GestureFeatures) => number;
+}
+
+// Output of a single classification pass
+export interface GestureScore {
+  gesture: GestureType;
+  confidence: number;
+}
+
+const registry = new Map<GestureType, GestureDefinition>();
+
+// Register a gesture, replacing any existing definition with the same id.
+// Returns a function that removes the definition again.
+export const registerGesture = (definition: GestureDefinition): (() => void) => {
+  if (registry.has(definition.id)) {
+    console.warn(`Gesture "${definition.id}" is already registered and will be replaced`);
+  }
+
+  registry.set(definition.id, definition);
+
+  return () => {
+    if (registry.get(definition.id) === definition) {
+      registry.delete(definition.id);
+    }
+  };
+};
+
+// Remove a gesture from the registry
+export const unregisterGesture = (id: GestureType): boolean => {
+  if (id === 'none') {
+    console.warn('The "none" gesture cannot be unregistered');
+    return false;
+  }
+
+  return registry.delete(id);
+};
+
+// Look up a single gesture definition
+export const getGestureDefinition = (id: GestureType): GestureDefinition | undefined => {
+  return registry.get(id);
+};
+
+// All registered gestures, in registration order
+export const getGestureDefinitions = (): GestureDefinition[] => {
+  return Array.from(registry.values());
+};
+
+// Whether detecting this gesture should raise an alert
+export const isEmergencyGesture = (id: GestureType): boolean => {
+  return !!registry.get(id)?.emergency;
+};
+
+// Determine the gesture by asking every registered classifier and keeping the
+// most confident answer
+export const determineGesture = (features: GestureFeatures): GestureScore => {
+  let best: GestureScore = { gesture: 'none', confidence: 0.5 };
+  let bestScore = 0;
+
+  for (const definition of registry.values()) {
+    if (!definition.classify) continue;
+
+    const score = definition.classify(features);
+    if (score > bestScore) {
+      bestScore = score;
+      best = { gesture: definition.id, confidence: score };
+    }
+  }
+
+  return best;
+};
+
+// Same as determineGesture for the two-hand gestures
+export const determinePairGesture = (left: GestureFeatures, right: GestureFeatures): GestureScore => {
+  let best: GestureScore = { gesture: 'none', confidence: 0 };
+
+  for (const definition of registry.values()) {
+    if (!definition.classifyPair) continue;
+
+    const score = definition.classifyPair(left, right);
+    if (score > best.confidence) {
+      best = { gesture: definition.id, confidence: score };
+    }
+  }
+
+  return best;
+};
+
+const allExtended = ({ thumb, index, middle, ring, pinky }: FingerState) =>
+  thumb && index && middle && ring && pinky;
+
+// Built-in gestures
+registerGesture({
+  id: 'none',
+  displayName: 'No Gesture',
+  color: 'text-gray-500'
+});
+
+registerGesture({
+  id: 'victory',
+  displayName: 'Victory Sign',
+  color: 'text-red-500',
+  emoji: '✌️',
+  emergency: true,
+  // Index and middle fingers extended, others closed
+  classify: ({ fingers, landmarks }) => {
+    const { thumb, index, middle, ring, pinky } = fingers;
+    if (!(index && middle && !thumb && !ring && !pinky)) return 0;
+
+    // Verify V shape
+    const angle = calculateAngleBetweenFingers(landmarks[5], landmarks[8], landmarks[12]);
+    return angle > 0.3 && angle < 0.7 ? 0.9 : 0.7;
+  }
+});
+
+registerGesture({
+  id: 'thumbs_up',
+  displayName: 'Thumbs Up',
+  color: 'text-green-500',
+  emoji: '👍',
+  // Only thumb extended
+  classify: ({ fingers: { thumb, index, middle, ring, pinky } }) =>
+    thumb && !index && !middle && !ring && !pinky ? 0.8 : 0
+});
+
+registerGesture({
+  id: 'open_palm',
+  displayName: 'Open Palm',
+  color: 'text-blue-500',
+  emoji: '✋',
+  // All fingers extended
+  classify: ({ fingers }) => allExtended(fingers) ? 0.8 : 0
+});
+
+registerGesture({
+  id: 'pointing',
+  displayName: 'Pointing',
+  color: 'text-amber-500',
+  emoji: '☝️',
+  // Only index finger extended
+  classify: ({ fingers: { thumb, index, middle, ring, pinky } }) =>
+    !thumb && index && !middle && !ring && !pinky ? 0.85 : 0
+});
+
+registerGesture({
+  id: 'fist',
+  displayName: 'Fist',
+  color: 'text-purple-500',
+  emoji: '✊',
+  // No fingers extended
+  classify: ({ fingers: { thumb, index, middle, ring, pinky } }) =>
+    !thumb && !index && !middle && !ring && !pinky ? 0.75 : 0
+});
+
+// Motion gestures have no per-frame classifier; the state machines in
+// motionGestures.ts report them instead
+registerGesture({
+  id: 'signal_for_help',
+  displayName: 'Signal for Help',
+  color: 'text-rose-600',
+  emoji: '🆘',
+  emergency: true
+});
+
+registerGesture({
+  id: 'wave',
+  displayName: 'Wave',
+  color: 'text-sky-500',
+  emoji: '👋'
+});
+
+registerGesture({
+  id: 'fist_pump',
+  displayName: 'Fist Pump',
+  color: 'text-fuchsia-500',
+  emoji: '💪'
+});
+
+registerGesture({
+  id: 'palm_hold',
+  displayName: 'Palm Held Still',
+  color: 'text-teal-500',
+  emoji: '🖐️'
+});
+
+// Two-hand gestures
+registerGesture({
+  id: 'both_palms_raised',
+  displayName: 'Both Palms Raised',
+  color: 'text-orange-600',
+  emoji: '🙌',
+  emergency: true,
+  // Both hands open, facing the camera, fingers pointing up
+  classifyPair: (left, right) => {
+    const raised = (hand: GestureFeatures) =>
+      allExtended(hand.fingers) && hand.palmFacing === 'camera' && hand.landmarks[12].y < hand.landmarks[0].y;
+    return raised(left) && raised(right) ? 0.9 : 0;
+  }
+});
+
+registerGesture({
+  id: 'crossed_wrists',
+  displayName: 'Crossed Wrists',
+  color: 'text-red-700',
+  emoji: '❌',
+  emergency: true,
+  // Wrists touching with the hands on the opposite side of the body. In the
+  // mirrored frame an uncrossed right hand is to the right of the left one.
+  classifyPair: (left, right) => {
+    const palmSize = (calculateDistance(left.landmarks[0], left.landmarks[9]) +
+      calculateDistance(right.landmarks[0], right.landmarks[9])) / 2;
+    if (palmSize === 0) return 0;
+
+    const wristGap = calculateDistance(left.landmarks[0], right.landmarks[0]) / palmSize;
+    const crossed = right.landmarks[9].x < left.landmarks[9].x;
+    return crossed && wristGap < 0.8 ? 0.85 : 0;
+  }
+});
+
+registerGesture({
+  id: 'manual',
+  displayName: 'Manual Capture',
+  color: 'text-indigo-500',
+  emoji: '📸'
+});
+
+// Raised by the camera health checks rather than seen in the picture
+registerGesture({
+  id: 'camera_tamper',
+  displayName: 'Camera Tamper',
+  color: 'text-orange-600',
+  emoji: '📷',
+  emergency: true
+});
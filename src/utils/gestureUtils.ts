@@ -1,303 +1,94 @@
-
 // This file contains utility functions for gesture detection
 import * as XLSX from 'xlsx';
-import { Camera } from '@mediapipe/camera_utils';
 import { drawConnectors, drawLandmarks } from '@mediapipe/drawing_utils';
-import { Hands, HAND_CONNECTIONS } from '@mediapipe/hands';
-
-// GestureTypes supported by the detection system
-export type GestureType = 'none' | 'victory' | 'thumbs_up' | 'open_palm' | 'pointing' | 'fist' | 'manual';
+import { HAND_CONNECTIONS } from '@mediapipe/hands';
+import { GestureType, getGestureDefinition, isEmergencyGesture } from './gestureRegistry';
+import type { GestureResult } from './gestureDetector';
+import type { BoundingBox } from './handTracking';
+import type { Landmark } from './landmarkUtils';
+import type { AlertClip } from './clipRecorder';
+import { ALERT_STATUSES, AlertStatus, AlertTransition } from './alertLifecycle';
+import { formatMediaTime, getMediaTimestamp } from './mediaPlayback';
+import { CAMERA_HEALTH_ISSUES, CameraHealthIssue } from './cameraHealth';
+import type { RedactionSummary } from './privacy';
+import type { SealedClip, SealedEvidence } from './evidenceVault';
+import type { ArtefactDigest, CaptureMetadata } from './custody';
 
-export interface GestureResult {
-  gesture: GestureType;
-  confidence: number;
-  landmarks?: any[];
-}
+export type { GestureType, GestureDefinition, GestureFeatures } from './gestureRegistry';
+export type { MotionGestureSpec, MotionState, MotionProgress } from './motionGestures';
+export { registerMotionGesture, getMotionGestures } from './motionGestures';
+export type { CustomGesture } from './customGestures';
+export { loadCustomGestures, saveCustomGesture, deleteCustomGesture } from './customGestures';
+export type { GestureResult, GestureResultListener, DetectionSensitivity } from './gestureDetector';
+export { GestureDetector } from './gestureDetector';
+export type { BoundingBox, HandGestureResult, TwoHandGestureResult } from './handTracking';
+export { HandAssetError } from './handAssets';
+export type { SmoothingParams } from './landmarkSmoothing';
+export type { AlertClip } from './clipRecorder';
+export type { FingerCurls, FingerState, PalmFacing } from './landmarkUtils';
+export type { AlertStatus, AlertTransition, AlertActor, AlertStatusInfo } from './alertLifecycle';
+export {
+  ALERT_STATUSES,
+  ALERT_STATUS_ORDER,
+  AlertTransitionError,
+  canTransition,
+  isOpenAlert,
+  transitionAlert
+} from './alertLifecycle';
+export {
+  registerGesture,
+  unregisterGesture,
+  getGestureDefinition,
+  getGestureDefinitions,
+  isEmergencyGesture
+} from './gestureRegistry';
 
 export interface GestureAlert {
   id: string;
   timestamp: Date;
   gestureType: GestureType;
   confidence: number;
+  // With faces and privacy masks hidden when redaction is on, see privacy.ts
   imageData: string | null;
+  // What was hidden in the image; the clip is redacted the same way
+  redaction?: RedactionSummary;
+  // Unredacted image and clip, encrypted, see evidenceVault.ts
+  originalImage?: SealedEvidence;
+  originalClip?: SealedClip;
+  // Who captured the evidence, where and how, and the SHA-256 of every file
+  // at capture, see custody.ts
+  capture?: CaptureMetadata;
+  artefacts?: ArtefactDigest[];
   location: string;
-  processed: boolean;
+  // Camera that raised the alert, see cameras.ts
+  cameraId?: string;
+  cameraName?: string;
+  // Camera zone the gesture was made in, see zones.ts
+  zone?: string;
+  // Recording the alert was raised on, with timestamp the time the frame
+  // was recorded, see mediaPlayback.ts
+  mediaName?: string;
+  // Seconds into the recording
+  mediaTime?: number;
+  // What was wrong with the picture, for camera tamper alerts
+  healthIssue?: CameraHealthIssue;
+  // Workflow state, see alertLifecycle.ts
+  status: AlertStatus;
+  // Every state change so far, oldest first
+  transitions: AlertTransition[];
+  // Video from before to after the alert; recording finishes some seconds
+  // after the alert is raised
+  clip?: AlertClip;
+  clipStatus?: 'recording' | 'ready' | 'failed';
+  // Delivery to the remote backend, see alertRepository.ts
+  syncStatus?: AlertSyncStatus;
+  syncError?: string;
 }
 
-// Global state for the hand detection system
-const state = {
-  model: null as Hands | null,
-  camera: null as any,
-  lastVideoTime: -1,
-  results: null as any,
-  modelReady: false,
-  handedness: null as string | null,
-  currentGesture: 'none' as GestureType,
-  confidence: 0,
-  consecutiveFrames: 0,
-  cooldownActive: false,
-  lastDetectionTime: 0,
-  sensitivity: 'high' as 'low' | 'medium' | 'high'
-};
-
-// Initialization flag to prevent multiple initializations
-let initializing = false;
-
-// Initialize the MediaPipe Hands model
-const initializeHands = async () => {
-  if (initializing) {
-    console.log("Hands initialization already in progress");
-    return;
-  }
-  
-  initializing = true;
-  console.log("Initializing MediaPipe Hands...");
-  
-  try {
-    // Create a new Hands object
-    if (!state.model) {
-      state.model = new Hands({
-        locateFile: (file) => {
-          return `https://cdn.jsdelivr.net/npm/@mediapipe/hands@0.4.1675469240/${file}`;
-        }
-      });
-    }
-    
-    // Configure the model
-    await state.model.setOptions({
-      selfieMode: true,
-      maxNumHands: 1,
-      modelComplexity: 1,
-      minDetectionConfidence: 0.5,
-      minTrackingConfidence: 0.5
-    });
-    
-    // Setup the callback for results
-    state.model.onResults((results: any) => {
-      state.results = results;
-      processResults(results);
-    });
-    
-    state.modelReady = true;
-    initializing = false;
-    console.log("MediaPipe Hands initialized successfully");
-    return true;
-  } catch (error) {
-    initializing = false;
-    state.modelReady = false;
-    console.error("Error initializing MediaPipe Hands:", error);
-    throw error;
-  }
-};
+export type AlertSyncStatus = 'pending' | 'synced' | 'error';
 
-// Process the results from the hand detection model
-const processResults = (results: any) => {
-  if (!results || !results.multiHandLandmarks || results.multiHandLandmarks.length === 0) {
-    state.currentGesture = 'none';
-    state.confidence = 0;
-    state.consecutiveFrames = 0;
-    return;
-  }
-  
-  const landmarks = results.multiHandLandmarks[0];
-  const handedness = results.multiHandedness[0].label;
-  state.handedness = handedness;
-  
-  // Calculate finger states
-  const fingerExtended = calculateFingerExtended(landmarks);
-  
-  // Determine gesture based on finger states
-  const result = determineGesture(fingerExtended, landmarks);
-  
-  // Only change gesture if confidence is high enough
-  if (result.confidence > 0.6) {
-    if (result.gesture === state.currentGesture) {
-      state.consecutiveFrames++;
-    } else {
-      state.consecutiveFrames = 0;
-    }
-    
-    // Apply sensitivity settings
-    let requiredFrames = 1;
-    if (state.sensitivity === 'medium') requiredFrames = 2;
-    if (state.sensitivity === 'low') requiredFrames = 3;
-    
-    if (state.consecutiveFrames >= requiredFrames) {
-      state.currentGesture = result.gesture;
-      state.confidence = result.confidence;
-    }
-  }
-};
-
-// Calculate which fingers are extended based on landmarks
-const calculateFingerExtended = (landmarks: any[]) => {
-  // Simplified finger extension detection based on landmark positions
-  const thumbExtended = isThumbExtended(landmarks);
-  const indexExtended = isFingerExtended(landmarks, 5, 6, 8);
-  const middleExtended = isFingerExtended(landmarks, 9, 10, 12);
-  const ringExtended = isFingerExtended(landmarks, 13, 14, 16);
-  const pinkyExtended = isFingerExtended(landmarks, 17, 18, 20);
-  
-  return {
-    thumb: thumbExtended,
-    index: indexExtended,
-    middle: middleExtended,
-    ring: ringExtended,
-    pinky: pinkyExtended
-  };
-};
-
-// Check if thumb is extended
-const isThumbExtended = (landmarks: any[]) => {
-  // Simplified thumb extension detection
-  const thumbTip = landmarks[4];
-  const thumbBase = landmarks[2];
-  const palmBase = landmarks[0];
-  
-  const distance = calculateDistance(thumbTip, palmBase);
-  const baseDistance = calculateDistance(thumbBase, palmBase);
-  
-  return distance > baseDistance * 1.5;
-};
-
-// Check if a finger is extended
-const isFingerExtended = (landmarks: any[], baseIdx: number, midIdx: number, tipIdx: number) => {
-  const fingerBase = landmarks[baseIdx];
-  const fingerMid = landmarks[midIdx];
-  const fingerTip = landmarks[tipIdx];
-  const palmBase = landmarks[0];
-  
-  // Calculate distances
-  const tipToBase = calculateDistance(fingerTip, palmBase);
-  const midToBase = calculateDistance(fingerMid, palmBase);
-  
-  // Finger is extended if tip is farther from palm than middle joint
-  return tipToBase > midToBase * 1.2;
-};
-
-// Calculate distance between two 3D points
-const calculateDistance = (point1: any, point2: any) => {
-  const dx = point1.x - point2.x;
-  const dy = point1.y - point2.y;
-  const dz = point1.z - point2.z;
-  
-  return Math.sqrt(dx*dx + dy*dy + dz*dz);
-};
-
-// Determine the gesture based on finger states
-const determineGesture = (fingerExtended: any, landmarks: any[]): GestureResult => {
-  const { thumb, index, middle, ring, pinky } = fingerExtended;
-  
-  // Victory sign: index and middle fingers extended, others closed
-  if (index && middle && !thumb && !ring && !pinky) {
-    // Verify V shape
-    const indexTip = landmarks[8];
-    const middleTip = landmarks[12];
-    const angle = calculateAngleBetweenFingers(landmarks[5], indexTip, middleTip);
-    
-    if (angle > 0.3 && angle < 0.7) {
-      return { gesture: 'victory', confidence: 0.9, landmarks };
-    }
-    return { gesture: 'victory', confidence: 0.7, landmarks };
-  }
-  
-  // Thumbs up: only thumb extended
-  if (thumb && !index && !middle && !ring && !pinky) {
-    return { gesture: 'thumbs_up', confidence: 0.8, landmarks };
-  }
-  
-  // Open palm: all fingers extended
-  if (thumb && index && middle && ring && pinky) {
-    return { gesture: 'open_palm', confidence: 0.8, landmarks };
-  }
-  
-  // Pointing: only index finger extended
-  if (!thumb && index && !middle && !ring && !pinky) {
-    return { gesture: 'pointing', confidence: 0.85, landmarks };
-  }
-  
-  // Fist: no fingers extended
-  if (!thumb && !index && !middle && !ring && !pinky) {
-    return { gesture: 'fist', confidence: 0.75, landmarks };
-  }
-  
-  // Unknown gesture
-  return { gesture: 'none', confidence: 0.5, landmarks };
-};
-
-// Calculate angle between fingers
-const calculateAngleBetweenFingers = (palmPoint: any, finger1Tip: any, finger2Tip: any) => {
-  // Create vectors from palm to fingertips
-  const vector1 = {
-    x: finger1Tip.x - palmPoint.x,
-    y: finger1Tip.y - palmPoint.y
-  };
-  
-  const vector2 = {
-    x: finger2Tip.x - palmPoint.x,
-    y: finger2Tip.y - palmPoint.y
-  };
-  
-  // Normalize vectors
-  const length1 = Math.sqrt(vector1.x*vector1.x + vector1.y*vector1.y);
-  const length2 = Math.sqrt(vector2.x*vector2.x + vector2.y*vector2.y);
-  
-  vector1.x /= length1;
-  vector1.y /= length1;
-  vector2.x /= length2;
-  vector2.y /= length2;
-  
-  // Calculate dot product
-  const dotProduct = vector1.x * vector2.x + vector1.y * vector2.y;
-  
-  // Calculate angle (0-1 range, where 0 is aligned, 1 is perpendicular)
-  return (1 - dotProduct) / 2;
-};
-
-// Main detection function - process a video frame
-export const detectGesture = async (videoElement: HTMLVideoElement): Promise<GestureResult> => {
-  if (state.cooldownActive) {
-    return { gesture: state.currentGesture, confidence: state.confidence };
-  }
-  
-  if (!state.modelReady) {
-    try {
-      await initializeHands();
-    } catch (error) {
-      console.error("Failed to initialize hands:", error);
-      return { gesture: 'none', confidence: 0 };
-    }
-  }
-  
-  if (videoElement && state.model && videoElement.readyState === 4) {
-    try {
-      // Only process new frames
-      if (videoElement.currentTime !== state.lastVideoTime) {
-        state.lastVideoTime = videoElement.currentTime;
-        
-        // Send the frame to the model for processing
-        await state.model.send({ image: videoElement });
-      }
-    } catch (error) {
-      console.error("Error detecting gesture:", error);
-    }
-  }
-  
-  return {
-    gesture: state.currentGesture,
-    confidence: state.confidence
-  };
-};
-
-// Reset the cooldown state
-export const resetDetectionCooldown = () => {
-  state.cooldownActive = false;
-  state.consecutiveFrames = 0;
-  console.log("Detection cooldown reset");
-};
-
-// Capture a still image from the video
-export const captureImage = (videoElement: HTMLVideoElement): string | null => {
+// Draw the current video frame onto a new canvas, stamped with its time
+export const captureFrame = (videoElement: HTMLVideoElement): HTMLCanvasElement | null => {
   if (!videoElement) {
     console.error("No video element provided for capture");
     return null;
@@ -322,11 +113,12 @@ export const captureImage = (videoElement: HTMLVideoElement): string | null => {
     ctx.fillRect(10, canvas.height - 40, 350, 30);
     ctx.fillStyle = 'white';
     ctx.font = '16px Arial';
-    const timestamp = new Date().toLocaleString();
-    ctx.fillText(`Captured: ${timestamp}`, 20, canvas.height - 20);
+    // Frames from a recording are stamped with when they were recorded
+    const media = getMediaTimestamp(videoElement);
+    const timestamp = (media?.timestamp ?? new Date()).toLocaleString();
+    ctx.fillText(media ? `Recorded: ${timestamp}` : `Captured: ${timestamp}`, 20, canvas.height - 20);
     
-    // Convert to data URL
-    return canvas.toDataURL('image/jpeg', 0.9);
+    return canvas;
   } catch (error) {
     console.error("Error capturing image:", error);
     return null;
@@ -349,6 +141,20 @@ export const downloadImage = (dataUrl: string, gestureName: string): boolean =>
   }
 };
 
+// Date and time for alert details, e.g. "Mar 4, 2025, 9:41:07 PM"; the short
+// time style leaves out the seconds
+export const formatDateTime = (date: Date, timeStyle: 'short' | 'medium' = 'medium'): string => {
+  return new Intl.DateTimeFormat('en-US', { dateStyle: 'medium', timeStyle }).format(date);
+};
+
+// Summary of what was hidden in an alert's evidence
+export const describeRedaction = ({ faces, masks, fullFrame }: RedactionSummary): string => {
+  if (fullFrame) return 'Whole picture blurred';
+  const parts = [`${faces} face${faces === 1 ? '' : 's'} blurred`];
+  if (masks > 0) parts.push(`${masks} privacy mask${masks === 1 ? '' : 's'}`);
+  return parts.join(', ');
+};
+
 // Export data to Excel
 export const exportToExcel = (data: GestureAlert[]): void => {
   try {
@@ -356,20 +162,48 @@ export const exportToExcel = (data: GestureAlert[]): void => {
     const wb = XLSX.utils.book_new();
     
     // Process data for Excel
-    const processedData = data.map(alert => ({
-      'Alert ID': alert.id,
-      'Date & Time': alert.timestamp.toLocaleString(),
-      'Gesture Type': alert.gestureType,
-      'Confidence': `${(alert.confidence * 100).toFixed(0)}%`,
-      'Location': alert.location,
-      'Processed': alert.processed ? 'Yes' : 'No'
-    }));
+    const processedData = data.map(alert => {
+      const lastTransition = alert.transitions[alert.transitions.length - 1];
+      return {
+        'Alert ID': alert.id,
+        'Date & Time': alert.timestamp.toLocaleString(),
+        'Gesture Type': alert.gestureType,
+        'Confidence': `${(alert.confidence * 100).toFixed(0)}%`,
+        'Camera': alert.cameraName ?? '',
+        'Location': alert.location,
+        'Zone': alert.zone ?? '',
+        'Camera Issue': alert.healthIssue ? CAMERA_HEALTH_ISSUES[alert.healthIssue].label : '',
+        'Redaction': alert.redaction ? describeRedaction(alert.redaction) : '',
+        'Image SHA-256': alert.artefacts?.find(artefact => artefact.name === 'image.jpg')?.sha256 ?? '',
+        'Recording': alert.mediaName ? `${alert.mediaName} at ${formatMediaTime(alert.mediaTime ?? 0)}` : '',
+        'Status': ALERT_STATUSES[alert.status].label,
+        'Last Updated By': lastTransition ? `${lastTransition.by.name} (${lastTransition.by.badgeNumber})` : '',
+        'Last Updated': lastTransition ? lastTransition.at.toLocaleString() : ''
+      };
+    });
+
+    // One row per state change, so the full handling of each alert is kept
+    const transitionData = data.flatMap(alert =>
+      alert.transitions.map(transition => ({
+        'Alert ID': alert.id,
+        'From': ALERT_STATUSES[transition.from].label,
+        'To': ALERT_STATUSES[transition.to].label,
+        'Officer': transition.by.name,
+        'Badge Number': transition.by.badgeNumber,
+        'Date & Time': transition.at.toLocaleString(),
+        'Note': transition.note ?? ''
+      }))
+    );
     
-    // Create worksheet from data
+    // Create worksheets from data
     const ws = XLSX.utils.json_to_sheet(processedData);
+    const transitionsWs = XLSX.utils.json_to_sheet(transitionData, {
+      header: ['Alert ID', 'From', 'To', 'Officer', 'Badge Number', 'Date & Time', 'Note']
+    });
     
-    // Add worksheet to workbook
+    // Add worksheets to workbook
     XLSX.utils.book_append_sheet(wb, ws, 'Emergency Alerts');
+    XLSX.utils.book_append_sheet(wb, transitionsWs, 'Status History');
     
     // Generate Excel file and trigger download
     XLSX.writeFile(wb, `Emergency_Alerts_${new Date().toLocaleDateString()}.xlsx`);
@@ -378,92 +212,82 @@ export const exportToExcel = (data: GestureAlert[]): void => {
   }
 };
 
-// Simulate model training for UI feedback
-export const simulateModelTraining = (progressCallback: (progress: number) => void): Promise<boolean> => {
-  return new Promise(async (resolve) => {
-    try {
-      // Initialize the hands model first
-      await initializeHands();
-      
-      // Then show progress simulation
-      let progress = 0;
-      const interval = setInterval(() => {
-        progress += Math.random() * 5;
-        if (progress > 100) {
-          progress = 100;
-          clearInterval(interval);
-          resolve(true);
-        }
-        progressCallback(progress);
-      }, 100);
-    } catch (error) {
-      console.error("Error in model training:", error);
-      progressCallback(100); // Complete the progress bar anyway
-      resolve(false);
-    }
-  });
+// Get color for gesture display
+export const getGestureColor = (gesture: GestureType): string => {
+  return (getGestureDefinition(gesture) ?? getGestureDefinition('none'))?.color ?? 'text-gray-500';
 };
 
-// Set the detection sensitivity
-export const setDetectionSensitivity = (level: 'low' | 'medium' | 'high'): void => {
-  state.sensitivity = level;
-  
-  if (!state.model) {
-    console.warn("Cannot set sensitivity: model not initialized");
-    return;
-  }
-  
-  try {
-    // Set different confidence thresholds based on sensitivity level
-    state.model.setOptions({
-      maxNumHands: 1,
-      modelComplexity: 0,
-      minDetectionConfidence: level === 'high' ? 0.5 : level === 'medium' ? 0.65 : 0.8,
-      minTrackingConfidence: level === 'high' ? 0.5 : level === 'medium' ? 0.65 : 0.8
-    });
-  } catch (error) {
-    console.error("Error setting detection sensitivity:", error);
+// Get display name for gesture
+export const getGestureDisplayName = (gesture: GestureType): string => {
+  const definition = getGestureDefinition(gesture);
+  if (!definition) {
+    return gesture;
   }
-  
-  console.log(`Detection sensitivity set to ${level}`);
+
+  return definition.emoji ? `${definition.displayName} ${definition.emoji}` : definition.displayName;
 };
 
-// Get color for gesture display
-export const getGestureColor = (gesture: GestureType): string => {
-  switch (gesture) {
-    case 'victory':
-      return 'text-red-500';
-    case 'thumbs_up':
-      return 'text-green-500';
-    case 'open_palm':
-      return 'text-blue-500';
-    case 'pointing':
-      return 'text-amber-500';
-    case 'fist':
-      return 'text-purple-500';
-    case 'manual':
-      return 'text-indigo-500';
-    default:
-      return 'text-gray-500';
-  }
+// Stroke color for a gesture on the overlay canvas
+const getOverlayColor = (gesture: GestureType): string => {
+  if (isEmergencyGesture(gesture)) return '#ef4444';
+  return gesture === 'none' ? '#9ca3af' : '#22c55e';
 };
 
-// Get display name for gesture
-export const getGestureDisplayName = (gesture: GestureType): string => {
-  switch (gesture) {
-    case 'victory':
-      return 'Victory Sign ✌️';
-    case 'thumbs_up':
-      return 'Thumbs Up 👍';
-    case 'open_palm':
-      return 'Open Palm ✋';
-    case 'pointing':
-      return 'Pointing ☝️';
-    case 'fist':
-      return 'Fist ✊';
-    case 'manual':
-      return 'Manual Capture 📸';
-    default:
-      return 'No Gesture';
+// The model runs in selfie mode, so landmarks are mirrored relative to the
+// video element and have to be flipped back before drawing
+const unmirrorLandmarks = (landmarks: Landmark[]): Landmark[] =>
+  landmarks.map(landmark => ({ ...landmark, x: 1 - landmark.x }));
+
+const unmirrorBox = (box: BoundingBox): BoundingBox => ({ ...box, x: 1 - box.x - box.width });
+
+const drawLabelledBox = (
+  ctx: CanvasRenderingContext2D,
+  box: BoundingBox,
+  label: string,
+  color: string,
+  twoHanded = false
+) => {
+  const { width, height } = ctx.canvas;
+  // Two-hand boxes are dashed and drawn around the hand boxes
+  const padding = twoHanded ? 16 : 8;
+  const x = box.x * width - padding;
+  const y = box.y * height - padding;
+
+  ctx.save();
+  ctx.strokeStyle = color;
+  ctx.lineWidth = 2;
+  ctx.setLineDash(twoHanded ? [6, 4] : []);
+  ctx.strokeRect(x, y, box.width * width + padding * 2, box.height * height + padding * 2);
+
+  ctx.font = '14px Arial';
+  const textWidth = ctx.measureText(label).width;
+  const labelY = Math.max(0, y - 22);
+  ctx.fillStyle = color;
+  ctx.fillRect(x, labelY, textWidth + 10, 20);
+  ctx.fillStyle = 'white';
+  ctx.fillText(label, x + 5, labelY + 15);
+  ctx.restore();
+};
+
+// Draw hand skeletons, bounding boxes and gesture labels for a detection
+// result onto a canvas sized like the video
+export const drawHandOverlay = (ctx: CanvasRenderingContext2D, result: GestureResult | null): void => {
+  ctx.clearRect(0, 0, ctx.canvas.width, ctx.canvas.height);
+  if (!result) return;
+
+  for (const hand of result.hands ?? []) {
+    const color = getOverlayColor(hand.gesture);
+    const landmarks = unmirrorLandmarks(hand.landmarks);
+
+    drawConnectors(ctx, landmarks, HAND_CONNECTIONS, { color, lineWidth: 3 });
+    drawLandmarks(ctx, landmarks, { color: 'white', fillColor: color, lineWidth: 1, radius: 3 });
+
+    const label = `${hand.handedness ?? 'Hand'}: ${getGestureDisplayName(hand.gesture)} ${Math.round(hand.confidence * 100)}%`;
+    drawLabelledBox(ctx, unmirrorBox(hand.boundingBox), label, color);
+  }
+
+  for (const pair of result.twoHanded ?? []) {
+    const label = `${getGestureDisplayName(pair.gesture)} ${Math.round(pair.confidence * 100)}%`;
+    drawLabelledBox(ctx, unmirrorBox(pair.boundingBox), label, getOverlayColor(pair.gesture), true);
   }
 };
@@ -0,0 +1,38 @@
+// This file contains the loader for the self-hosted MediaPipe Hands files,
+// which are verified before use, see modelAssets.ts
+import { baseUrl, files } from 'virtual:mediapipe-hands-assets';
+import { createModelAssetLoader, getWasmFiles, ModelAssetFailure, ModelAssetUrls } from './modelAssets';
+
+// Object URLs of verified files, by file name
+export type HandAssetUrls = ModelAssetUrls;
+
+export class HandAssetError extends Error {
+  constructor(message: string, readonly reason: ModelAssetFailure) {
+    super(message);
+    this.name = 'HandAssetError';
+  }
+}
+
+const loader = createModelAssetLoader({
+  label: 'Hand detection model',
+  baseUrl,
+  files,
+  createError: (message, reason) => new HandAssetError(message, reason)
+});
+
+// Fetch and verify the files MediaPipe Hands loads for this model
+// complexity and browser; later calls share the result
+export const loadHandAssets = (modelComplexity: 0 | 1): Promise<HandAssetUrls> => {
+  return loader.load([
+    // The script the hand landmark worker imports
+    'hands.js',
+    'hands_solution_packed_assets_loader.js',
+    'hands_solution_packed_assets.data',
+    ...getWasmFiles('hands'),
+    'hands.binarypb',
+    modelComplexity === 1 ? 'hand_landmark_full.tflite' : 'hand_landmark_lite.tflite'
+  ]);
+};
+
+// locateFile implementation for MediaPipe that only hands out verified files
+export const locateHandAsset = loader.locate;
@@ -0,0 +1,196 @@
+// This file contains the backends that turn video frames into hand landmarks.
+// The worker backend runs MediaPipe Hands off the main thread and is used
+// whenever the browser supports it; the main thread backend is the fallback.
+import { Hands, Handedness, NormalizedLandmarkListList, LandmarkListList, Options, Results } from '@mediapipe/hands';
+import { HandAssetUrls, locateHandAsset } from './handAssets';
+
+// Landmark output of a processed frame, without the image
+export interface HandLandmarkResults {
+  multiHandLandmarks: NormalizedLandmarkListList;
+  multiHandWorldLandmarks?: LandmarkListList;
+  multiHandedness: Handedness[];
+}
+
+export interface HandLandmarkBackend {
+  initialize(options: Options): Promise<void>;
+  setOptions(options: Options): void;
+  // Resolves with the landmarks for the frame, or null when the frame was
+  // dropped because the previous one is still being processed
+  process(video: HTMLVideoElement): Promise<HandLandmarkResults | null>;
+  close(): Promise<void>;
+}
+
+// Messages sent to the hand landmark worker
+export type HandWorkerRequest =
+  | { type: 'init'; assetUrls: HandAssetUrls; options: Options }
+  | { type: 'setOptions'; options: Options }
+  | { type: 'frame'; id: number; frame: ImageBitmap }
+  | { type: 'close' };
+
+// Messages sent back by the hand landmark worker
+export type HandWorkerResponse =
+  | { type: 'ready' }
+  | { type: 'error'; message: string; id?: number }
+  | ({ type: 'results'; id: number } & HandLandmarkResults);
+
+const toLandmarkResults = (results: Results): HandLandmarkResults => ({
+  multiHandLandmarks: results.multiHandLandmarks ?? [],
+  multiHandWorldLandmarks: results.multiHandWorldLandmarks ?? [],
+  multiHandedness: results.multiHandedness ?? []
+});
+
+// Runs MediaPipe Hands on the main thread
+export class MainThreadHandBackend implements HandLandmarkBackend {
+  private model: Hands | null = null;
+  private busy = false;
+  private latest: HandLandmarkResults | null = null;
+
+  constructor(private readonly assetUrls: HandAssetUrls) {}
+
+  async initialize(options: Options): Promise<void> {
+    if (!this.model) {
+      this.model = new Hands({
+        locateFile: locateHandAsset(this.assetUrls)
+      });
+      this.model.onResults((results: Results) => {
+        this.latest = toLandmarkResults(results);
+      });
+    }
+
+    await this.model.setOptions(options);
+  }
+
+  setOptions(options: Options): void {
+    this.model?.setOptions(options);
+  }
+
+  async process(video: HTMLVideoElement): Promise<HandLandmarkResults | null> {
+    if (!this.model || this.busy) return null;
+
+    this.busy = true;
+    this.latest = null;
+    try {
+      // onResults fires before send resolves
+      await this.model.send({ image: video });
+      return this.latest;
+    } finally {
+      this.busy = false;
+    }
+  }
+
+  async close(): Promise<void> {
+    const model = this.model;
+    this.model = null;
+    await model?.close();
+  }
+}
+
+// Runs MediaPipe Hands in a dedicated worker, transferring each frame as an
+// ImageBitmap. Frames arriving while the worker is busy are dropped so the
+// UI never queues up behind inference.
+export class WorkerHandBackend implements HandLandmarkBackend {
+  private worker: Worker | null = null;
+  private nextFrameId = 0;
+  private pending: {
+    id: number;
+    resolve: (results: HandLandmarkResults | null) => void;
+    reject: (error: Error) => void;
+  } | null = null;
+
+  constructor(private readonly assetUrls: HandAssetUrls) {}
+
+  initialize(options: Options): Promise<void> {
+    if (this.worker) {
+      this.setOptions(options);
+      return Promise.resolve();
+    }
+
+    const worker = new Worker(new URL('../workers/handLandmarks.worker.ts', import.meta.url));
+    this.worker = worker;
+
+    return new Promise((resolve, reject) => {
+      worker.onmessage = (event: MessageEvent<HandWorkerResponse>) => {
+        const message = event.data;
+
+        if (message.type === 'ready') {
+          resolve();
+        } else if (message.type === 'error') {
+          const error = new Error(message.message);
+          if (message.id !== undefined) {
+            this.settle(message.id, null, error);
+          } else {
+            reject(error);
+          }
+        } else if (message.type === 'results') {
+          const { id, multiHandLandmarks, multiHandWorldLandmarks, multiHandedness } = message;
+          this.settle(id, { multiHandLandmarks, multiHandWorldLandmarks, multiHandedness });
+        }
+      };
+
+      worker.onerror = (event) => {
+        const error = new Error(event.message || "Hand landmark worker failed");
+        this.pending?.reject(error);
+        this.pending = null;
+        reject(error);
+      };
+
+      this.post({ type: 'init', assetUrls: this.assetUrls, options });
+    });
+  }
+
+  setOptions(options: Options): void {
+    this.post({ type: 'setOptions', options });
+  }
+
+  async process(video: HTMLVideoElement): Promise<HandLandmarkResults | null> {
+    if (!this.worker || this.pending) return null;
+
+    const id = this.nextFrameId++;
+    const result = new Promise<HandLandmarkResults | null>((resolve, reject) => {
+      this.pending = { id, resolve, reject };
+    });
+
+    try {
+      const frame = await createImageBitmap(video);
+      this.post({ type: 'frame', id, frame }, [frame]);
+    } catch (error) {
+      this.pending = null;
+      throw error;
+    }
+
+    return result;
+  }
+
+  async close(): Promise<void> {
+    if (!this.worker) return;
+
+    this.post({ type: 'close' });
+    this.worker.terminate();
+    this.worker = null;
+    this.pending?.resolve(null);
+    this.pending = null;
+  }
+
+  private post(message: HandWorkerRequest, transfer: Transferable[] = []) {
+    this.worker?.postMessage(message, transfer);
+  }
+
+  private settle(id: number, results: HandLandmarkResults | null, error?: Error) {
+    if (!this.pending || this.pending.id !== id) return;
+
+    const { resolve, reject } = this.pending;
+    this.pending = null;
+    if (error) {
+      reject(error);
+    } else {
+      resolve(results);
+    }
+  }
+}
+
+// Whether frames can be handed to a worker in this browser
+export const supportsWorkerInference = (): boolean => {
+  return typeof Worker !== 'undefined'
+    && typeof OffscreenCanvas !== 'undefined'
+    && typeof createImageBitmap !== 'undefined';
+};
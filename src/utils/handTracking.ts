@@ -0,0 +1,338 @@
+// This file contains the per-hand state used when several hands are in view.
+// Hands are followed from frame to frame by their wrist position, so each one
+// keeps its own smoothing, gesture stability and motion sequence progress.
+import {
+  calculateDistance,
+  calculateFingerCurls,
+  calculatePalmFacing,
+  FingerCurls,
+  fingerStateFromCurls,
+  Landmark
+} from './landmarkUtils';
+import { LandmarkSmoother, SmoothingParams } from './landmarkSmoothing';
+import { determineGesture, determinePairGesture, GestureFeatures, GestureType } from './gestureRegistry';
+import { getLeadingProgress, MotionFrame, MotionGestureTracker, MotionProgress } from './motionGestures';
+
+// Axis-aligned box in normalized image coordinates
+export interface BoundingBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface HandGestureResult {
+  // Stays the same while the hand remains in view
+  id: number;
+  handedness: string | null;
+  gesture: GestureType;
+  confidence: number;
+  landmarks: Landmark[];
+  boundingBox: BoundingBox;
+  fingerCurls: FingerCurls;
+  sequence: MotionProgress | null;
+  // Name of the camera zone the hand is in, see zones.ts
+  zone: string | null;
+}
+
+export interface TwoHandGestureResult {
+  gesture: GestureType;
+  confidence: number;
+  // Ids of the left and right hand
+  handIds: [number, number];
+  boundingBox: BoundingBox;
+}
+
+// How long a completed sequence gesture stays the current gesture
+const SEQUENCE_HOLD_MS = 800;
+// Furthest a wrist may move between frames (in image widths) and still be
+// treated as the same hand
+const MAX_TRACKING_DISTANCE = 0.2;
+// Frames a hand may go unseen before its state is dropped
+const MAX_MISSED_FRAMES = 5;
+// Classifications below this confidence never change the current gesture
+const MIN_GESTURE_CONFIDENCE = 0.6;
+// Hands further apart than this many palm sizes belong to different people
+const MAX_PAIR_DISTANCE = 6;
+
+// Bounding box of a set of landmarks
+export const calculateBoundingBox = (landmarks: Landmark[]): BoundingBox => {
+  let minX = 1, minY = 1, maxX = 0, maxY = 0;
+  for (const { x, y } of landmarks) {
+    minX = Math.min(minX, x);
+    minY = Math.min(minY, y);
+    maxX = Math.max(maxX, x);
+    maxY = Math.max(maxY, y);
+  }
+
+  return { x: minX, y: minY, width: Math.max(0, maxX - minX), height: Math.max(0, maxY - minY) };
+};
+
+const mergeBoundingBoxes = (a: BoundingBox, b: BoundingBox): BoundingBox => {
+  const x = Math.min(a.x, b.x);
+  const y = Math.min(a.y, b.y);
+  return {
+    x,
+    y,
+    width: Math.max(a.x + a.width, b.x + b.width) - x,
+    height: Math.max(a.y + a.height, b.y + b.height) - y
+  };
+};
+
+// Only lets a gesture become current after it was seen on enough
+// consecutive frames
+export class GestureStabilizer {
+  gesture: GestureType = 'none';
+  confidence = 0;
+  private candidate: GestureType = 'none';
+  private consecutiveFrames = 0;
+
+  update(gesture: GestureType, confidence: number, requiredFrames: number): void {
+    // Only change gesture if confidence is high enough
+    if (confidence <= MIN_GESTURE_CONFIDENCE) return;
+
+    if (gesture === this.candidate) {
+      this.consecutiveFrames++;
+    } else {
+      this.candidate = gesture;
+      this.consecutiveFrames = 1;
+    }
+
+    if (this.consecutiveFrames >= requiredFrames) {
+      this.gesture = gesture;
+      this.confidence = confidence;
+    }
+  }
+
+  clear(): void {
+    this.gesture = 'none';
+    this.confidence = 0;
+    this.consecutiveFrames = 0;
+  }
+
+  restart(): void {
+    this.consecutiveFrames = 0;
+  }
+}
+
+// A single hand followed across frames
+export class TrackedHand {
+  features: GestureFeatures | null = null;
+  gesture: GestureType = 'none';
+  confidence = 0;
+  sequence: MotionProgress | null = null;
+  // Camera zone the hand was last seen in
+  zone: string | null = null;
+  private stabilizer = new GestureStabilizer();
+  private motion = new MotionGestureTracker();
+  private smoother: LandmarkSmoother | null;
+  // Smooths the landmarks the joint angles are measured on
+  private geometrySmoother: LandmarkSmoother | null;
+  private missedFrames = 0;
+  // Sequence gestures are reported for a short while after they complete so
+  // the polling UI gets to see them
+  private sequenceHoldUntil = 0;
+
+  constructor(readonly id: number, public handedness: string | null, smoothing: SmoothingParams | false) {
+    this.smoother = smoothing ? new LandmarkSmoother(smoothing) : null;
+    this.geometrySmoother = smoothing ? new LandmarkSmoother(smoothing) : null;
+  }
+
+  get visible(): boolean {
+    return this.missedFrames === 0 && this.features !== null;
+  }
+
+  // Wrist position of the last sighting
+  get wrist(): Landmark | null {
+    return this.features?.landmarks[0] ?? null;
+  }
+
+  setSmoothing(params: SmoothingParams): void {
+    this.smoother?.setParams(params);
+    this.geometrySmoother?.setParams(params);
+  }
+
+  // Classify the hand's landmarks for this frame. Finger curls and palm
+  // facing are measured on the geometry landmarks, whose axes share a scale
+  // (world landmarks, or image landmarks through toUniformScale).
+  update(
+    rawLandmarks: Landmark[],
+    rawGeometry: Landmark[],
+    handedness: string | null,
+    timestamp: number,
+    requiredFrames: number
+  ): void {
+    if (handedness !== this.handedness) {
+      // A different hand; don't blend it with the previous one
+      this.smoother?.reset();
+      this.geometrySmoother?.reset();
+      this.handedness = handedness;
+    }
+    this.missedFrames = 0;
+
+    // Smooth out frame to frame jitter before classifying
+    const landmarks = this.smoother ? this.smoother.smooth(rawLandmarks, timestamp / 1000) : rawLandmarks;
+    const geometry = this.geometrySmoother ? this.geometrySmoother.smooth(rawGeometry, timestamp / 1000) : rawGeometry;
+
+    // Estimate finger curls from joint angles, then which fingers are extended
+    const curls = calculateFingerCurls(geometry, handedness);
+    const fingers = fingerStateFromCurls(curls);
+    const palmFacing = calculatePalmFacing(geometry, handedness);
+
+    const features = { landmarks, fingers, curls, palmFacing, handedness };
+    this.features = features;
+
+    // Determine gesture based on finger states
+    const result = determineGesture(features);
+
+    // Track motion gestures across frames
+    if (this.trackMotion({ gesture: result.gesture, confidence: result.confidence, features, timestamp })) {
+      return;
+    }
+
+    if (timestamp < this.sequenceHoldUntil) return;
+
+    this.stabilizer.update(result.gesture, result.confidence, requiredFrames);
+    this.gesture = this.stabilizer.gesture;
+    this.confidence = this.stabilizer.confidence;
+  }
+
+  // The hand was not seen this frame. Returns false once the hand has been
+  // gone long enough to be forgotten.
+  miss(timestamp: number): boolean {
+    this.missedFrames++;
+    this.smoother?.reset();
+      this.geometrySmoother?.reset();
+    this.trackMotion({ gesture: 'none', confidence: 0, features: null, timestamp });
+
+    if (timestamp >= this.sequenceHoldUntil) {
+      this.stabilizer.clear();
+      this.gesture = 'none';
+      this.confidence = 0;
+    }
+
+    return this.missedFrames <= MAX_MISSED_FRAMES || timestamp < this.sequenceHoldUntil;
+  }
+
+  // Start gesture and sequence tracking over, e.g. after a cooldown
+  restart(): void {
+    this.stabilizer.restart();
+    this.motion.reset();
+    this.sequence = null;
+  }
+
+  toResult(): HandGestureResult | null {
+    if (!this.visible || !this.features) return null;
+
+    return {
+      id: this.id,
+      handedness: this.handedness,
+      gesture: this.gesture,
+      confidence: this.confidence,
+      landmarks: this.features.landmarks,
+      boundingBox: calculateBoundingBox(this.features.landmarks),
+      fingerCurls: this.features.curls,
+      sequence: this.sequence,
+      zone: this.zone
+    };
+  }
+
+  // Feed a frame to the motion gesture state machines. Returns true when a
+  // motion gesture completed and became the current gesture.
+  private trackMotion(frame: MotionFrame): boolean {
+    const { completed, progress } = this.motion.update(frame);
+    this.sequence = getLeadingProgress(progress);
+
+    if (!completed) return false;
+
+    this.gesture = completed.gesture;
+    this.confidence = completed.confidence;
+    this.sequenceHoldUntil = frame.timestamp + SEQUENCE_HOLD_MS;
+    return true;
+  }
+}
+
+// Pair each detected hand with the tracked hand whose wrist is closest,
+// preferring the same handedness. Returns the match for every detection, or
+// null for hands that just came into view.
+export const matchHands = (
+  tracked: TrackedHand[],
+  detections: { landmarks: Landmark[]; handedness: string | null }[]
+): (TrackedHand | null)[] => {
+  const candidates: { detection: number; hand: TrackedHand; cost: number }[] = [];
+
+  detections.forEach(({ landmarks, handedness }, detection) => {
+    for (const hand of tracked) {
+      const wrist = hand.wrist;
+      if (!wrist) continue;
+
+      const distance = calculateDistance(wrist, landmarks[0]);
+      if (distance > MAX_TRACKING_DISTANCE) continue;
+
+      candidates.push({ detection, hand, cost: distance + (hand.handedness === handedness ? 0 : 0.1) });
+    }
+  });
+
+  // Greedily take the cheapest matches first
+  candidates.sort((a, b) => a.cost - b.cost);
+
+  const matches: (TrackedHand | null)[] = detections.map(() => null);
+  const used = new Set<TrackedHand>();
+  for (const { detection, hand } of candidates) {
+    if (matches[detection] || used.has(hand)) continue;
+    matches[detection] = hand;
+    used.add(hand);
+  }
+
+  return matches;
+};
+
+// Two-hand gesture state for a left and a right hand seen together
+export class TrackedPair {
+  private stabilizer = new GestureStabilizer();
+
+  constructor(readonly left: TrackedHand, readonly right: TrackedHand) {}
+
+  static keyFor(left: TrackedHand, right: TrackedHand): string {
+    return `${left.id}:${right.id}`;
+  }
+
+  // Whether two hands could belong to the same person
+  static plausible(left: TrackedHand, right: TrackedHand): boolean {
+    if (!left.features || !right.features) return false;
+
+    const palmSize = (calculateDistance(left.features.landmarks[0], left.features.landmarks[9]) +
+      calculateDistance(right.features.landmarks[0], right.features.landmarks[9])) / 2;
+    const distance = calculateDistance(left.features.landmarks[0], right.features.landmarks[0]);
+    return palmSize > 0 && distance / palmSize <= MAX_PAIR_DISTANCE;
+  }
+
+  update(requiredFrames: number): void {
+    if (!this.left.features || !this.right.features) return;
+
+    const result = determinePairGesture(this.left.features, this.right.features);
+    if (result.gesture === 'none') {
+      this.stabilizer.clear();
+    } else {
+      this.stabilizer.update(result.gesture, result.confidence, requiredFrames);
+    }
+  }
+
+  restart(): void {
+    this.stabilizer.restart();
+  }
+
+  toResult(): TwoHandGestureResult | null {
+    if (!this.left.features || !this.right.features) return null;
+
+    return {
+      gesture: this.stabilizer.gesture,
+      confidence: this.stabilizer.confidence,
+      handIds: [this.left.id, this.right.id],
+      boundingBox: mergeBoundingBoxes(
+        calculateBoundingBox(this.left.features.landmarks),
+        calculateBoundingBox(this.right.features.landmarks)
+      )
+    };
+  }
+}
@@ -0,0 +1,54 @@
+// This file contains the Signal for Help gesture: open palm, thumb tucked
+// into the palm, then fingers folded over the thumb
+import { calculateDistance } from './landmarkUtils';
+import { GestureFeatures } from './gestureRegistry';
+import type { MotionFrame, MotionGestureSpec } from './motionGestures';
+
+export type HelpSignalPhase = 'open_palm' | 'thumb_tucked' | 'fingers_folded';
+
+// Work out which phase of the signal a single frame shows, if any
+export const classifyHelpSignalPhase = ({ landmarks, fingers }: GestureFeatures): HelpSignalPhase | null => {
+  const { thumb, index, middle, ring, pinky } = fingers;
+  const fourFingersExtended = index && middle && ring && pinky;
+  const fourFingersFolded = !index && !middle && !ring && !pinky;
+
+  // Use the wrist to middle knuckle distance as the palm size so the checks
+  // do not depend on how far the hand is from the camera
+  const palmSize = calculateDistance(landmarks[0], landmarks[9]);
+  if (palmSize === 0) return null;
+
+  // Thumb tip resting near the middle of the palm
+  const thumbToPalm = calculateDistance(landmarks[4], landmarks[9]) / palmSize;
+  const thumbInPalm = thumbToPalm < 0.6;
+
+  if (fourFingersExtended && thumb) {
+    return 'open_palm';
+  }
+
+  if (fourFingersExtended && !thumb && thumbInPalm) {
+    return 'thumb_tucked';
+  }
+
+  if (fourFingersFolded && !thumb && thumbInPalm) {
+    return 'fingers_folded';
+  }
+
+  return null;
+};
+
+// The Signal for Help as a motion gesture: each phase has to be seen in
+// order, with short gaps allowed while the hand moves between phases
+const inPhase = (phase: HelpSignalPhase) => (frame: MotionFrame) =>
+  !!frame.features && classifyHelpSignalPhase(frame.features) === phase;
+
+export const HELP_SIGNAL_SPEC: MotionGestureSpec = {
+  id: 'signal_for_help',
+  timeoutMs: 4000,
+  toleranceMs: 1000,
+  confidence: 0.95,
+  states: [
+    { id: 'open_palm', label: 'Open palm', when: inPhase('open_palm'), minDwellMs: 100 },
+    { id: 'thumb_tucked', label: 'Thumb tucked', when: inPhase('thumb_tucked'), minDwellMs: 100 },
+    { id: 'fingers_folded', label: 'Fingers folded over thumb', when: inPhase('fingers_folded'), minDwellMs: 50 }
+  ]
+};
@@ -0,0 +1,31 @@
+// This file contains the IndexedDB helpers shared by the stores that keep
+// alerts, the custody log and the evidence vault's keys in the browser.
+
+// Settle with a request's result or error
+export const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// Settle once a transaction has committed, or failed or been aborted
+export const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error("Transaction aborted"));
+  });
+
+// Open a database, letting upgrade create or migrate its stores when it is
+// new or older than version
+export const openDatabase = (
+  name: string,
+  version: number,
+  upgrade: (request: IDBOpenDBRequest, event: IDBVersionChangeEvent) => void
+): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    const request = indexedDB.open(name, version);
+    request.onupgradeneeded = (event) => upgrade(request, event);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
@@ -0,0 +1,102 @@
+// This file contains the adaptive low-pass filter applied to hand landmarks
+// before classification. See Casiez et al., "1€ Filter: A Simple Speed-based
+// Low-pass Filter for Noisy Input in Interactive Systems" (CHI 2012).
+import type { Landmark } from './landmarkUtils';
+
+export interface SmoothingParams {
+  // Cutoff frequency (Hz) when the hand is still; lower removes more jitter
+  minCutoff: number;
+  // How quickly the cutoff rises with speed; higher reduces lag on fast moves
+  beta: number;
+  // Cutoff frequency (Hz) used when estimating the speed
+  derivativeCutoff: number;
+}
+
+export const DEFAULT_SMOOTHING: SmoothingParams = {
+  minCutoff: 1.0,
+  beta: 0.3,
+  derivativeCutoff: 1.0
+};
+
+const smoothingFactor = (cutoff: number, elapsed: number) => {
+  const tau = 1 / (2 * Math.PI * cutoff);
+  return 1 / (1 + tau / elapsed);
+};
+
+// One Euro filter for a single scalar signal
+export class OneEuroFilter {
+  private previousValue: number | null = null;
+  private previousDerivative = 0;
+  private previousTime = 0;
+
+  constructor(private params: SmoothingParams = DEFAULT_SMOOTHING) {}
+
+  setParams(params: SmoothingParams): void {
+    this.params = params;
+  }
+
+  // Filter a sample taken at the given time in seconds
+  filter(value: number, timestamp: number): number {
+    if (this.previousValue === null) {
+      this.previousValue = value;
+      this.previousTime = timestamp;
+      return value;
+    }
+
+    const elapsed = timestamp - this.previousTime;
+    // Repeated or out of order timestamps carry no new information
+    if (elapsed <= 0) return this.previousValue;
+
+    const { minCutoff, beta, derivativeCutoff } = this.params;
+
+    const derivative = (value - this.previousValue) / elapsed;
+    const derivativeAlpha = smoothingFactor(derivativeCutoff, elapsed);
+    const smoothedDerivative = derivativeAlpha * derivative + (1 - derivativeAlpha) * this.previousDerivative;
+
+    const cutoff = minCutoff + beta * Math.abs(smoothedDerivative);
+    const alpha = smoothingFactor(cutoff, elapsed);
+    const smoothed = alpha * value + (1 - alpha) * this.previousValue;
+
+    this.previousValue = smoothed;
+    this.previousDerivative = smoothedDerivative;
+    this.previousTime = timestamp;
+    return smoothed;
+  }
+
+  reset(): void {
+    this.previousValue = null;
+    this.previousDerivative = 0;
+  }
+}
+
+// Smooths every coordinate of a hand's landmarks with its own filter
+export class LandmarkSmoother {
+  private filters: OneEuroFilter[] = [];
+
+  constructor(private params: SmoothingParams = DEFAULT_SMOOTHING) {}
+
+  setParams(params: SmoothingParams): void {
+    this.params = params;
+    this.filters.forEach(filter => filter.setParams(params));
+  }
+
+  // Returns a new smoothed landmark list; the input is left untouched
+  smooth(landmarks: Landmark[], timestamp: number): Landmark[] {
+    const needed = landmarks.length * 3;
+    while (this.filters.length < needed) {
+      this.filters.push(new OneEuroFilter(this.params));
+    }
+
+    return landmarks.map((landmark, i) => ({
+      ...landmark,
+      x: this.filters[i * 3].filter(landmark.x, timestamp),
+      y: this.filters[i * 3 + 1].filter(landmark.y, timestamp),
+      z: this.filters[i * 3 + 2].filter(landmark.z, timestamp)
+    }));
+  }
+
+  // Forget the previous hand, e.g. after it left the frame
+  reset(): void {
+    this.filters.forEach(filter => filter.reset());
+  }
+}
@@ -0,0 +1,187 @@
+// This file contains geometry helpers shared by the gesture classifiers
+import type { NormalizedLandmark } from '@mediapipe/hands';
+
+// A single hand landmark as produced by MediaPipe Hands
+export type Landmark = NormalizedLandmark;
+
+// Which fingers are currently extended
+export interface FingerState {
+  thumb: boolean;
+  index: boolean;
+  middle: boolean;
+  ring: boolean;
+  pinky: boolean;
+}
+
+// How far each finger is curled, from 0 (straight) to 1 (fully curled)
+export interface FingerCurls {
+  thumb: number;
+  index: number;
+  middle: number;
+  ring: number;
+  pinky: number;
+}
+
+// Which way the palm points relative to the camera
+export type PalmFacing = 'camera' | 'away' | 'side';
+
+// Curl above which a finger no longer counts as extended
+const EXTENDED_CURL = 0.4;
+// Total joint bend (radians) of a fully curled finger: roughly 90° at the
+// knuckle, 100° at the middle joint and 70° at the last joint
+const FULL_FINGER_BEND = (260 * Math.PI) / 180;
+// Total bend of a fully curled thumb over its two outer joints
+const FULL_THUMB_BEND = (140 * Math.PI) / 180;
+// Share of the palm normal's length that has to point along the camera axis
+// before the palm counts as facing towards or away from it
+const FACING_THRESHOLD = 0.5;
+
+interface Vector {
+  x: number;
+  y: number;
+  z: number;
+}
+
+const subtract = (a: Landmark, b: Landmark): Vector => ({ x: a.x - b.x, y: a.y - b.y, z: a.z - b.z });
+
+const dot = (a: Vector, b: Vector) => a.x * b.x + a.y * b.y + a.z * b.z;
+
+const cross = (a: Vector, b: Vector): Vector => ({
+  x: a.y * b.z - a.z * b.y,
+  y: a.z * b.x - a.x * b.z,
+  z: a.x * b.y - a.y * b.x
+});
+
+const length = (v: Vector) => Math.sqrt(dot(v, v));
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+// Image landmarks with y rescaled to the same unit as x (and MediaPipe's z,
+// which uses roughly the scale of x), for a frame of the given height to
+// width ratio. Angles between image landmarks are only true to the hand once
+// the axes share a scale.
+export const toUniformScale = (landmarks: Landmark[], aspectRatio: number): Landmark[] => {
+  return landmarks.map(landmark => ({ ...landmark, y: landmark.y * aspectRatio }));
+};
+
+// Angle (radians) by which the chain a -> b -> c bends at b; 0 when straight
+const bendAngle = (a: Landmark, b: Landmark, c: Landmark) => {
+  const first = subtract(b, a);
+  const second = subtract(c, b);
+  const lengths = length(first) * length(second);
+  if (lengths === 0) return 0;
+
+  return Math.acos(Math.max(-1, Math.min(1, dot(first, second) / lengths)));
+};
+
+// Unit normal pointing out of the palm side of the hand. The winding of
+// wrist, index knuckle and pinky knuckle is opposite for the two hands, so
+// handedness decides the sign. Landmarks are in the mirrored (selfie) frame
+// and their axes must share a scale: world landmarks, or image landmarks
+// passed through toUniformScale.
+export const calculatePalmNormal = (landmarks: Landmark[], handedness: string | null): Vector => {
+  const normal = cross(subtract(landmarks[5], landmarks[0]), subtract(landmarks[17], landmarks[0]));
+  const size = length(normal) || 1;
+  const sign = handedness === 'Left' ? 1 : -1;
+
+  return { x: (sign * normal.x) / size, y: (sign * normal.y) / size, z: (sign * normal.z) / size };
+};
+
+// Whether the palm faces the camera; MediaPipe's z shrinks towards the camera
+export const calculatePalmFacing = (landmarks: Landmark[], handedness: string | null): PalmFacing => {
+  const { z } = calculatePalmNormal(landmarks, handedness);
+  if (z < -FACING_THRESHOLD) return 'camera';
+  if (z > FACING_THRESHOLD) return 'away';
+  return 'side';
+};
+
+// Curl of a long finger from the bend at its three joints. Joint angles do
+// not change when the hand rotates, unlike distances in the image plane.
+const fingerCurl = (landmarks: Landmark[], mcp: number) => {
+  const bend =
+    bendAngle(landmarks[0], landmarks[mcp], landmarks[mcp + 1]) +
+    bendAngle(landmarks[mcp], landmarks[mcp + 1], landmarks[mcp + 2]) +
+    bendAngle(landmarks[mcp + 1], landmarks[mcp + 2], landmarks[mcp + 3]);
+
+  return clamp01(bend / FULL_FINGER_BEND);
+};
+
+// The thumb can be tucked across the palm while staying fairly straight, so
+// its curl is the larger of its joint bend and how far the tip has crossed
+// the palm towards the little finger
+const thumbCurl = (landmarks: Landmark[], handedness: string | null) => {
+  const bend =
+    bendAngle(landmarks[1], landmarks[2], landmarks[3]) +
+    bendAngle(landmarks[2], landmarks[3], landmarks[4]);
+  const bendCurl = clamp01(bend / FULL_THUMB_BEND);
+
+  // Axis across the palm from the little finger to the index finger
+  const across = subtract(landmarks[5], landmarks[17]);
+  const palmWidth = length(across);
+  if (palmWidth === 0) return bendCurl;
+
+  // Only count the tip as crossing when it lies on the palm side of the hand
+  const tip = subtract(landmarks[4], landmarks[5]);
+  const inFront = dot(tip, calculatePalmNormal(landmarks, handedness)) > -0.1 * palmWidth;
+  const crossed = -dot(tip, across) / (palmWidth * palmWidth);
+  const acrossCurl = inFront ? clamp01(crossed * 2) : 0;
+
+  return Math.max(bendCurl, acrossCurl);
+};
+
+// Estimate how far each finger is curled, from landmarks whose axes share a
+// scale (see calculatePalmNormal)
+export const calculateFingerCurls = (landmarks: Landmark[], handedness: string | null): FingerCurls => ({
+  thumb: thumbCurl(landmarks, handedness),
+  index: fingerCurl(landmarks, 5),
+  middle: fingerCurl(landmarks, 9),
+  ring: fingerCurl(landmarks, 13),
+  pinky: fingerCurl(landmarks, 17)
+});
+
+// Which fingers count as extended for the given curls
+export const fingerStateFromCurls = (curls: FingerCurls): FingerState => ({
+  thumb: curls.thumb < EXTENDED_CURL,
+  index: curls.index < EXTENDED_CURL,
+  middle: curls.middle < EXTENDED_CURL,
+  ring: curls.ring < EXTENDED_CURL,
+  pinky: curls.pinky < EXTENDED_CURL
+});
+
+// Calculate distance between two 3D points
+export const calculateDistance = (point1: Landmark, point2: Landmark) => {
+  const dx = point1.x - point2.x;
+  const dy = point1.y - point2.y;
+  const dz = point1.z - point2.z;
+
+  return Math.sqrt(dx*dx + dy*dy + dz*dz);
+};
+
+// Calculate angle between fingers
+export const calculateAngleBetweenFingers = (palmPoint: Landmark, finger1Tip: Landmark, finger2Tip: Landmark) => {
+  // Create vectors from palm to fingertips
+  const vector1 = {
+    x: finger1Tip.x - palmPoint.x,
+    y: finger1Tip.y - palmPoint.y
+  };
+
+  const vector2 = {
+    x: finger2Tip.x - palmPoint.x,
+    y: finger2Tip.y - palmPoint.y
+  };
+
+  // Normalize vectors
+  const length1 = Math.sqrt(vector1.x*vector1.x + vector1.y*vector1.y);
+  const length2 = Math.sqrt(vector2.x*vector2.x + vector2.y*vector2.y);
+
+  vector1.x /= length1;
+  vector1.y /= length1;
+  vector2.x /= length2;
+  vector2.y /= length2;
+
+  // Calculate dot product
+  const dotProduct = vector1.x * vector2.x + vector1.y * vector2.y;
+
+  // Calculate angle (0-1 range, where 0 is aligned, 1 is perpendicular)
+  return (1 - dotProduct) / 2;
+};
@@ -0,0 +1,83 @@
+// This file contains playback of recorded video files as a detection source.
+// Alerts raised while a recording plays carry the time the frame was
+// recorded rather than the time it was watched.
+export interface MediaPlayback {
+  // File name of the recording
+  name: string;
+  // When the first frame of the recording was taken
+  recordedAt: Date;
+}
+
+export interface MediaTimestamp {
+  timestamp: Date;
+  // Seconds into the recording
+  mediaTime: number;
+  mediaName: string;
+}
+
+export const PLAYBACK_RATES = [0.25, 0.5, 1, 1.5, 2];
+
+// Recordings playing in each video element
+const playbacks = new WeakMap<HTMLVideoElement, MediaPlayback>();
+
+export const isVideoFile = (file: File): boolean => file.type.startsWith('video/');
+
+// Play a video file in the element until the returned function is called.
+// Until setRecordingStart says otherwise, the recording is taken to have
+// ended when the file was last modified.
+export const playVideoFile = (video: HTMLVideoElement, file: File): (() => void) => {
+  const url = URL.createObjectURL(file);
+  const playback: MediaPlayback = { name: file.name, recordedAt: new Date(file.lastModified) };
+
+  const handleMetadata = () => {
+    if (Number.isFinite(video.duration)) {
+      playback.recordedAt = new Date(file.lastModified - video.duration * 1000);
+    }
+  };
+  video.addEventListener('loadedmetadata', handleMetadata, { once: true });
+
+  video.srcObject = null;
+  video.src = url;
+  playbacks.set(video, playback);
+
+  return () => {
+    video.removeEventListener('loadedmetadata', handleMetadata);
+    playbacks.delete(video);
+    video.pause();
+    video.removeAttribute('src');
+    video.load();
+    URL.revokeObjectURL(url);
+  };
+};
+
+// The recording playing in the video, or null for live video
+export const getPlayback = (video: HTMLVideoElement): MediaPlayback | null => {
+  return playbacks.get(video) ?? null;
+};
+
+// Correct when the recording playing in the video was started
+export const setRecordingStart = (video: HTMLVideoElement, recordedAt: Date): void => {
+  const playback = playbacks.get(video);
+  if (playback) playback.recordedAt = recordedAt;
+};
+
+// When the frame showing in the video was recorded, or null for live video
+export const getMediaTimestamp = (video: HTMLVideoElement): MediaTimestamp | null => {
+  const playback = playbacks.get(video);
+  if (!playback) return null;
+
+  return {
+    timestamp: new Date(playback.recordedAt.getTime() + video.currentTime * 1000),
+    mediaTime: video.currentTime,
+    mediaName: playback.name
+  };
+};
+
+// Format seconds into a recording as m:ss, or h:mm:ss for long recordings
+export const formatMediaTime = (seconds: number): string => {
+  const total = Math.max(0, Math.floor(seconds));
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = String(total % 60).padStart(2, '0');
+  return h > 0 ? `${h}:${String(m).padStart(2, '0')}:${s}` : `${m}:${s}`;
+};
@@ -0,0 +1,105 @@
+// This file contains the loader for self-hosted MediaPipe model files. The
+// files a model will load are fetched from the app's own origin and checked
+// against the SHA-256 digest recorded at build time before the model is
+// allowed to use them; the rest of the package is never downloaded.
+
+// Object URLs of verified files, by file name
+export type ModelAssetUrls = Record<string, string>;
+
+export type ModelAssetFailure = 'unavailable' | 'integrity';
+
+export interface ModelAssetSource {
+  // Names the model in error messages, e.g. "Hand detection model"
+  label: string;
+  // URL prefix the files are served from
+  baseUrl: string;
+  // SHA-256 digest (hex) of every file, by file name
+  files: Record<string, string>;
+  createError: (message: string, reason: ModelAssetFailure) => Error;
+}
+
+const CONTENT_TYPES: Record<string, string> = {
+  js: 'text/javascript',
+  wasm: 'application/wasm'
+};
+
+// The smallest module using a SIMD instruction, the same probe MediaPipe
+// uses to choose between its SIMD and plain wasm builds
+const SIMD_PROBE = new Uint8Array([0, 97, 115, 109, 1, 0, 0, 0, 1, 4, 1, 96, 0, 0, 3, 2, 1, 0, 10, 9, 1, 7, 0, 65, 0, 253, 15, 26, 11]);
+
+// The script and wasm build of a MediaPipe solution this browser will load
+export const getWasmFiles = (solution: string): string[] => {
+  const build = `${solution}_solution_${WebAssembly.validate(SIMD_PROBE) ? 'simd_' : ''}wasm_bin`;
+  return [`${build}.js`, `${build}.wasm`];
+};
+
+const toHex = (buffer: ArrayBuffer) => {
+  return Array.from(new Uint8Array(buffer))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+};
+
+// Create the loader for one model's files
+export const createModelAssetLoader = ({ label, baseUrl, files, createError }: ModelAssetSource) => {
+  // Verified files by name. Failed loads are not kept so they can be retried.
+  const assetPromises = new Map<string, Promise<string>>();
+
+  const loadAsset = async (file: string): Promise<string> => {
+    const expectedDigest = files[file];
+    if (!expectedDigest) {
+      throw createError(`${label} file "${file}" is not part of the model package.`, 'unavailable');
+    }
+
+    let data: ArrayBuffer;
+    try {
+      const response = await fetch(`${baseUrl}${file}`);
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+      data = await response.arrayBuffer();
+    } catch (error) {
+      throw createError(
+        `${label} file "${file}" could not be loaded from this server (${error instanceof Error ? error.message : error}).`,
+        'unavailable'
+      );
+    }
+
+    const digest = toHex(await crypto.subtle.digest('SHA-256', data));
+    if (digest !== expectedDigest) {
+      throw createError(`${label} file "${file}" failed its integrity check and was refused.`, 'integrity');
+    }
+
+    const type = CONTENT_TYPES[file.split('.').pop() ?? ''] ?? 'application/octet-stream';
+    return URL.createObjectURL(new Blob([data], { type }));
+  };
+
+  const getAsset = (file: string): Promise<string> => {
+    let assetPromise = assetPromises.get(file);
+    if (!assetPromise) {
+      assetPromise = loadAsset(file);
+      assetPromises.set(file, assetPromise);
+      assetPromise.catch(() => {
+        assetPromises.delete(file);
+      });
+    }
+    return assetPromise;
+  };
+
+  return {
+    // Fetch and verify the files the model will load. Each file is fetched
+    // once; later calls share the result.
+    load: async (names: string[]): Promise<ModelAssetUrls> => {
+      const entries = await Promise.all(names.map(async file => [file, await getAsset(file)] as const));
+      return Object.fromEntries(entries);
+    },
+
+    // locateFile implementation for MediaPipe that only hands out verified files
+    locate: (urls: ModelAssetUrls) => (file: string): string => {
+      const url = urls[file];
+      if (!url) {
+        throw createError(`${label} requested file "${file}", which was not verified.`, 'unavailable');
+      }
+      return url;
+    }
+  };
+};
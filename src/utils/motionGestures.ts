@@ -0,0 +1,362 @@
+// This file contains the declarative state machine layer for motion gestures.
+// A motion gesture is a list of states the hand has to pass through, each
+// described by the per-frame gestures it accepts, optional predicates and
+// dwell times. The tracker feeds every frame to every registered machine.
+import { GestureFeatures, GestureType } from './gestureRegistry';
+import { HELP_SIGNAL_SPEC } from './helpSignal';
+
+// What a state machine sees for a single frame
+export interface MotionFrame {
+  // Per-frame output of determineGesture, before any stabilization
+  gesture: GestureType;
+  confidence: number;
+  // null when no hand is visible
+  features: GestureFeatures | null;
+  timestamp: number;
+}
+
+export interface MotionStateContext {
+  // Frame at which the currently active state was entered
+  stateEntry: MotionFrame;
+  // Frame at which the sequence started
+  sequenceStart: MotionFrame;
+}
+
+export interface MotionState {
+  id: string;
+  label: string;
+  // Per-frame gestures accepted in this state; any gesture if omitted
+  gestures?: GestureType[];
+  // Checked on every frame, both when entering and while in the state
+  when?: (frame: MotionFrame, context: MotionStateContext) => boolean;
+  // Checked only when moving into this state from the previous one
+  enter?: (frame: MotionFrame, context: MotionStateContext) => boolean;
+  // Checked only while staying in this state
+  hold?: (frame: MotionFrame, context: MotionStateContext) => boolean;
+  // Time the state must last before the machine may move on (or, for the
+  // final state, before the gesture completes)
+  minDwellMs?: number;
+  // Staying longer than this resets the machine
+  maxDwellMs?: number;
+}
+
+export interface MotionGestureSpec {
+  id: GestureType;
+  // Ordered states; the first is the initial state and the last completes
+  // the gesture. The order also defines the step numbers shown in the UI.
+  states: MotionState[];
+  // Allowed transitions by state id; defaults to each state moving to the next
+  transitions?: Record<string, string[]>;
+  // The whole sequence has to complete within this time
+  timeoutMs: number;
+  // How long frames that match no allowed state are tolerated
+  toleranceMs?: number;
+  // Confidence reported when the gesture completes
+  confidence?: number;
+}
+
+// Progress through a sequence, e.g. step 2 of 3
+export interface MotionProgress {
+  gestureId: GestureType;
+  step: number;
+  totalSteps: number;
+  stateLabel: string;
+}
+
+export interface MotionUpdate {
+  completed: { gesture: GestureType; confidence: number } | null;
+  progress: MotionProgress[];
+}
+
+const DEFAULT_TOLERANCE_MS = 300;
+const DEFAULT_COMPLETION_CONFIDENCE = 0.9;
+
+const motionRegistry = new Map<GestureType, MotionGestureSpec>();
+
+// Register a motion gesture, replacing any existing spec with the same id.
+// Returns a function that removes the spec again.
+export const registerMotionGesture = (spec: MotionGestureSpec): (() => void) => {
+  if (spec.states.length === 0) {
+    throw new Error(`Motion gesture "${spec.id}" needs at least one state`);
+  }
+
+  motionRegistry.set(spec.id, spec);
+
+  return () => {
+    if (motionRegistry.get(spec.id) === spec) {
+      motionRegistry.delete(spec.id);
+    }
+  };
+};
+
+// All registered motion gestures, in registration order
+export const getMotionGestures = (): MotionGestureSpec[] => {
+  return Array.from(motionRegistry.values());
+};
+
+// Runs a single motion gesture spec over a stream of frames
+class MotionStateMachine {
+  private stateIndex = -1;
+  private stateEntry: MotionFrame | null = null;
+  private sequenceStart: MotionFrame | null = null;
+  private lastMatchTime = 0;
+
+  constructor(readonly spec: MotionGestureSpec) {}
+
+  // Feed a frame; returns true when the gesture completes
+  update(frame: MotionFrame): boolean {
+    const { spec } = this;
+
+    if (this.stateIndex < 0) {
+      const initial = spec.states[0];
+      if (this.matches(initial, frame, frame, 'enter')) {
+        this.enter(0, frame);
+        this.sequenceStart = frame;
+      }
+      return this.checkComplete(frame);
+    }
+
+    if (frame.timestamp - this.sequenceStart!.timestamp > spec.timeoutMs) {
+      this.reset();
+      return this.update(frame);
+    }
+
+    const current = spec.states[this.stateIndex];
+    const dwell = frame.timestamp - this.stateEntry!.timestamp;
+
+    // Try to move on first, so a frame that satisfies both the current and
+    // the next state advances the sequence
+    if (dwell >= (current.minDwellMs ?? 0)) {
+      for (const nextIndex of this.nextStates()) {
+        if (this.matches(spec.states[nextIndex], frame, this.stateEntry!, 'enter')) {
+          this.enter(nextIndex, frame);
+          return this.checkComplete(frame);
+        }
+      }
+    }
+
+    if (this.matches(current, frame, this.stateEntry!, 'hold')) {
+      if (current.maxDwellMs !== undefined && dwell > current.maxDwellMs) {
+        this.reset();
+        return false;
+      }
+      this.lastMatchTime = frame.timestamp;
+      return this.checkComplete(frame);
+    }
+
+    if (frame.timestamp - this.lastMatchTime > (spec.toleranceMs ?? DEFAULT_TOLERANCE_MS)) {
+      this.reset();
+      return this.update(frame);
+    }
+
+    return false;
+  }
+
+  get progress(): MotionProgress | null {
+    if (this.stateIndex < 0) return null;
+
+    return {
+      gestureId: this.spec.id,
+      step: this.stateIndex + 1,
+      totalSteps: this.spec.states.length,
+      stateLabel: this.spec.states[this.stateIndex].label
+    };
+  }
+
+  reset(): void {
+    this.stateIndex = -1;
+    this.stateEntry = null;
+    this.sequenceStart = null;
+    this.lastMatchTime = 0;
+  }
+
+  private enter(index: number, frame: MotionFrame): void {
+    this.stateIndex = index;
+    this.stateEntry = frame;
+    this.lastMatchTime = frame.timestamp;
+  }
+
+  private nextStates(): number[] {
+    const { states, transitions } = this.spec;
+    const currentId = states[this.stateIndex].id;
+
+    if (!transitions) {
+      return this.stateIndex + 1 < states.length ? [this.stateIndex + 1] : [];
+    }
+
+    return (transitions[currentId] ?? [])
+      .map(id => states.findIndex(state => state.id === id))
+      .filter(index => index >= 0);
+  }
+
+  private matches(state: MotionState, frame: MotionFrame, stateEntry: MotionFrame, phase: 'enter' | 'hold'): boolean {
+    if (state.gestures && !state.gestures.includes(frame.gesture)) return false;
+
+    const context: MotionStateContext = {
+      stateEntry,
+      sequenceStart: this.sequenceStart ?? frame
+    };
+
+    if (state.when && !state.when(frame, context)) return false;
+    if (phase === 'enter' && state.enter && !state.enter(frame, context)) return false;
+    if (phase === 'hold' && state.hold && !state.hold(frame, context)) return false;
+
+    return true;
+  }
+
+  private checkComplete(frame: MotionFrame): boolean {
+    const { states } = this.spec;
+    if (this.stateIndex !== states.length - 1) return false;
+
+    const final = states[this.stateIndex];
+    if (frame.timestamp - this.stateEntry!.timestamp < (final.minDwellMs ?? 0)) return false;
+
+    this.reset();
+    return true;
+  }
+}
+
+// Feeds frames to one state machine per registered motion gesture
+export class MotionGestureTracker {
+  private machines = new Map<GestureType, MotionStateMachine>();
+
+  update(frame: MotionFrame): MotionUpdate {
+    this.syncMachines();
+
+    let completed: MotionUpdate['completed'] = null;
+    const progress: MotionProgress[] = [];
+
+    for (const machine of this.machines.values()) {
+      if (machine.update(frame)) {
+        // The first registered gesture wins if several complete together
+        completed ??= {
+          gesture: machine.spec.id,
+          confidence: machine.spec.confidence ?? DEFAULT_COMPLETION_CONFIDENCE
+        };
+      }
+
+      const machineProgress = machine.progress;
+      if (machineProgress) {
+        progress.push(machineProgress);
+      }
+    }
+
+    // A completed gesture starts every sequence over
+    if (completed) {
+      this.reset();
+      return { completed, progress: [] };
+    }
+
+    return { completed, progress };
+  }
+
+  reset(): void {
+    this.machines.forEach(machine => machine.reset());
+  }
+
+  // Pick up gestures registered or removed since the last frame
+  private syncMachines(): void {
+    const specs = getMotionGestures();
+
+    for (const id of this.machines.keys()) {
+      if (!specs.some(spec => spec.id === id)) {
+        this.machines.delete(id);
+      }
+    }
+
+    for (const spec of specs) {
+      if (this.machines.get(spec.id)?.spec !== spec) {
+        this.machines.set(spec.id, new MotionStateMachine(spec));
+      }
+    }
+  }
+}
+
+// Pick the sequence that is furthest along, for display
+export const getLeadingProgress = (progress: MotionProgress[]): MotionProgress | null => {
+  let leading: MotionProgress | null = null;
+
+  for (const entry of progress) {
+    // A single-step gesture that has only just started is not worth showing
+    if (entry.totalSteps > 1 && entry.step < 2) continue;
+
+    if (!leading || entry.step / entry.totalSteps > leading.step / leading.totalSteps) {
+      leading = entry;
+    }
+  }
+
+  return leading;
+};
+
+// Horizontal and vertical wrist movement between two frames
+const wristDelta = (frame: MotionFrame, from: MotionFrame) => {
+  const wrist = frame.features?.landmarks[0];
+  const origin = from.features?.landmarks[0];
+  if (!wrist || !origin) return { dx: 0, dy: 0 };
+
+  return { dx: wrist.x - origin.x, dy: wrist.y - origin.y };
+};
+
+// Built-in motion gestures
+
+registerMotionGesture(HELP_SIGNAL_SPEC);
+
+// Waving: open palm swinging to one side and back
+registerMotionGesture({
+  id: 'wave',
+  timeoutMs: 2500,
+  states: [
+    { id: 'raise', label: 'Palm raised', gestures: ['open_palm'] },
+    {
+      id: 'swing',
+      label: 'Swing',
+      gestures: ['open_palm'],
+      enter: (frame, { stateEntry }) => Math.abs(wristDelta(frame, stateEntry).dx) > 0.08
+    },
+    {
+      id: 'swing_back',
+      label: 'Swing back',
+      gestures: ['open_palm'],
+      // Moving back the opposite way to the first swing
+      enter: (frame, { stateEntry, sequenceStart }) => {
+        const firstSwing = wristDelta(stateEntry, sequenceStart).dx;
+        const back = wristDelta(frame, stateEntry).dx;
+        return back * firstSwing < 0 && Math.abs(back) > 0.12;
+      }
+    }
+  ]
+});
+
+// Fist pumps: a fist moved down and up twice
+const pumpDown = (frame: MotionFrame, { stateEntry }: MotionStateContext) => wristDelta(frame, stateEntry).dy > 0.08;
+const pumpUp = (frame: MotionFrame, { stateEntry }: MotionStateContext) => wristDelta(frame, stateEntry).dy < -0.08;
+
+registerMotionGesture({
+  id: 'fist_pump',
+  timeoutMs: 3000,
+  states: [
+    { id: 'fist', label: 'Fist raised', gestures: ['fist'] },
+    { id: 'down_1', label: 'First pump down', gestures: ['fist'], enter: pumpDown },
+    { id: 'up_1', label: 'First pump up', gestures: ['fist'], enter: pumpUp },
+    { id: 'down_2', label: 'Second pump down', gestures: ['fist'], enter: pumpDown },
+    { id: 'up_2', label: 'Second pump up', gestures: ['fist'], enter: pumpUp }
+  ]
+});
+
+// Palm held still for three seconds
+registerMotionGesture({
+  id: 'palm_hold',
+  timeoutMs: 4000,
+  states: [
+    {
+      id: 'hold',
+      label: 'Holding palm still',
+      gestures: ['open_palm'],
+      minDwellMs: 3000,
+      hold: (frame, { stateEntry }) => {
+        const { dx, dy } = wristDelta(frame, stateEntry);
+        return Math.sqrt(dx*dx + dy*dy) < 0.05;
+      }
+    }
+  ]
+});
@@ -0,0 +1,399 @@
+// This file contains the privacy pipeline every captured image and clip goes
+// through before it leaves the app. Faces found by an on-device face detector
+// are pixelated, either everyone's or only the bystanders', and the camera's
+// privacy masks are blacked out. The unredacted original is sealed in the
+// evidence vault, see evidenceVault.ts.
+import { FaceDetection, Results } from '@mediapipe/face_detection';
+import { loadFaceAssets, locateFaceAsset } from './faceAssets';
+import { isEmergencyGesture } from './gestureRegistry';
+import { sealEvidence, SealedEvidence } from './evidenceVault';
+import type { GestureResult } from './gestureDetector';
+import type { BoundingBox } from './handTracking';
+import type { ZonePoint } from './zones';
+
+export type FaceBlurMode = 'off' | 'bystanders' | 'all';
+
+export const FACE_BLUR_MODES: Record<FaceBlurMode, { label: string; description: string }> = {
+  off: { label: 'Off', description: 'Faces are left as recorded' },
+  bystanders: { label: 'Bystanders', description: 'Every face except the person signalling is blurred' },
+  all: { label: 'Everyone', description: 'Every face is blurred' }
+};
+
+export interface RedactionOptions {
+  blurFaces: FaceBlurMode;
+  // Outlines in the frame as shown, 0-1, see zones.ts
+  masks: ZonePoint[][];
+}
+
+// What was hidden in a capture
+export interface RedactionSummary {
+  faces: number;
+  masks: number;
+  // Faces could not be looked for, so the whole picture was blurred instead
+  fullFrame: boolean;
+}
+
+export interface CaptureOptions extends RedactionOptions {
+  // JPEG quality, 0-1
+  quality: number;
+  // Seal the unredacted frame in the evidence vault
+  keepOriginal: boolean;
+  // Hands making the gesture, in frame coordinates; their owners' faces are
+  // kept in bystander mode
+  subjects?: BoundingBox[];
+}
+
+export interface CapturedEvidence {
+  // The image as it may leave the app
+  imageData: string;
+  // Present when the image was redacted
+  redaction?: RedactionSummary;
+  original?: SealedEvidence;
+}
+
+// A face further than this many face heights from a signalling hand is not
+// taken to be its owner's
+const MAX_SUBJECT_DISTANCE = 5;
+// Pixelated faces are this many blocks across, too few to recognise anyone
+const FACE_BLOCKS = 6;
+const FULL_FRAME_BLOCKS = 24;
+// Faces are padded by this share of their size, to cover hair and ears
+const FACE_PADDING = 0.25;
+// Between detections in a clip, faces grow by this share of their size on
+// every side per second, to keep covering people who move
+const FACE_GROWTH_PER_SECOND = 1;
+// Clip frames whose faces were found more than this many detection
+// intervals ago are blurred whole
+const STALE_DETECTION_INTERVALS = 4;
+
+// Runs MediaPipe Face Detection on the main thread, one image at a time
+class FaceLocator {
+  private model: Promise<FaceDetection> | null = null;
+  private queue: Promise<unknown> = Promise.resolve();
+  private latest: BoundingBox[] = [];
+
+  // Faces in the image, 0-1 from the top left
+  locate(image: HTMLVideoElement | HTMLCanvasElement): Promise<BoundingBox[]> {
+    const run = this.queue.then(async () => {
+      const model = await this.prepare();
+      this.latest = [];
+      // onResults fires before send resolves
+      await model.send({ image });
+      return this.latest;
+    });
+
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  // Load the model ahead of the first image
+  prepare(): Promise<FaceDetection> {
+    if (!this.model) {
+      this.model = (async () => {
+        const urls = await loadFaceAssets();
+        const model = new FaceDetection({ locateFile: locateFaceAsset(urls) });
+        // The full range model finds the small faces of people far from the camera
+        model.setOptions({ model: 'full', minDetectionConfidence: 0.5 });
+        model.onResults((results: Results) => {
+          this.latest = (results.detections ?? []).map(({ boundingBox: box }) => ({
+            x: box.xCenter - box.width / 2,
+            y: box.yCenter - box.height / 2,
+            width: box.width,
+            height: box.height
+          }));
+        });
+        await model.initialize();
+        return model;
+      })();
+
+      this.model.catch(() => {
+        this.model = null;
+      });
+    }
+
+    return this.model;
+  }
+}
+
+const faceLocator = new FaceLocator();
+
+// Find the faces in an image with the shared on-device face detector
+export const locateFaces = (image: HTMLVideoElement | HTMLCanvasElement): Promise<BoundingBox[]> => {
+  return faceLocator.locate(image);
+};
+
+// Load the face detector now, so the first capture is not held up by it
+export const prepareFaceDetector = async (): Promise<void> => {
+  await faceLocator.prepare();
+};
+
+// Whether these options hide anything at all
+export const isRedacting = ({ blurFaces, masks }: RedactionOptions): boolean => {
+  return blurFaces !== 'off' || masks.length > 0;
+};
+
+// Boxes of the hands making an emergency gesture, in frame coordinates. The
+// detector's landmarks are mirrored, so they are flipped back first.
+export const getSignallingHands = (result: GestureResult): BoundingBox[] => {
+  return [...(result.hands ?? []), ...(result.twoHanded ?? [])]
+    .filter(hand => isEmergencyGesture(hand.gesture))
+    .map(({ boundingBox: box }) => ({ ...box, x: 1 - box.x - box.width }));
+};
+
+const center = (box: BoundingBox) => ({ x: box.x + box.width / 2, y: box.y + box.height / 2 });
+
+// The faces to blur. In bystander mode the face nearest each signalling hand
+// is kept; with no signalling hand every face is blurred.
+export const selectFacesToBlur = (faces: BoundingBox[], mode: FaceBlurMode, subjects: BoundingBox[] = []): BoundingBox[] => {
+  if (mode === 'off') return [];
+  if (mode === 'all') return faces;
+
+  const kept = new Set<BoundingBox>();
+  for (const hand of subjects) {
+    const handCenter = center(hand);
+    let nearest: BoundingBox | null = null;
+    let nearestDistance = Infinity;
+
+    for (const face of faces) {
+      const faceCenter = center(face);
+      const distance = Math.hypot(faceCenter.x - handCenter.x, faceCenter.y - handCenter.y) / face.height;
+      if (distance < nearestDistance) {
+        nearest = face;
+        nearestDistance = distance;
+      }
+    }
+
+    if (nearest && nearestDistance <= MAX_SUBJECT_DISTANCE) kept.add(nearest);
+  }
+
+  return faces.filter(face => !kept.has(face));
+};
+
+const blockCanvas = document.createElement('canvas');
+
+// Pixelate a region of the canvas in place, within an ellipse or the full
+// rectangle. Pixelation, unlike a blur filter, works in every browser.
+const pixelate = (
+  ctx: CanvasRenderingContext2D,
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+  blocks: number,
+  ellipse: boolean
+) => {
+  const blockCtx = blockCanvas.getContext('2d');
+  if (!blockCtx || width < 1 || height < 1) return;
+
+  blockCanvas.width = blocks;
+  blockCanvas.height = Math.max(1, Math.round((blocks * height) / width));
+  blockCtx.drawImage(ctx.canvas, x, y, width, height, 0, 0, blockCanvas.width, blockCanvas.height);
+
+  ctx.save();
+  if (ellipse) {
+    ctx.beginPath();
+    ctx.ellipse(x + width / 2, y + height / 2, width / 2, height / 2, 0, 0, Math.PI * 2);
+    ctx.clip();
+  }
+  ctx.imageSmoothingEnabled = false;
+  ctx.drawImage(blockCanvas, 0, 0, blockCanvas.width, blockCanvas.height, x, y, width, height);
+  ctx.restore();
+};
+
+// Hide faces and privacy masks on a canvas holding a video frame
+export const redactCanvas = (
+  canvas: HTMLCanvasElement,
+  faces: BoundingBox[],
+  masks: ZonePoint[][],
+  fullFrame = false
+): void => {
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return;
+  const { width, height } = canvas;
+
+  if (fullFrame) {
+    pixelate(ctx, 0, 0, width, height, FULL_FRAME_BLOCKS, false);
+  }
+
+  for (const face of faces) {
+    const padX = face.width * FACE_PADDING;
+    const padY = face.height * FACE_PADDING;
+    pixelate(
+      ctx,
+      (face.x - padX) * width,
+      (face.y - padY * 1.5) * height,
+      (face.width + padX * 2) * width,
+      (face.height + padY * 2.5) * height,
+      FACE_BLOCKS,
+      true
+    );
+  }
+
+  ctx.save();
+  ctx.fillStyle = 'black';
+  for (const mask of masks) {
+    ctx.beginPath();
+    mask.forEach((point, index) => {
+      if (index === 0) ctx.moveTo(point.x * width, point.y * height);
+      else ctx.lineTo(point.x * width, point.y * height);
+    });
+    ctx.closePath();
+    ctx.fill();
+  }
+  ctx.restore();
+};
+
+// Look for faces in the frame on the canvas and hide them and the masks.
+// When faces cannot be looked for the whole frame is blurred, so a failed
+// detector never lets a face through.
+export const redactFrame = async (
+  canvas: HTMLCanvasElement,
+  { blurFaces, masks }: RedactionOptions,
+  subjects: BoundingBox[] = []
+): Promise<RedactionSummary> => {
+  let faces: BoundingBox[] = [];
+  let fullFrame = false;
+
+  if (blurFaces !== 'off') {
+    try {
+      faces = selectFacesToBlur(await locateFaces(canvas), blurFaces, subjects);
+    } catch (error) {
+      console.error("Faces could not be located, blurring the whole image:", error);
+      fullFrame = true;
+    }
+  }
+
+  redactCanvas(canvas, faces, masks, fullFrame);
+  return { faces: faces.length, masks: masks.length, fullFrame };
+};
+
+const canvasToBlob = (canvas: HTMLCanvasElement, quality: number): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    canvas.toBlob(
+      blob => (blob ? resolve(blob) : reject(new Error("The frame could not be encoded"))),
+      'image/jpeg',
+      quality
+    );
+  });
+
+// Turn a captured frame into evidence that may leave the app: the original
+// is sealed in the vault, then the frame is redacted
+export const redactCapture = async (
+  canvas: HTMLCanvasElement,
+  { quality, keepOriginal, subjects, ...options }: CaptureOptions
+): Promise<CapturedEvidence> => {
+  if (!isRedacting(options)) {
+    return { imageData: canvas.toDataURL('image/jpeg', quality) };
+  }
+
+  let original: SealedEvidence | undefined;
+  if (keepOriginal) {
+    try {
+      original = await sealEvidence(await canvasToBlob(canvas, quality));
+    } catch (error) {
+      console.error("Error sealing the original image:", error);
+    }
+  }
+
+  const redaction = await redactFrame(canvas, options, subjects);
+  return { imageData: canvas.toDataURL('image/jpeg', quality), redaction, original };
+};
+
+export interface PrivacyFilterOptions extends RedactionOptions {
+  frameRate?: number;
+  // How often faces are looked for; frames in between reuse the last ones
+  detectionIntervalMs?: number;
+  // Hands making a gesture right now, for bystander mode
+  getSubjects?: () => BoundingBox[];
+}
+
+// A face found ageMs ago, grown to where it may have moved since
+const growFace = (face: BoundingBox, ageMs: number): BoundingBox => {
+  const growth = FACE_GROWTH_PER_SECOND * ageMs / 1000;
+  return {
+    x: face.x - face.width * growth,
+    y: face.y - face.height * growth,
+    width: face.width * (1 + growth * 2),
+    height: face.height * (1 + growth * 2)
+  };
+};
+
+// Redacted copy of a playing video as a stream, for recording clips. Frames
+// between detections blur the last faces found, grown with their age; until
+// the first faces have been looked for, or while the last ones are stale,
+// the whole picture is blurred.
+export class PrivacyFilter {
+  readonly stream: MediaStream;
+  private canvas = document.createElement('canvas');
+  private timer: number | null = null;
+  private faces: BoundingBox[] = [];
+  private fullFrame: boolean;
+  private locating = false;
+  private lastLocatedAt = 0;
+  // When the frame the current faces were found in was shown
+  private facesFoundAt = 0;
+  private frameRate: number;
+  private detectionIntervalMs: number;
+
+  constructor(private video: HTMLVideoElement, private options: PrivacyFilterOptions) {
+    this.frameRate = options.frameRate ?? 15;
+    this.detectionIntervalMs = options.detectionIntervalMs ?? 250;
+    this.fullFrame = options.blurFaces !== 'off';
+    this.stream = this.canvas.captureStream(this.frameRate);
+  }
+
+  start(): void {
+    if (this.timer !== null) return;
+    // An interval rather than animation frames, which stop in hidden tabs
+    this.timer = window.setInterval(() => this.drawFrame(), 1000 / this.frameRate);
+  }
+
+  stop(): void {
+    if (this.timer !== null) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    this.stream.getTracks().forEach(track => track.stop());
+  }
+
+  private drawFrame(): void {
+    const { videoWidth, videoHeight } = this.video;
+    const ctx = this.canvas.getContext('2d');
+    if (!ctx || this.video.readyState < 2 || !videoWidth) return;
+
+    if (this.canvas.width !== videoWidth || this.canvas.height !== videoHeight) {
+      this.canvas.width = videoWidth;
+      this.canvas.height = videoHeight;
+    }
+
+    ctx.drawImage(this.video, 0, 0, videoWidth, videoHeight);
+    this.updateFaces();
+
+    const age = Date.now() - this.facesFoundAt;
+    const stale = this.options.blurFaces !== 'off' && age > this.detectionIntervalMs * STALE_DETECTION_INTERVALS;
+    const faces = stale ? [] : this.faces.map(face => growFace(face, age));
+    redactCanvas(this.canvas, faces, this.options.masks, this.fullFrame || stale);
+  }
+
+  private updateFaces(): void {
+    const { blurFaces, getSubjects } = this.options;
+    const now = Date.now();
+    if (blurFaces === 'off' || this.locating || now - this.lastLocatedAt < this.detectionIntervalMs) return;
+
+    this.locating = true;
+    this.lastLocatedAt = now;
+    locateFaces(this.video)
+      .then((faces) => {
+        this.faces = selectFacesToBlur(faces, blurFaces, getSubjects?.() ?? []);
+        this.facesFoundAt = now;
+        this.fullFrame = false;
+      })
+      .catch(() => {
+        this.faces = [];
+        this.fullFrame = true;
+      })
+      .finally(() => {
+        this.locating = false;
+      });
+  }
+}
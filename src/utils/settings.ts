@@ -0,0 +1,125 @@
+// This file contains the workstation settings. The configuration is
+// validated, kept in localStorage and can be exported as JSON, so every
+// workstation can run the same setup.
+import { z } from 'zod';
+
+const STORAGE_KEY = 'settings';
+
+export const SETTINGS_VERSION = 1;
+
+export const CAMERA_RESOLUTIONS = {
+  '480p': { width: 640, height: 480 },
+  '720p': { width: 1280, height: 720 },
+  '1080p': { width: 1920, height: 1080 }
+} as const;
+
+// Every field has a default, so settings saved by an older version (or a
+// partial file) are filled in rather than rejected
+export const settingsSchema = z.object({
+  version: z.literal(SETTINGS_VERSION).default(SETTINGS_VERSION),
+  detection: z.object({
+    // How often a video frame is checked for gestures
+    intervalMs: z.number().int().min(10).max(1000).default(25),
+    sensitivity: z.enum(['low', 'medium', 'high']).default('high'),
+    maxHands: z.number().int().min(1).max(4).default(4),
+    // Run the hand model off the main thread where the browser allows it
+    useWorker: z.boolean().default(true),
+    smoothing: z.boolean().default(true)
+  }).default({}),
+  alerting: z.object({
+    // Minimum confidence for an emergency gesture to raise an alert
+    confidenceThreshold: z.number().min(0).max(1).default(0.5),
+    // Detection pauses this long after every alert
+    cooldownMs: z.number().int().min(0).max(10000).default(500),
+    // The same gesture only raises a new alert after this long
+    realertWindowMs: z.number().int().min(0).max(60000).default(1000),
+    autoDownloadImages: z.boolean().default(true)
+  }).default({}),
+  evidence: z.object({
+    recordClips: z.boolean().default(true),
+    preEventSeconds: z.number().int().min(0).max(60).default(10),
+    postEventSeconds: z.number().int().min(0).max(60).default(10),
+    // JPEG quality of captured stills
+    imageQuality: z.number().min(0.1).max(1).default(0.9)
+  }).default({}),
+  privacy: z.object({
+    // Faces to blur in images and clips before they leave the app
+    blurFaces: z.enum(['off', 'bystanders', 'all']).default('bystanders'),
+    // Keep the unredacted capture, encrypted on this workstation. Who may
+    // view it is granted by the backend, see evidenceVault.ts
+    keepOriginals: z.boolean().default(true)
+  }).default({}),
+  camera: z.object({
+    resolution: z.enum(['480p', '720p', '1080p']).default('480p'),
+    frameRate: z.number().int().min(5).max(60).default(30),
+    showOverlay: z.boolean().default(true)
+  }).default({}),
+  health: z.object({
+    // Watch every feed for frozen, black, covered and blurred pictures
+    enabled: z.boolean().default(true),
+    // A problem must last this long before it raises a tamper alert
+    graceSeconds: z.number().int().min(1).max(120).default(5),
+    // Average brightness (0-255) below which a picture counts as black
+    blackLevel: z.number().int().min(0).max(128).default(20),
+    // Sharpness below which a picture counts as blurred; 0 turns it off
+    blurThreshold: z.number().min(0).max(1000).default(10)
+  }).default({})
+});
+
+export type Settings = z.infer<typeof settingsSchema>;
+
+export const DEFAULT_SETTINGS: Settings = settingsSchema.parse({});
+
+// Settings that could not be read or failed validation
+export class SettingsError extends Error {
+  constructor(message: string, readonly issues: string[] = []) {
+    super(message);
+    this.name = 'SettingsError';
+  }
+}
+
+const describeIssues = (error: z.ZodError): string[] => {
+  return error.issues.map(issue => `${issue.path.join('.') || 'settings'}: ${issue.message}`);
+};
+
+// Validate settings from any source, filling in defaults
+export const parseSettings = (value: unknown): Settings => {
+  const result = settingsSchema.safeParse(value);
+  if (!result.success) {
+    throw new SettingsError('The settings are not valid.', describeIssues(result.error));
+  }
+  return result.data;
+};
+
+// Read settings from an exported JSON file
+export const parseSettingsJson = (text: string): Settings => {
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch {
+    throw new SettingsError('The file is not valid JSON.');
+  }
+  return parseSettings(value);
+};
+
+export const settingsToJson = (settings: Settings): string => {
+  return JSON.stringify(settings, null, 2);
+};
+
+// Load the saved settings, falling back to the defaults if there are none or
+// they are no longer valid
+export const loadSettings = (): Settings => {
+  const stored = localStorage.getItem(STORAGE_KEY);
+  if (!stored) return DEFAULT_SETTINGS;
+
+  try {
+    return parseSettingsJson(stored);
+  } catch (error) {
+    console.error("Stored settings are invalid, using defaults:", error);
+    return DEFAULT_SETTINGS;
+  }
+};
+
+export const saveSettings = (settings: Settings): void => {
+  localStorage.setItem(STORAGE_KEY, settingsToJson(settings));
+};
@@ -0,0 +1,83 @@
+// This file contains the detection zones drawn on a camera. Hands are only
+// watched inside its active zones (the whole picture when it has none) and
+// never inside its exclusion masks, so posters, screens and the background
+// don't raise alerts. Privacy masks don't affect detection; they are blacked
+// out of every image and clip before it leaves the app, see privacy.ts.
+export type ZoneKind = 'active' | 'exclusion' | 'privacy';
+
+// A point in the video frame as shown, 0-1 from the top left
+export interface ZonePoint {
+  x: number;
+  y: number;
+}
+
+export interface CameraZone {
+  id: string;
+  // Recorded on the alerts raised in the zone
+  name: string;
+  kind: ZoneKind;
+  points: ZonePoint[];
+}
+
+export interface ZonePlacement {
+  // Whether a hand here is watched
+  allowed: boolean;
+  // The active zone it is in
+  zone: CameraZone | null;
+}
+
+export const ZONE_KINDS: Record<ZoneKind, { label: string; shortName: string; stroke: string; fill: string }> = {
+  active: { label: 'Active zone', shortName: 'Zone', stroke: 'rgb(34, 197, 94)', fill: 'rgba(34, 197, 94, 0.15)' },
+  exclusion: { label: 'Exclusion mask', shortName: 'Mask', stroke: 'rgb(239, 68, 68)', fill: 'rgba(239, 68, 68, 0.3)' },
+  privacy: { label: 'Privacy mask', shortName: 'Privacy', stroke: 'rgb(168, 85, 247)', fill: 'rgba(168, 85, 247, 0.3)' }
+};
+
+// Create a zone from the points drawn on the feed
+export const createZone = (kind: ZoneKind, points: ZonePoint[], name = ''): CameraZone => ({
+  id: `zone-${Date.now()}-${Math.random().toString(36).substring(2, 7)}`,
+  name,
+  kind,
+  points
+});
+
+// Name to show for one of the camera's zones, numbering unnamed ones by
+// position among the zones of their kind
+export const getZoneName = (zone: CameraZone, zones: CameraZone[]): string => {
+  const index = zones.filter(other => other.kind === zone.kind).indexOf(zone);
+  return zone.name.trim() || `${ZONE_KINDS[zone.kind].shortName} ${index + 1}`;
+};
+
+// Even-odd ray casting; works for any simple polygon
+export const pointInPolygon = (point: ZonePoint, polygon: ZonePoint[]): boolean => {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    if ((a.y > point.y) !== (b.y > point.y) &&
+      point.x < ((b.x - a.x) * (point.y - a.y)) / (b.y - a.y) + a.x) {
+      inside = !inside;
+    }
+  }
+  return inside;
+};
+
+// Where a point falls among a camera's zones
+export const locateInZones = (point: ZonePoint, zones: CameraZone[]): ZonePlacement => {
+  const usable = zones.filter(zone => zone.points.length >= 3);
+  if (usable.some(zone => zone.kind === 'exclusion' && pointInPolygon(point, zone.points))) {
+    return { allowed: false, zone: null };
+  }
+
+  const active = usable.filter(zone => zone.kind === 'active');
+  if (active.length === 0) return { allowed: true, zone: null };
+
+  const zone = active.find(candidate => pointInPolygon(point, candidate.points)) ?? null;
+  return { allowed: zone !== null, zone };
+};
+
+// Outlines of the camera's privacy masks
+export const getPrivacyMasks = (zones: CameraZone[]): ZonePoint[][] => {
+  return zones
+    .filter(zone => zone.kind === 'privacy' && zone.points.length >= 3)
+    .map(zone => zone.points);
+};
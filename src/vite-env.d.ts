@@ -1 +1,23 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  // Base URL of the Supabase-compatible backend; unset keeps data in memory
+  readonly VITE_BACKEND_URL?: string;
+  readonly VITE_BACKEND_ANON_KEY?: string;
+  // Domain of the email accounts badge numbers sign in with
+  readonly VITE_BADGE_EMAIL_DOMAIN?: string;
+}
+
+declare module "virtual:mediapipe-hands-assets" {
+  // URL prefix the MediaPipe Hands files are served from
+  export const baseUrl: string;
+  // SHA-256 digest (hex) of every served file, by file name
+  export const files: Record<string, string>;
+}
+
+declare module "virtual:mediapipe-face_detection-assets" {
+  // URL prefix the MediaPipe Face Detection files are served from
+  export const baseUrl: string;
+  // SHA-256 digest (hex) of every served file, by file name
+  export const files: Record<string, string>;
+}
@@ -0,0 +1,96 @@
+// Runs MediaPipe Hands inside a classic web worker. The hands script is
+// loaded with importScripts, so this file must not have runtime imports.
+import type { Hands as HandsType, Options, Results } from '@mediapipe/hands';
+import type { HandWorkerRequest, HandWorkerResponse } from '../utils/handLandmarker';
+import type { HandAssetUrls } from '../utils/handAssets';
+
+interface HandWorkerScope {
+  Hands: typeof HandsType;
+  importScripts(...urls: string[]): void;
+  postMessage(message: HandWorkerResponse): void;
+  onmessage: ((event: MessageEvent<HandWorkerRequest>) => void) | null;
+}
+
+const scope = self as unknown as HandWorkerScope;
+
+let hands: HandsType | null = null;
+// Id of the frame currently being processed, so results can be matched
+let currentFrameId = -1;
+let lastAnsweredFrameId = -1;
+
+const reply = (message: HandWorkerResponse) => {
+  scope.postMessage(message);
+};
+
+// assetUrls holds object URLs of files the main thread already verified
+const initialize = async (assetUrls: HandAssetUrls, options: Options) => {
+  scope.importScripts(assetUrls['hands.js']);
+
+  hands = new scope.Hands({
+    locateFile: (file) => {
+      if (!assetUrls[file]) {
+        throw new Error(`Unknown hand model file "${file}"`);
+      }
+      return assetUrls[file];
+    }
+  });
+
+  hands.onResults((results: Results) => {
+    lastAnsweredFrameId = currentFrameId;
+    reply({
+      type: 'results',
+      id: currentFrameId,
+      multiHandLandmarks: results.multiHandLandmarks ?? [],
+      multiHandWorldLandmarks: results.multiHandWorldLandmarks ?? [],
+      multiHandedness: results.multiHandedness ?? []
+    });
+  });
+
+  await hands.setOptions(options);
+  await hands.initialize();
+};
+
+scope.onmessage = async (event) => {
+  const message = event.data;
+
+  switch (message.type) {
+    case 'init':
+      try {
+        await initialize(message.assetUrls, message.options);
+        reply({ type: 'ready' });
+      } catch (error) {
+        reply({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+      }
+      break;
+
+    case 'setOptions':
+      hands?.setOptions(message.options);
+      break;
+
+    case 'frame':
+      currentFrameId = message.id;
+      try {
+        if (!hands) {
+          throw new Error("Hand model is not initialized");
+        }
+        // The typings only list DOM image sources, but the solution accepts
+        // ImageBitmaps when running in a worker
+        await hands.send({ image: message.frame as unknown as HTMLCanvasElement });
+
+        // Always answer, so the main thread never waits on a frame forever
+        if (lastAnsweredFrameId !== message.id) {
+          reply({ type: 'results', id: message.id, multiHandLandmarks: [], multiHandedness: [] });
+        }
+      } catch (error) {
+        reply({ type: 'error', id: message.id, message: error instanceof Error ? error.message : String(error) });
+      } finally {
+        message.frame.close();
+      }
+      break;
+
+    case 'close':
+      await hands?.close();
+      hands = null;
+      break;
+  }
+};
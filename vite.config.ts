@@ -2,6 +2,7 @@ import { defineConfig } from "vite";
 import react from "@vitejs/plugin-react-swc";
 import path from "path";
 import { componentTagger } from "lovable-tagger";
+import mediapipeAssets from "./plugins/mediapipeAssets";
 
 // https://vitejs.dev/config/
 export default defineConfig(({ mode }) => ({
@@ -11,6 +12,8 @@ export default defineConfig(({ mode }) => ({
   },
   plugins: [
     react(),
+    mediapipeAssets("hands"),
+    mediapipeAssets("face_detection"),
     mode === 'development' &&
     componentTagger(),
   ].filter(Boolean),